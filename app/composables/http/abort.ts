@@ -0,0 +1,100 @@
+/**
+ * 请求取消工具
+ * 组合调用方的 AbortSignal 与超时控制，并保证计时器在请求结束后被清理
+ */
+
+/**
+ * 单次尝试的取消作用域
+ */
+export interface AbortScope {
+  signal: AbortSignal
+  /** 是否因超时而取消 */
+  readonly timedOut: boolean
+  /** 清理计时器与监听器 */
+  clear: () => void
+}
+
+/**
+ * 将 source 的取消传递给 target，返回解除关联的函数
+ */
+export function linkAbortSignal(source: AbortSignal | null | undefined, target: AbortController): () => void {
+  if (!source)
+    return () => {}
+
+  if (source.aborted) {
+    target.abort(source.reason)
+    return () => {}
+  }
+
+  const onAbort = () => target.abort(source.reason)
+  source.addEventListener('abort', onAbort, { once: true })
+  return () => source.removeEventListener('abort', onAbort)
+}
+
+/**
+ * 创建带超时的取消作用域，parent 取消时同步取消
+ */
+export function createAbortScope(timeout: number, parent?: AbortSignal | null): AbortScope {
+  const controller = new AbortController()
+  let timedOut = false
+
+  const timer = setTimeout(() => {
+    timedOut = true
+    controller.abort()
+  }, timeout)
+  const unlink = linkAbortSignal(parent, controller)
+
+  return {
+    signal: controller.signal,
+    get timedOut() {
+      return timedOut
+    },
+    clear() {
+      clearTimeout(timer)
+      unlink()
+    },
+  }
+}
+
+/**
+ * 可取消的等待，取消时以 signal.reason 拒绝
+ */
+export function abortableDelay(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+
+    function onAbort() {
+      clearTimeout(timer)
+      reject(signal!.reason)
+    }
+
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * 等待 promise，signal 取消时立即以 signal.reason 拒绝（promise 本身不会被中止）
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal | null): Promise<T> {
+  if (!signal)
+    return promise
+
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason)
+      return
+    }
+
+    const onAbort = () => reject(signal.reason)
+    signal.addEventListener('abort', onAbort, { once: true })
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort))
+  })
+}
@@ -0,0 +1,230 @@
+/**
+ * HTTP 传输适配器
+ * 将实际的网络调用与 TauriHTTPClient 解耦：Tauri 插件、浏览器 fetch 与内存 Mock
+ */
+
+import type { TransportOptions } from './network'
+import { fetch as tauriFetch } from '@tauri-apps/plugin-http'
+import { useGlobalEnvironment } from '../useEnvironment'
+import { abortableDelay } from './abort'
+import { tlsFetch } from './tls'
+
+// ============= 类型定义 =============
+
+/**
+ * 传输适配器
+ */
+export interface HTTPAdapter {
+  name: string
+  fetch: (url: string, init: RequestInit) => Promise<Response>
+}
+
+// ============= 内置适配器 =============
+
+/**
+ * Tauri HTTP 插件适配器，由 Rust 端发送请求，不受 CORS 限制
+ * 带有自定义 CA 证书或主机名覆盖的请求改用 tls_fetch 命令
+ */
+export const tauriAdapter: HTTPAdapter = {
+  name: 'tauri',
+  fetch: (url, init) => {
+    const { tls, ...rest } = init as RequestInit & TransportOptions
+    return tls ? tlsFetch(url, rest, tls) : tauriFetch(url, rest)
+  },
+}
+
+/**
+ * 浏览器 fetch 适配器，用于 `pnpm dev` 等非 Tauri 环境
+ */
+export const browserAdapter: HTTPAdapter = {
+  name: 'browser',
+  fetch: (url, init) => globalThis.fetch(url, init),
+}
+
+/**
+ * 自动适配器：每次请求时根据运行环境选择 Tauri 或浏览器 fetch
+ */
+export const autoAdapter: HTTPAdapter = {
+  name: 'auto',
+  async fetch(url, init) {
+    const isTauri = await useGlobalEnvironment().detectTauriEnvironment()
+    return (isTauri ? tauriAdapter : browserAdapter).fetch(url, init)
+  },
+}
+
+// ============= Mock 适配器 =============
+
+/** 解析相对 URL 时使用的基础地址 */
+const MOCK_BASE_URL = 'http://localhost'
+
+/**
+ * 读取请求体文本，相对 URL 按 MOCK_BASE_URL 解析；无法读取时返回 null
+ */
+async function readBody(url: string, init: RequestInit): Promise<string | null> {
+  try {
+    return await new Request(new URL(url, MOCK_BASE_URL), init).text()
+  }
+  catch {
+    return null
+  }
+}
+
+/**
+ * Mock 请求信息
+ */
+export interface MockRequest {
+  url: string
+  method: string
+  headers: Record<string, string>
+  body: string | null
+}
+
+/**
+ * Mock 响应定义
+ */
+export interface MockResponseInit {
+  status?: number
+  statusText?: string
+  headers?: Record<string, string>
+  /** 对象会序列化为 JSON，字符串与二进制原样返回 */
+  body?: unknown
+  /** 响应延迟（毫秒） */
+  delay?: number
+  /** 模拟网络错误 */
+  networkError?: boolean
+}
+
+/**
+ * Mock 路由处理函数
+ */
+export type MockHandler = (request: MockRequest) => MockResponseInit | Promise<MockResponseInit>
+
+/**
+ * Mock 路由
+ */
+interface MockRoute {
+  method: string
+  matcher: string | RegExp
+  handler: MockHandler
+  /** 剩余可匹配次数，undefined 表示不限 */
+  times?: number
+}
+
+/**
+ * 内存 Mock 适配器
+ * 按注册顺序匹配路由，未匹配时返回 404
+ */
+export class MockAdapter implements HTTPAdapter {
+  readonly name = 'mock'
+  private routes: MockRoute[] = []
+
+  /** 已收到的请求记录 */
+  readonly history: MockRequest[] = []
+
+  /** 所有响应的默认延迟（毫秒） */
+  defaultDelay = 0
+
+  /**
+   * 注册路由
+   * 字符串以 / 开头时匹配路径，否则匹配完整 URL；method 为 * 时匹配任意方法
+   */
+  on(method: string, matcher: string | RegExp, response: MockResponseInit | MockHandler, times?: number) {
+    this.routes.push({
+      method: method.toUpperCase(),
+      matcher,
+      handler: typeof response === 'function' ? response : () => response,
+      times,
+    })
+    return this
+  }
+
+  /**
+   * 注册只匹配一次的路由
+   */
+  once(method: string, matcher: string | RegExp, response: MockResponseInit | MockHandler) {
+    return this.on(method, matcher, response, 1)
+  }
+
+  /**
+   * 清空路由与请求记录
+   */
+  reset() {
+    this.routes = []
+    this.history.length = 0
+  }
+
+  async fetch(url: string, init: RequestInit): Promise<Response> {
+    const request: MockRequest = {
+      url,
+      method: (init.method || 'GET').toUpperCase(),
+      headers: Object.fromEntries(new Headers(init.headers).entries()),
+      body: await readBody(url, init),
+    }
+    this.history.push(request)
+
+    const route = this.match(request)
+    const result = route ? await route.handler(request) : { status: 404, body: { message: 'Mock route not found' } }
+
+    // 模拟延迟，可被取消
+    await abortableDelay(result.delay ?? this.defaultDelay, init.signal)
+
+    if (result.networkError)
+      throw new TypeError('Mock network error')
+
+    return this.toResponse(result)
+  }
+
+  /**
+   * 查找匹配的路由
+   */
+  private match(request: MockRequest): MockRoute | undefined {
+    const pathname = new URL(request.url, MOCK_BASE_URL).pathname
+    const route = this.routes.find((route) => {
+      if (route.method !== '*' && route.method !== request.method)
+        return false
+      if (route.times === 0)
+        return false
+      if (route.matcher instanceof RegExp)
+        return route.matcher.test(request.url)
+      return route.matcher.startsWith('/') ? route.matcher === pathname : route.matcher === request.url
+    })
+
+    if (route?.times !== undefined)
+      route.times--
+    return route
+  }
+
+  /**
+   * 构建响应对象
+   */
+  private toResponse(result: MockResponseInit): Response {
+    const headers = new Headers(result.headers)
+    const status = result.status ?? 200
+    let body: BodyInit | null = null
+
+    // 无响应体的状态码不能携带 body
+    if (result.body !== undefined && result.body !== null && ![204, 205, 304].includes(status)) {
+      if (typeof result.body === 'string' || result.body instanceof Blob || result.body instanceof ArrayBuffer) {
+        body = result.body
+      }
+      else {
+        body = JSON.stringify(result.body)
+        if (!headers.has('content-type'))
+          headers.set('content-type', 'application/json')
+      }
+    }
+
+    return new Response(body, {
+      status,
+      statusText: result.statusText ?? '',
+      headers,
+    })
+  }
+}
+
+/**
+ * 创建 Mock 适配器
+ */
+export function createMockAdapter() {
+  return new MockAdapter()
+}
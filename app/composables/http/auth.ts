@@ -0,0 +1,155 @@
+/**
+ * 认证方案
+ * 将服务器的认证描述（Bearer、API Key、Basic、HMAC 签名）应用到请求配置
+ */
+
+import type { HTTPRequestConfig, SignableRequest } from '../useTauriHTTP'
+
+// ============= 类型定义 =============
+
+/**
+ * Bearer Token
+ */
+export interface BearerAuth {
+  type: 'bearer'
+  token: string
+}
+
+/**
+ * API Key，放在请求头或查询参数中
+ */
+export interface ApiKeyAuth {
+  type: 'apiKey'
+  /** 请求头或查询参数名，如 X-API-Key */
+  name: string
+  value: string
+  in: 'header' | 'query'
+}
+
+/**
+ * HTTP Basic
+ */
+export interface BasicAuth {
+  type: 'basic'
+  username: string
+  password: string
+}
+
+/**
+ * HMAC 签名
+ * 签名内容为 `METHOD\nPATH?QUERY\nTIMESTAMP\nSHA256(body)`，结果以十六进制写入签名请求头
+ */
+export interface HmacAuth {
+  type: 'hmac'
+  keyId: string
+  secret: string
+  /** 摘要算法，默认 SHA-256 */
+  algorithm?: 'SHA-256' | 'SHA-512'
+  /** 默认 X-Key-Id */
+  keyIdHeader?: string
+  /** 默认 X-Timestamp（Unix 秒） */
+  timestampHeader?: string
+  /** 默认 X-Signature */
+  signatureHeader?: string
+}
+
+/**
+ * 服务器认证描述
+ */
+export type ServerAuth = { type: 'none' } | BearerAuth | ApiKeyAuth | BasicAuth | HmacAuth
+
+/**
+ * 认证方案类型
+ */
+export type ServerAuthType = ServerAuth['type']
+
+// ============= 工具函数 =============
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * 计算 HMAC 签名
+ */
+export async function signHmac(secret: string, message: string, algorithm: HmacAuth['algorithm'] = 'SHA-256'): Promise<string> {
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: algorithm }, false, ['sign'])
+  return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(message)))
+}
+
+/**
+ * 生成 Basic 认证头的值（支持非 ASCII 字符）
+ */
+export function encodeBasicAuth(username: string, password: string): string {
+  let binary = ''
+  for (const byte of new TextEncoder().encode(`${username}:${password}`)) {
+    binary += String.fromCharCode(byte)
+  }
+  return `Basic ${btoa(binary)}`
+}
+
+/**
+ * 生成 HMAC 签名请求头
+ * 仅对字符串请求体计算摘要，其他类型按空请求体签名
+ */
+export async function createHmacHeaders(auth: HmacAuth, request: Pick<SignableRequest, 'url' | 'method' | 'body'>): Promise<Record<string, string>> {
+  const url = new URL(request.url)
+  const timestamp = String(Math.floor(Date.now() / 1000))
+  const body = typeof request.body === 'string' ? request.body : ''
+  const bodyHash = toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(body)))
+  const signature = await signHmac(
+    auth.secret,
+    [request.method.toUpperCase(), `${url.pathname}${url.search}`, timestamp, bodyHash].join('\n'),
+    auth.algorithm,
+  )
+
+  return {
+    [auth.keyIdHeader ?? 'X-Key-Id']: auth.keyId,
+    [auth.timestampHeader ?? 'X-Timestamp']: timestamp,
+    [auth.signatureHeader ?? 'X-Signature']: signature,
+  }
+}
+
+/**
+ * 认证方案写入的敏感请求头与查询参数名，供 HAR 录制脱敏
+ */
+export function authSecretNames(auth: ServerAuth): { headers: string[], queryParams: string[] } {
+  switch (auth.type) {
+    case 'apiKey':
+      return auth.in === 'header' ? { headers: [auth.name], queryParams: [] } : { headers: [], queryParams: [auth.name] }
+    case 'hmac':
+      return { headers: [auth.keyIdHeader ?? 'X-Key-Id', auth.signatureHeader ?? 'X-Signature'], queryParams: [] }
+    default:
+      return { headers: [], queryParams: [] }
+  }
+}
+
+/**
+ * 将认证方案应用到请求配置
+ * HMAC 通过 sign 在每次发送时重新签名，重试与排队不会使时间戳过期
+ */
+export async function applyAuth(config: HTTPRequestConfig, auth: ServerAuth): Promise<HTTPRequestConfig> {
+  switch (auth.type) {
+    case 'none':
+      return config
+
+    case 'bearer':
+      return { ...config, headers: { ...config.headers, Authorization: `Bearer ${auth.token}` } }
+
+    case 'apiKey': {
+      if (auth.in === 'header')
+        return { ...config, headers: { ...config.headers, [auth.name]: auth.value } }
+
+      const url = new URL(config.url)
+      url.searchParams.set(auth.name, auth.value)
+      return { ...config, url: url.toString() }
+    }
+
+    case 'basic':
+      return { ...config, headers: { ...config.headers, Authorization: encodeBasicAuth(auth.username, auth.password) } }
+
+    case 'hmac':
+      return { ...config, sign: request => createHmacHeaders(auth, request) }
+  }
+}
@@ -0,0 +1,281 @@
+/**
+ * HTTP 语义缓存
+ * 遵循 Cache-Control、Expires、ETag、Last-Modified 与 Vary，仅缓存 GET 请求
+ */
+
+import type { HTTPRequestConfig, HTTPResponse } from '../useTauriHTTP'
+import { getHeader } from './headers'
+
+// ============= 类型定义 =============
+
+/**
+ * 响应的缓存来源
+ * hit：新鲜缓存；stale：过期缓存（后台重新验证中）；revalidated：服务器返回 304；fetched：从网络获取
+ */
+export type HTTPCacheStatus = 'hit' | 'stale' | 'revalidated' | 'fetched'
+
+/**
+ * 缓存条目
+ */
+export interface CachedResponse {
+  url: string
+  status: number
+  statusText: string
+  headers: Record<string, string>
+  data: unknown
+  /** 写入或最近一次验证的时间戳 */
+  storedAt: number
+  /** Vary 指定的请求头取值 */
+  vary: Record<string, string>
+  /** 解码响应体时使用的 responseType，未指定时为 auto；不同类型的请求互不复用 */
+  responseType?: string
+}
+
+/**
+ * 缓存存储，键为 `GET <url>`，同一键下按 Vary 与 responseType 保存多个变体
+ */
+export interface HTTPCacheStorage {
+  get: (key: string) => Promise<CachedResponse[] | undefined>
+  set: (key: string, variants: CachedResponse[]) => Promise<void>
+  delete: (key: string) => Promise<void>
+  clear: () => Promise<void>
+}
+
+/**
+ * 缓存配置
+ */
+export interface HTTPCacheOptions {
+  storage: HTTPCacheStorage
+}
+
+/**
+ * 新鲜度
+ */
+type Freshness = 'fresh' | 'stale-while-revalidate' | 'stale'
+
+// ============= 存储实现 =============
+
+/**
+ * 内存存储，超过上限时淘汰最久未使用的键
+ */
+export class MemoryCacheStorage implements HTTPCacheStorage {
+  private entries = new Map<string, CachedResponse[]>()
+
+  constructor(private maxEntries = 200) {}
+
+  async get(key: string) {
+    const variants = this.entries.get(key)
+    if (variants) {
+      // 重新插入以更新访问顺序
+      this.entries.delete(key)
+      this.entries.set(key, variants)
+    }
+    return variants
+  }
+
+  async set(key: string, variants: CachedResponse[]) {
+    this.entries.delete(key)
+    this.entries.set(key, variants)
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!)
+    }
+  }
+
+  async delete(key: string) {
+    this.entries.delete(key)
+  }
+
+  async clear() {
+    this.entries.clear()
+  }
+}
+
+// ============= 工具函数 =============
+
+/**
+ * 解析 Cache-Control，无值的指令记为 true
+ */
+export function parseCacheControl(value: string | undefined): Record<string, number | true> {
+  const directives: Record<string, number | true> = {}
+  if (!value)
+    return directives
+
+  for (const part of value.split(',')) {
+    const [name, raw] = part.trim().split('=')
+    if (!name)
+      continue
+    const seconds = raw === undefined ? Number.NaN : Number(raw.replace(/"/g, ''))
+    directives[name.toLowerCase()] = Number.isFinite(seconds) ? seconds : true
+  }
+  return directives
+}
+
+function responseTypeOf(config: HTTPRequestConfig): string {
+  return config.responseType ?? 'auto'
+}
+
+/**
+ * 是否为同一变体：Vary 取值与 responseType 都相同
+ * 持久化存储每次返回新对象，不能按引用比较
+ */
+function isSameVariant(variant: CachedResponse, vary: Record<string, string>, responseType: string): boolean {
+  return (variant.responseType ?? 'auto') === responseType && JSON.stringify(variant.vary) === JSON.stringify(vary)
+}
+
+// ============= 缓存 =============
+
+export class HTTPCache {
+  readonly storage: HTTPCacheStorage
+
+  constructor(options: Partial<HTTPCacheOptions> = {}) {
+    this.storage = options.storage ?? new MemoryCacheStorage()
+  }
+
+  private keyOf(url: string) {
+    return `GET ${url}`
+  }
+
+  /**
+   * 查找与请求头、responseType 匹配的缓存变体
+   */
+  async match(config: HTTPRequestConfig): Promise<CachedResponse | undefined> {
+    const variants = await this.storage.get(this.keyOf(config.url))
+    const responseType = responseTypeOf(config)
+    return variants?.find(variant =>
+      (variant.responseType ?? 'auto') === responseType
+      && Object.entries(variant.vary).every(([name, value]) => (getHeader(config.headers, name) ?? '') === value),
+    )
+  }
+
+  /**
+   * 判断缓存条目的新鲜度
+   */
+  freshness(entry: CachedResponse, now = Date.now()): Freshness {
+    const directives = parseCacheControl(entry.headers['cache-control'])
+    if (directives['no-cache'])
+      return 'stale'
+
+    let lifetime: number | undefined
+    if (typeof directives['max-age'] === 'number') {
+      lifetime = directives['max-age']
+    }
+    else if (entry.headers.expires) {
+      const expires = Date.parse(entry.headers.expires)
+      const date = entry.headers.date ? Date.parse(entry.headers.date) : entry.storedAt
+      if (!Number.isNaN(expires))
+        lifetime = Math.max(0, (expires - (Number.isNaN(date) ? entry.storedAt : date)) / 1000)
+    }
+
+    const age = (now - entry.storedAt) / 1000 + (Number(entry.headers.age) || 0)
+    const maxAge = lifetime ?? 0
+    if (age < maxAge)
+      return 'fresh'
+
+    const swr = directives['stale-while-revalidate']
+    if (typeof swr === 'number' && !directives['must-revalidate'] && age < maxAge + swr)
+      return 'stale-while-revalidate'
+
+    return 'stale'
+  }
+
+  /**
+   * 生成条件请求头
+   */
+  validators(entry: CachedResponse): Record<string, string> {
+    const headers: Record<string, string> = {}
+    if (entry.headers.etag)
+      headers['If-None-Match'] = entry.headers.etag
+    if (entry.headers['last-modified'])
+      headers['If-Modified-Since'] = entry.headers['last-modified']
+    return headers
+  }
+
+  /**
+   * 保存响应，不可缓存时删除已有变体
+   */
+  async put(config: HTTPRequestConfig, response: HTTPResponse): Promise<void> {
+    const key = this.keyOf(config.url)
+    const directives = parseCacheControl(response.headers['cache-control'])
+    const varyNames = (response.headers.vary ?? '').split(',').map(name => name.trim()).filter(Boolean)
+
+    const cacheable = response.status === 200
+      && !directives['no-store']
+      && !varyNames.includes('*')
+      && (directives['max-age'] !== undefined
+        || response.headers.expires !== undefined
+        || response.headers.etag !== undefined
+        || response.headers['last-modified'] !== undefined)
+
+    const vary: Record<string, string> = {}
+    for (const name of varyNames) {
+      vary[name.toLowerCase()] = getHeader(config.headers, name) ?? ''
+    }
+
+    const responseType = responseTypeOf(config)
+    const variants = ((await this.storage.get(key)) ?? []).filter(variant => !isSameVariant(variant, vary, responseType))
+
+    if (cacheable) {
+      variants.push({
+        url: config.url,
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+        data: response.data,
+        storedAt: Date.now(),
+        vary,
+        responseType,
+      })
+    }
+
+    if (variants.length > 0)
+      await this.storage.set(key, variants)
+    else
+      await this.storage.delete(key)
+  }
+
+  /**
+   * 收到 304 后更新缓存条目的响应头与验证时间
+   */
+  async refresh(config: HTTPRequestConfig, entry: CachedResponse, headers: Record<string, string>): Promise<CachedResponse> {
+    const updated: CachedResponse = {
+      ...entry,
+      headers: { ...entry.headers, ...headers },
+      storedAt: Date.now(),
+    }
+
+    const key = this.keyOf(config.url)
+    const responseType = entry.responseType ?? 'auto'
+    const variants = (await this.storage.get(key)) ?? []
+    await this.storage.set(key, [...variants.filter(variant => !isSameVariant(variant, entry.vary, responseType)), updated])
+    return updated
+  }
+
+  /**
+   * 使指定 URL 的缓存失效
+   */
+  async invalidate(url: string): Promise<void> {
+    await this.storage.delete(this.keyOf(url))
+  }
+
+  /**
+   * 清空缓存
+   */
+  async clear(): Promise<void> {
+    await this.storage.clear()
+  }
+
+  /**
+   * 将缓存条目转换为响应对象
+   */
+  toResponse<T>(entry: CachedResponse, cacheStatus: HTTPCacheStatus): HTTPResponse<T> {
+    return {
+      data: entry.data as T,
+      status: entry.status,
+      statusText: entry.statusText,
+      headers: entry.headers,
+      ok: true,
+      attempts: 0,
+      cacheStatus,
+    }
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * 按主机划分的熔断器
+ * 连续失败达到阈值后打开，冷却期内快速失败；冷却结束后放行少量探测请求（半开），成功则关闭
+ */
+
+import { shallowRef } from 'vue'
+import { HTTPCircuitOpenError, HTTPNetworkError, HTTPStatusError, HTTPTimeoutError } from './errors'
+import { getURLHost } from './url'
+
+// ============= 类型定义 =============
+
+/**
+ * 熔断器状态
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+/**
+ * 熔断器配置
+ */
+export interface CircuitBreakerOptions {
+  /** 连续失败多少次后打开 */
+  failureThreshold: number
+  /** 打开后的冷却时间（毫秒） */
+  cooldown: number
+  /** 半开状态下允许同时进行的探测请求数 */
+  halfOpenMaxRequests: number
+  /** 半开状态下连续成功多少次后关闭 */
+  successThreshold: number
+  /** 判断错误是否计入失败，默认网络错误、超时与 5xx */
+  isFailure: (error: unknown) => boolean
+}
+
+/**
+ * 单个主机的熔断状态（供 UI 展示）
+ */
+export interface CircuitStatus {
+  host: string
+  state: CircuitState
+  failures: number
+  /** 最近一次打开的时间戳 */
+  openedAt: number | null
+  /** 允许再次尝试的时间戳 */
+  retryAt: number | null
+}
+
+/**
+ * 内部记录
+ */
+interface CircuitEntry extends CircuitStatus {
+  successes: number
+  probes: number
+}
+
+/**
+ * 默认判断：网络错误、超时与 5xx 响应视为服务器故障
+ */
+function defaultIsFailure(error: unknown): boolean {
+  if (error instanceof HTTPStatusError)
+    return error.status >= 500
+  return error instanceof HTTPNetworkError || error instanceof HTTPTimeoutError
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  cooldown: 30000,
+  halfOpenMaxRequests: 1,
+  successThreshold: 1,
+  isFailure: defaultIsFailure,
+}
+
+// ============= 熔断器 =============
+
+export class CircuitBreaker {
+  private options: CircuitBreakerOptions
+  private entries = new Map<string, CircuitEntry>()
+
+  /** 各主机的熔断状态，仅包含发生过请求的主机 */
+  readonly states = shallowRef<Record<string, CircuitStatus>>({})
+
+  constructor(options: Partial<CircuitBreakerOptions> = {}) {
+    this.options = { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, ...options }
+  }
+
+  /**
+   * 从 URL 中提取主机，无法解析时返回 null
+   */
+  static hostOf(url: string): string | null {
+    return getURLHost(url)
+  }
+
+  /**
+   * 获取主机当前状态
+   */
+  getState(host: string): CircuitState {
+    return this.refresh(this.getEntry(host)).state
+  }
+
+  /**
+   * 请求发出前调用，熔断时抛出 HTTPCircuitOpenError
+   */
+  acquire(host: string, errorOptions?: { url?: string, method?: string }) {
+    const entry = this.refresh(this.getEntry(host))
+
+    if (entry.state === 'open' || (entry.state === 'half-open' && entry.probes >= this.options.halfOpenMaxRequests)) {
+      throw new HTTPCircuitOpenError(host, entry.retryAt ?? Date.now(), errorOptions)
+    }
+
+    if (entry.state === 'half-open')
+      entry.probes++
+  }
+
+  /**
+   * 记录请求结果
+   */
+  record(host: string, error?: unknown) {
+    if (error === undefined || !this.options.isFailure(error))
+      this.onSuccess(host)
+    else
+      this.onFailure(host)
+  }
+
+  /**
+   * 请求未得到结果（如被取消）时释放探测名额
+   */
+  release(host: string) {
+    const entry = this.getEntry(host)
+    if (entry.state === 'half-open' && entry.probes > 0)
+      entry.probes--
+  }
+
+  /**
+   * 重置指定主机或全部主机
+   */
+  reset(host?: string) {
+    if (host)
+      this.entries.delete(host)
+    else
+      this.entries.clear()
+    this.publish()
+  }
+
+  private onSuccess(host: string) {
+    const entry = this.getEntry(host)
+
+    if (entry.state === 'half-open') {
+      entry.probes = Math.max(0, entry.probes - 1)
+      entry.successes++
+      if (entry.successes >= this.options.successThreshold)
+        this.transition(entry, 'closed')
+    }
+    else if (entry.failures > 0) {
+      entry.failures = 0
+      this.publish()
+    }
+  }
+
+  private onFailure(host: string) {
+    const entry = this.getEntry(host)
+    entry.failures++
+
+    if (entry.state === 'half-open' || entry.failures >= this.options.failureThreshold)
+      this.transition(entry, 'open')
+    else
+      this.publish()
+  }
+
+  /**
+   * 冷却期结束后转为半开
+   */
+  private refresh(entry: CircuitEntry): CircuitEntry {
+    if (entry.state === 'open' && entry.retryAt !== null && Date.now() >= entry.retryAt)
+      this.transition(entry, 'half-open')
+    return entry
+  }
+
+  private transition(entry: CircuitEntry, state: CircuitState) {
+    entry.state = state
+    entry.probes = 0
+    entry.successes = 0
+
+    if (state === 'open') {
+      entry.openedAt = Date.now()
+      entry.retryAt = entry.openedAt + this.options.cooldown
+    }
+    else if (state === 'closed') {
+      entry.failures = 0
+      entry.openedAt = null
+      entry.retryAt = null
+    }
+
+    console.warn(`[HTTP] 熔断器 ${entry.host} -> ${state}`)
+    this.publish()
+  }
+
+  private getEntry(host: string): CircuitEntry {
+    let entry = this.entries.get(host)
+    if (!entry) {
+      entry = { host, state: 'closed', failures: 0, openedAt: null, retryAt: null, successes: 0, probes: 0 }
+      this.entries.set(host, entry)
+    }
+    return entry
+  }
+
+  /**
+   * 同步状态到响应式快照
+   */
+  private publish() {
+    const snapshot: Record<string, CircuitStatus> = {}
+    for (const { host, state, failures, openedAt, retryAt } of this.entries.values()) {
+      snapshot[host] = { host, state, failures, openedAt, retryAt }
+    }
+    this.states.value = snapshot
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * 请求体序列化与响应体解码
+ * 按 Content-Type 选择序列化器与解码器，内置 JSON（含 +json）、表单、multipart、文本、XML 与二进制
+ */
+
+// ============= 类型定义 =============
+
+/**
+ * MIME 类型匹配规则
+ * 字符串支持 `text/*` 通配，子类型以 `*+` 开头时按结构化后缀（如 +json）匹配；正则匹配不含参数的 MIME 类型
+ */
+export type MimeMatcher = string | RegExp
+
+/**
+ * 请求体序列化函数
+ */
+export type BodySerializer = (data: unknown, mimeType: string) => BodyInit
+
+/**
+ * 响应体解码函数
+ */
+export type BodyDecoder = (bytes: Uint8Array, mimeType: string) => unknown
+
+interface Codec<T> {
+  matcher: MimeMatcher
+  handler: T
+}
+
+// ============= 工具函数 =============
+
+/**
+ * 提取不含参数的 MIME 类型，如 `application/json; charset=utf-8` → `application/json`
+ */
+export function getMimeType(contentType: string | null | undefined): string {
+  return (contentType ?? '').split(';')[0]!.trim().toLowerCase()
+}
+
+/**
+ * 判断 MIME 类型是否匹配
+ */
+export function matchMimeType(matcher: MimeMatcher, mimeType: string): boolean {
+  if (matcher instanceof RegExp)
+    return matcher.test(mimeType)
+
+  const [type, subtype = ''] = matcher.toLowerCase().split('/')
+  const [actualType, actualSubtype = ''] = mimeType.split('/')
+  if (type !== '*' && type !== actualType)
+    return false
+  if (subtype === '*')
+    return true
+  if (subtype.startsWith('*+'))
+    return actualSubtype.endsWith(subtype.slice(1))
+  return subtype === actualSubtype
+}
+
+/**
+ * 表单字段值转换为字符串
+ */
+function toFieldValue(value: unknown): string {
+  if (value instanceof Date)
+    return value.toISOString()
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+/**
+ * 对象转为 URLSearchParams，数组展开为同名参数，null / undefined 跳过
+ */
+function toSearchParams(data: unknown): URLSearchParams {
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(data as Record<string, unknown>)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item !== undefined && item !== null)
+        params.append(key, toFieldValue(item))
+    }
+  }
+  return params
+}
+
+/**
+ * 对象转为 FormData，Blob / File 作为文件字段
+ */
+function toFormData(data: unknown): FormData {
+  const form = new FormData()
+  for (const [key, value] of Object.entries(data as Record<string, unknown>)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item instanceof Blob)
+        form.append(key, item)
+      else if (item !== undefined && item !== null)
+        form.append(key, toFieldValue(item))
+    }
+  }
+  return form
+}
+
+function serializeXML(data: unknown): string {
+  if (typeof data === 'string')
+    return data
+  if (typeof Document !== 'undefined' && data instanceof Document)
+    return new XMLSerializer().serializeToString(data)
+  throw new TypeError('XML 请求体需为字符串或 Document')
+}
+
+function decodeText(bytes: Uint8Array): string {
+  return new TextDecoder().decode(bytes)
+}
+
+function decodeJSON(bytes: Uint8Array): unknown {
+  const text = decodeText(bytes)
+  return text ? JSON.parse(text) : null
+}
+
+/**
+ * 解析 XML 文本为 Document，解析失败时抛出 SyntaxError
+ */
+export function parseXMLDocument(text: string): Document {
+  const document = new DOMParser().parseFromString(text, 'application/xml')
+  if (document.getElementsByTagName('parsererror').length > 0)
+    throw new SyntaxError('XML 解析失败')
+  return document
+}
+
+/**
+ * 判断 MIME 类型是否为 JSON（含 +json）
+ */
+export function isJSONMimeType(mimeType: string): boolean {
+  return matchMimeType('application/json', mimeType) || matchMimeType('*/*+json', mimeType)
+}
+
+// ============= 注册表 =============
+
+/**
+ * 序列化器与解码器注册表
+ * 后注册的规则优先，可覆盖内置规则
+ */
+export class CodecRegistry {
+  private serializers: Codec<BodySerializer>[] = []
+  private decoders: Codec<BodyDecoder>[] = []
+
+  constructor(builtins = true) {
+    if (!builtins)
+      return
+
+    this.registerSerializer('application/octet-stream', () => {
+      throw new TypeError('二进制请求体需为 Blob、ArrayBuffer 或 TypedArray')
+    })
+    this.registerSerializer('text/*', data => String(data))
+    this.registerSerializer('application/xml', serializeXML)
+    this.registerSerializer('text/xml', serializeXML)
+    this.registerSerializer('*/*+xml', serializeXML)
+    this.registerSerializer('multipart/form-data', toFormData)
+    this.registerSerializer('application/x-www-form-urlencoded', toSearchParams)
+    this.registerSerializer('application/json', data => JSON.stringify(data))
+    this.registerSerializer('*/*+json', data => JSON.stringify(data))
+
+    this.registerDecoder('text/*', decodeText)
+    // XML 默认解码为字符串，需要 Document 时使用 responseType: 'document'
+    this.registerDecoder('application/xml', decodeText)
+    this.registerDecoder('*/*+xml', decodeText)
+    this.registerDecoder('application/x-www-form-urlencoded', bytes => Object.fromEntries(new URLSearchParams(decodeText(bytes))))
+    this.registerDecoder('application/json', decodeJSON)
+    this.registerDecoder('*/*+json', decodeJSON)
+  }
+
+  /**
+   * 注册请求体序列化器
+   */
+  registerSerializer(matcher: MimeMatcher, serializer: BodySerializer) {
+    this.serializers.unshift({ matcher, handler: serializer })
+    return this
+  }
+
+  /**
+   * 注册响应体解码器
+   */
+  registerDecoder(matcher: MimeMatcher, decoder: BodyDecoder) {
+    this.decoders.unshift({ matcher, handler: decoder })
+    return this
+  }
+
+  /**
+   * 按 Content-Type 序列化请求体，没有匹配的序列化器时使用 JSON
+   */
+  serialize(data: unknown, contentType?: string | null): BodyInit {
+    const mimeType = getMimeType(contentType) || 'application/json'
+    const serializer = this.find(this.serializers, mimeType)
+    return serializer ? serializer(data, mimeType) : JSON.stringify(data)
+  }
+
+  /**
+   * 按 Content-Type 解码响应体，没有匹配的解码器时返回 undefined
+   */
+  decode(bytes: Uint8Array, contentType?: string | null): unknown {
+    const mimeType = getMimeType(contentType)
+    const decoder = this.find(this.decoders, mimeType)
+    return decoder ? decoder(bytes, mimeType) : undefined
+  }
+
+  /**
+   * 是否存在匹配的解码器
+   */
+  canDecode(contentType?: string | null): boolean {
+    return this.find(this.decoders, getMimeType(contentType)) !== undefined
+  }
+
+  private find<T>(codecs: Codec<T>[], mimeType: string): T | undefined {
+    return codecs.find(codec => matchMimeType(codec.matcher, mimeType))?.handler
+  }
+}
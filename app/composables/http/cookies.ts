@@ -0,0 +1,280 @@
+/**
+ * Cookie 容器
+ * 按 RFC 6265 解析 Set-Cookie，处理 Domain / Path / Expires / Max-Age / Secure，并为请求生成 Cookie 头
+ */
+
+import { shallowRef } from 'vue'
+
+// ============= 类型定义 =============
+
+/**
+ * Cookie
+ */
+export interface Cookie {
+  name: string
+  value: string
+  /** 小写域名，不含前导点 */
+  domain: string
+  path: string
+  /** 未指定 Domain 属性时只发送给设置它的主机 */
+  hostOnly: boolean
+  secure: boolean
+  httpOnly: boolean
+  sameSite?: 'strict' | 'lax' | 'none'
+  /** 过期时间戳，null 表示会话 Cookie */
+  expiresAt: number | null
+  createdAt: number
+}
+
+// ============= 工具函数 =============
+
+/**
+ * 域名匹配（RFC 6265 5.1.3）
+ */
+export function domainMatch(host: string, domain: string): boolean {
+  if (host === domain)
+    return true
+  // IP 地址只能完全匹配
+  if (/^[\d.]+$/.test(host) || host.includes(':'))
+    return false
+  return host.endsWith(`.${domain}`)
+}
+
+/**
+ * 默认路径：请求路径最后一个 / 之前的部分（RFC 6265 5.1.4）
+ */
+export function defaultPath(pathname: string): string {
+  if (!pathname.startsWith('/'))
+    return '/'
+  const index = pathname.lastIndexOf('/')
+  return index === 0 ? '/' : pathname.slice(0, index)
+}
+
+/**
+ * 路径匹配（RFC 6265 5.1.4）
+ */
+export function pathMatch(requestPath: string, cookiePath: string): boolean {
+  if (requestPath === cookiePath)
+    return true
+  if (!requestPath.startsWith(cookiePath))
+    return false
+  return cookiePath.endsWith('/') || requestPath[cookiePath.length] === '/'
+}
+
+/**
+ * 解析单个 Set-Cookie 头，不合法或 Domain 不匹配时返回 null（RFC 6265 5.2、5.3）
+ * 未内置公共后缀列表，只拒绝单级域名
+ */
+export function parseSetCookie(header: string, requestUrl: string, now = Date.now()): Cookie | null {
+  const url = new URL(requestUrl)
+  const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase()
+  const [pair = '', ...attributes] = header.split(';')
+  const separator = pair.indexOf('=')
+  if (separator === -1)
+    return null
+
+  const name = pair.slice(0, separator).trim()
+  const value = pair.slice(separator + 1).trim()
+  if (!name)
+    return null
+
+  const cookie: Cookie = {
+    name,
+    value,
+    domain: host,
+    path: defaultPath(url.pathname),
+    hostOnly: true,
+    secure: false,
+    httpOnly: false,
+    expiresAt: null,
+    createdAt: now,
+  }
+  let maxAge: number | null = null
+  let expires: number | null = null
+
+  for (const attribute of attributes) {
+    const index = attribute.indexOf('=')
+    const key = (index === -1 ? attribute : attribute.slice(0, index)).trim().toLowerCase()
+    const attrValue = index === -1 ? '' : attribute.slice(index + 1).trim()
+
+    switch (key) {
+      case 'expires': {
+        const time = Date.parse(attrValue)
+        if (!Number.isNaN(time))
+          expires = time
+        break
+      }
+      case 'max-age':
+        if (/^-?\d+$/.test(attrValue))
+          maxAge = Number(attrValue)
+        break
+      case 'domain': {
+        const domain = attrValue.replace(/^\./, '').toLowerCase()
+        if (!domain)
+          break
+        if (!domainMatch(host, domain) || (!domain.includes('.') && domain !== host))
+          return null
+        cookie.domain = domain
+        cookie.hostOnly = false
+        break
+      }
+      case 'path':
+        if (attrValue.startsWith('/'))
+          cookie.path = attrValue
+        break
+      case 'secure':
+        cookie.secure = true
+        break
+      case 'httponly':
+        cookie.httpOnly = true
+        break
+      case 'samesite': {
+        const sameSite = attrValue.toLowerCase()
+        if (sameSite === 'strict' || sameSite === 'lax' || sameSite === 'none')
+          cookie.sameSite = sameSite
+        break
+      }
+    }
+  }
+
+  // Max-Age 优先于 Expires
+  if (maxAge !== null)
+    cookie.expiresAt = maxAge <= 0 ? 0 : now + maxAge * 1000
+  else if (expires !== null)
+    cookie.expiresAt = expires
+
+  return cookie
+}
+
+/**
+ * 读取响应的所有 Set-Cookie 头
+ * 优先使用 getSetCookie，否则从合并后的头中拆分（Expires 中的逗号不作为分隔）
+ */
+export function getSetCookieHeaders(headers: Headers): string[] {
+  if (typeof headers.getSetCookie === 'function')
+    return headers.getSetCookie()
+  const combined = headers.get('set-cookie')
+  return combined ? combined.split(/,(?=\s*[^;,=\s]+=)/).map(item => item.trim()) : []
+}
+
+// ============= Cookie 容器 =============
+
+/**
+ * Cookie 容器
+ */
+export class CookieJar {
+  private store = new Map<string, Cookie>()
+
+  /** 当前保存的 Cookie（响应式，已过期的在下次读取时移除） */
+  readonly cookies = shallowRef<Cookie[]>([])
+
+  /** 内容变化时回调，用于持久化 */
+  onChange: ((jar: CookieJar) => void) | null = null
+
+  constructor(cookies: Cookie[] = []) {
+    for (const cookie of cookies)
+      this.store.set(this.keyOf(cookie), cookie)
+    this.removeExpired(Date.now(), false)
+    this.sync(false)
+  }
+
+  /**
+   * 保存响应中的 Set-Cookie
+   */
+  setFromResponse(url: string, headers: Headers) {
+    const setCookies = getSetCookieHeaders(headers)
+    if (setCookies.length === 0)
+      return
+
+    const now = Date.now()
+    for (const header of setCookies) {
+      const cookie = parseSetCookie(header, url, now)
+      if (!cookie)
+        continue
+
+      const key = this.keyOf(cookie)
+      const existing = this.store.get(key)
+      if (existing)
+        cookie.createdAt = existing.createdAt
+
+      // 已过期的 Cookie 表示删除
+      if (cookie.expiresAt !== null && cookie.expiresAt <= now)
+        this.store.delete(key)
+      else
+        this.store.set(key, cookie)
+    }
+    this.sync()
+  }
+
+  /**
+   * 获取发送到该 URL 的 Cookie，路径更长的在前（RFC 6265 5.4）
+   */
+  getCookies(url: string): Cookie[] {
+    const parsed = new URL(url)
+    const host = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase()
+    const secure = parsed.protocol === 'https:'
+    this.removeExpired(Date.now())
+
+    return Array.from(this.store.values())
+      .filter(cookie => (cookie.hostOnly ? host === cookie.domain : domainMatch(host, cookie.domain))
+        && pathMatch(parsed.pathname || '/', cookie.path)
+        && (!cookie.secure || secure))
+      .sort((a, b) => b.path.length - a.path.length || a.createdAt - b.createdAt)
+  }
+
+  /**
+   * 生成 Cookie 请求头，没有 Cookie 时返回 null
+   */
+  getCookieHeader(url: string): string | null {
+    const cookies = this.getCookies(url)
+    return cookies.length > 0 ? cookies.map(cookie => `${cookie.name}=${cookie.value}`).join('; ') : null
+  }
+
+  /**
+   * 删除 Cookie，未指定 domain / path 时删除所有同名 Cookie
+   */
+  remove(name: string, domain?: string, path?: string) {
+    for (const [key, cookie] of this.store) {
+      if (cookie.name === name && (!domain || cookie.domain === domain) && (!path || cookie.path === path))
+        this.store.delete(key)
+    }
+    this.sync()
+  }
+
+  /**
+   * 清空所有 Cookie
+   */
+  clear() {
+    this.store.clear()
+    this.sync()
+  }
+
+  /**
+   * 持久化用的 Cookie 列表，不含会话 Cookie
+   */
+  toJSON(): Cookie[] {
+    return Array.from(this.store.values()).filter(cookie => cookie.expiresAt !== null)
+  }
+
+  private keyOf(cookie: Cookie): string {
+    return `${cookie.domain};${cookie.path};${cookie.name}`
+  }
+
+  private removeExpired(now: number, notify = true) {
+    let removed = false
+    for (const [key, cookie] of this.store) {
+      if (cookie.expiresAt !== null && cookie.expiresAt <= now) {
+        this.store.delete(key)
+        removed = true
+      }
+    }
+    if (removed && notify)
+      this.sync()
+  }
+
+  private sync(notify = true) {
+    this.cookies.value = Array.from(this.store.values())
+    if (notify)
+      this.onChange?.(this)
+  }
+}
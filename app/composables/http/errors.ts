@@ -0,0 +1,162 @@
+/**
+ * HTTP 错误类型
+ * TauriHTTPClient 抛出的所有错误均继承自 HTTPError，可通过 instanceof 区分
+ */
+
+import type { ValidationIssue } from './schema'
+
+/**
+ * 错误构造参数
+ */
+export interface HTTPErrorOptions {
+  url?: string
+  method?: string
+  attempts?: number
+  cause?: unknown
+}
+
+/**
+ * HTTP 错误基类
+ */
+export class HTTPError extends Error {
+  readonly url?: string
+  readonly method?: string
+  /** 放弃前的尝试次数 */
+  attempts?: number
+
+  constructor(message: string, options: HTTPErrorOptions = {}) {
+    super(message, { cause: options.cause })
+    this.name = 'HTTPError'
+    this.url = options.url
+    this.method = options.method
+    this.attempts = options.attempts
+  }
+}
+
+/**
+ * 请求超时
+ */
+export class HTTPTimeoutError extends HTTPError {
+  readonly timeout: number
+
+  constructor(timeout: number, options: HTTPErrorOptions = {}) {
+    super(`请求超时（${timeout}ms）`, options)
+    this.name = 'HTTPTimeoutError'
+    this.timeout = timeout
+  }
+}
+
+/**
+ * 请求被调用方取消
+ */
+export class HTTPAbortError extends HTTPError {
+  constructor(options: HTTPErrorOptions = {}) {
+    super('请求已取消', options)
+    this.name = 'HTTPAbortError'
+  }
+}
+
+/**
+ * 网络错误（连接失败、DNS 解析失败等）
+ */
+export class HTTPNetworkError extends HTTPError {
+  constructor(message = '网络请求失败', options: HTTPErrorOptions = {}) {
+    super(message, options)
+    this.name = 'HTTPNetworkError'
+  }
+}
+
+/**
+ * 非 2xx 响应
+ */
+export class HTTPStatusError<T = any> extends HTTPError {
+  readonly status: number
+  readonly statusText: string
+  readonly headers: Record<string, string>
+  /** 已解析的响应体，解析失败时为原始文本 */
+  readonly body: T
+
+  constructor(
+    response: { status: number, statusText: string, headers: Record<string, string>, body: T },
+    options: HTTPErrorOptions = {},
+  ) {
+    super(`HTTP ${response.status}: ${response.statusText || 'Request failed'}`, options)
+    this.name = 'HTTPStatusError'
+    this.status = response.status
+    this.statusText = response.statusText
+    this.headers = response.headers
+    this.body = response.body
+  }
+}
+
+/**
+ * 响应体解析失败
+ */
+export class HTTPParseError extends HTTPError {
+  readonly status: number
+  readonly contentType: string
+  /** 未能解析的原始文本 */
+  readonly raw: string
+
+  constructor(
+    response: { status: number, contentType: string, raw: string },
+    options: HTTPErrorOptions = {},
+  ) {
+    super(`响应解析失败（${response.contentType}）`, options)
+    this.name = 'HTTPParseError'
+    this.status = response.status
+    this.contentType = response.contentType
+    this.raw = response.raw
+  }
+}
+
+/**
+ * 响应数据与 schema 不匹配
+ */
+export class HTTPValidationError extends HTTPError {
+  readonly issues: ValidationIssue[]
+  /** 未通过校验的原始数据 */
+  readonly data: unknown
+
+  constructor(issues: ValidationIssue[], data: unknown, options: HTTPErrorOptions = {}) {
+    const summary = issues.slice(0, 3).map(issue => `${issue.path || '(root)'}: ${issue.message}`).join('; ')
+    super(`响应校验失败（${issues.length} 处）：${summary}`, options)
+    this.name = 'HTTPValidationError'
+    this.issues = issues
+    this.data = data
+  }
+}
+
+/**
+ * 熔断器处于打开状态，请求未发出即失败
+ */
+export class HTTPCircuitOpenError extends HTTPError {
+  readonly host: string
+  /** 熔断器允许再次尝试的时间戳（毫秒） */
+  readonly retryAt: number
+
+  constructor(host: string, retryAt: number, options: HTTPErrorOptions = {}) {
+    super(`服务器 ${host} 已熔断，请稍后重试`, options)
+    this.name = 'HTTPCircuitOpenError'
+    this.host = host
+    this.retryAt = retryAt
+  }
+}
+
+/**
+ * 判断是否为 HTTP 错误
+ */
+export function isHTTPError(error: unknown): error is HTTPError {
+  return error instanceof HTTPError
+}
+
+/**
+ * 将任意异常转换为 HTTPError
+ */
+export function toHTTPError(error: unknown, options: HTTPErrorOptions = {}): HTTPError {
+  if (error instanceof HTTPError)
+    return error
+
+  const message = error instanceof Error ? error.message : String(error ?? 'Request failed')
+  return new HTTPError(message, { ...options, cause: error })
+}
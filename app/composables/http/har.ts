@@ -0,0 +1,499 @@
+/**
+ * HAR 录制与回放
+ * 以 HAR 1.2 格式记录请求与响应（可脱敏请求头与查询参数），并可从 HAR 文件回放响应，离线复现问题
+ */
+
+import type { HTTPAdapter } from './adapters'
+import { shallowRef } from 'vue'
+import { abortableDelay } from './abort'
+
+// ============= 类型定义 =============
+
+export interface HarNameValue {
+  name: string
+  value: string
+}
+
+export interface HarPostData {
+  mimeType: string
+  text?: string
+  params?: Array<HarNameValue & { fileName?: string, contentType?: string }>
+}
+
+export interface HarRequest {
+  method: string
+  url: string
+  httpVersion: string
+  cookies: HarNameValue[]
+  headers: HarNameValue[]
+  queryString: HarNameValue[]
+  postData?: HarPostData
+  headersSize: number
+  bodySize: number
+}
+
+export interface HarContent {
+  size: number
+  mimeType: string
+  text?: string
+  encoding?: 'base64'
+  comment?: string
+}
+
+export interface HarResponse {
+  status: number
+  statusText: string
+  httpVersion: string
+  cookies: HarNameValue[]
+  headers: HarNameValue[]
+  content: HarContent
+  redirectURL: string
+  headersSize: number
+  bodySize: number
+  /** 网络错误时记录错误信息，status 为 0 */
+  _error?: string
+}
+
+export interface HarTimings {
+  blocked: number
+  dns: number
+  connect: number
+  send: number
+  wait: number
+  receive: number
+}
+
+export interface HarEntry {
+  startedDateTime: string
+  time: number
+  request: HarRequest
+  response: HarResponse
+  cache: Record<string, never>
+  timings: HarTimings
+}
+
+/**
+ * HAR 文件
+ */
+export interface HarLog {
+  log: {
+    version: '1.2'
+    creator: { name: string, version: string }
+    entries: HarEntry[]
+  }
+}
+
+/**
+ * 录制选项
+ */
+export interface HARRecorderOptions {
+  /** 需要脱敏的请求头与响应头（不区分大小写） */
+  redactHeaders: string[]
+  /** 需要脱敏的查询参数 */
+  redactQueryParams: string[]
+  /** 需要脱敏的请求体与响应体字段，适用于 JSON 与表单内容 */
+  redactBodyFields: string[]
+  /** 保留的最大条目数，超出后丢弃最早的记录 */
+  maxEntries: number
+  /** 记录响应体的最大字节数，超出时只记录大小 */
+  maxBodySize: number
+}
+
+/**
+ * 回放选项
+ */
+export interface HARReplayOptions {
+  /** 未匹配到记录时使用的适配器，未设置时返回 404 */
+  fallback?: HTTPAdapter
+  /** 是否要求请求体一致，默认 false；比较前按 redactBodyFields 脱敏实际请求体 */
+  matchBody?: boolean
+  /** 录制时使用的请求体脱敏字段，默认与录制默认值相同 */
+  redactBodyFields?: string[]
+  /** 是否按录制时的耗时延迟响应，默认 false */
+  delay?: boolean
+}
+
+/** 脱敏后的占位值 */
+export const REDACTED = '[REDACTED]'
+
+export const DEFAULT_HAR_RECORDER_OPTIONS: HARRecorderOptions = {
+  redactHeaders: ['authorization', 'proxy-authorization', 'cookie', 'set-cookie', 'x-api-key'],
+  redactQueryParams: ['access_token', 'token', 'api_key'],
+  redactBodyFields: ['password', 'client_secret', 'client_assertion', 'refresh_token', 'access_token', 'id_token', 'code_verifier'],
+  maxEntries: 1000,
+  maxBodySize: 1024 * 1024,
+}
+
+// ============= 工具函数 =============
+
+/**
+ * 是否按文本记录内容
+ */
+function isTextMimeType(mimeType: string): boolean {
+  return /^text\/|json|xml|javascript|x-www-form-urlencoded/i.test(mimeType)
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000)
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  return btoa(binary)
+}
+
+function fromBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), char => char.charCodeAt(0))
+}
+
+/**
+ * 流式响应不会结束，不读取响应体
+ */
+function isStreamingMimeType(mimeType: string): boolean {
+  return /text\/event-stream|ndjson/i.test(mimeType)
+}
+
+function redactJSON(value: unknown, fields: Set<string>): unknown {
+  if (Array.isArray(value))
+    return value.map(item => redactJSON(item, fields))
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) =>
+      [key, fields.has(key.toLowerCase()) ? REDACTED : redactJSON(item, fields)]))
+  }
+  return value
+}
+
+/**
+ * 脱敏 JSON 或表单内容中的敏感字段（不区分大小写），其他内容原样返回
+ */
+export function redactBody(text: string, mimeType: string, fieldNames: string[]): string {
+  const fields = new Set(fieldNames.map(name => name.toLowerCase()))
+  if (fields.size === 0)
+    return text
+
+  if (/x-www-form-urlencoded/i.test(mimeType)) {
+    const params = new URLSearchParams(text)
+    for (const name of new Set(params.keys())) {
+      if (fields.has(name.toLowerCase()))
+        params.set(name, REDACTED)
+    }
+    return params.toString()
+  }
+
+  if (/json/i.test(mimeType)) {
+    try {
+      return JSON.stringify(redactJSON(JSON.parse(text), fields))
+    }
+    catch {
+      return text
+    }
+  }
+
+  return text
+}
+
+// ============= 录制 =============
+
+/**
+ * HAR 录制器
+ * 由 TauriHTTPClient 在每次实际发出请求时调用，响应体在后台读取，不阻塞调用方
+ */
+export class HARRecorder {
+  private options: HARRecorderOptions
+
+  /** 已记录的条目 */
+  readonly entries = shallowRef<HarEntry[]>([])
+
+  constructor(options: Partial<HARRecorderOptions> = {}) {
+    this.options = { ...DEFAULT_HAR_RECORDER_OPTIONS, ...options }
+  }
+
+  /**
+   * 发送请求并记录
+   */
+  async capture(url: string, init: RequestInit, send: () => Promise<Response>): Promise<Response> {
+    const startedAt = Date.now()
+    const request = this.toHarRequest(url, init)
+
+    let response: Response
+    try {
+      response = await send()
+    }
+    catch (error) {
+      this.add(this.toEntry(startedAt, request, {
+        ...this.emptyResponse(),
+        _error: error instanceof Error ? error.message : String(error),
+      }, Date.now() - startedAt, 0))
+      throw error
+    }
+
+    const wait = Date.now() - startedAt
+    const clone = response.clone()
+    this.toHarResponse(clone)
+      .then(harResponse => this.add(this.toEntry(startedAt, request, harResponse, wait, Date.now() - startedAt - wait)))
+      .catch(err => console.warn('[HAR] 记录响应失败:', err))
+
+    return response
+  }
+
+  /**
+   * 追加需要脱敏的请求头与查询参数，如服务器配置的 API Key 名称
+   */
+  redact(names: { headers?: string[], queryParams?: string[] }) {
+    this.options = {
+      ...this.options,
+      redactHeaders: [...new Set([...this.options.redactHeaders, ...names.headers ?? []])],
+      redactQueryParams: [...new Set([...this.options.redactQueryParams, ...names.queryParams ?? []])],
+    }
+  }
+
+  /**
+   * 导出为 HAR 对象
+   */
+  export(): HarLog {
+    return {
+      log: {
+        version: '1.2',
+        creator: { name: 'tauri-v2-nuxt-app', version: '1.0' },
+        entries: [...this.entries.value],
+      },
+    }
+  }
+
+  /**
+   * 导出为 JSON 字符串
+   */
+  toJSON(): string {
+    return JSON.stringify(this.export(), null, 2)
+  }
+
+  /**
+   * 清空记录
+   */
+  clear() {
+    this.entries.value = []
+  }
+
+  private add(entry: HarEntry) {
+    this.entries.value = [...this.entries.value, entry].slice(-this.options.maxEntries)
+  }
+
+  private toEntry(startedAt: number, request: HarRequest, response: HarResponse, wait: number, receive: number): HarEntry {
+    return {
+      startedDateTime: new Date(startedAt).toISOString(),
+      time: wait + receive,
+      request,
+      response,
+      cache: {},
+      timings: { blocked: -1, dns: -1, connect: -1, send: 0, wait, receive },
+    }
+  }
+
+  private redactHeaders(headers: Headers): HarNameValue[] {
+    const redacted = new Set(this.options.redactHeaders.map(name => name.toLowerCase()))
+    return Array.from(headers.entries(), ([name, value]) => ({ name, value: redacted.has(name) ? REDACTED : value }))
+  }
+
+  private redactURL(url: string): URL {
+    const parsed = new URL(url)
+    for (const name of this.options.redactQueryParams) {
+      if (parsed.searchParams.has(name))
+        parsed.searchParams.set(name, REDACTED)
+    }
+    return parsed
+  }
+
+  private toHarRequest(url: string, init: RequestInit): HarRequest {
+    const parsed = this.redactURL(url)
+    const headers = new Headers(init.headers)
+    const mimeType = headers.get('content-type') ?? ''
+    const body = init.body
+    let postData: HarPostData | undefined
+
+    const { redactBodyFields } = this.options
+
+    if (typeof body === 'string') {
+      postData = { mimeType, text: redactBody(body, mimeType, redactBodyFields) }
+    }
+    else if (body instanceof URLSearchParams) {
+      const formType = mimeType || 'application/x-www-form-urlencoded'
+      postData = { mimeType: formType, text: redactBody(body.toString(), formType, redactBodyFields) }
+    }
+    else if (body instanceof FormData) {
+      const fields = new Set(redactBodyFields.map(name => name.toLowerCase()))
+      postData = {
+        mimeType: mimeType || 'multipart/form-data',
+        params: Array.from(body.entries(), ([name, value]) => typeof value === 'string'
+          ? { name, value: fields.has(name.toLowerCase()) ? REDACTED : value }
+          : { name, value: '', fileName: value.name, contentType: value.type }),
+      }
+    }
+    else if (body) {
+      postData = { mimeType, text: '' }
+    }
+
+    return {
+      method: (init.method || 'GET').toUpperCase(),
+      url: parsed.toString(),
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: this.redactHeaders(headers),
+      queryString: Array.from(parsed.searchParams.entries(), ([name, value]) => ({ name, value })),
+      postData,
+      headersSize: -1,
+      bodySize: typeof body === 'string' ? new TextEncoder().encode(body).length : -1,
+    }
+  }
+
+  private emptyResponse(): HarResponse {
+    return {
+      status: 0,
+      statusText: '',
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: [],
+      content: { size: 0, mimeType: '' },
+      redirectURL: '',
+      headersSize: -1,
+      bodySize: -1,
+    }
+  }
+
+  private async toHarResponse(response: Response): Promise<HarResponse> {
+    const mimeType = response.headers.get('content-type') ?? ''
+    let content: HarContent = { size: 0, mimeType }
+
+    if (isStreamingMimeType(mimeType)) {
+      response.body?.cancel().catch(() => {})
+      content.comment = '流式响应，未记录响应体'
+    }
+    else {
+      const bytes = new Uint8Array(await response.arrayBuffer())
+      content = bytes.length > this.options.maxBodySize
+        ? { size: bytes.length, mimeType, comment: '响应体过大，未记录' }
+        : isTextMimeType(mimeType)
+          ? { size: bytes.length, mimeType, text: redactBody(new TextDecoder().decode(bytes), mimeType, this.options.redactBodyFields) }
+          : { size: bytes.length, mimeType, text: toBase64(bytes), encoding: 'base64' }
+    }
+
+    return {
+      ...this.emptyResponse(),
+      status: response.status,
+      statusText: response.statusText,
+      headers: this.redactHeaders(response.headers),
+      content,
+      redirectURL: response.headers.get('location') ?? '',
+      bodySize: content.size,
+    }
+  }
+}
+
+// ============= 回放 =============
+
+/**
+ * HAR 回放适配器
+ * 按方法与 URL 匹配记录（脱敏的查询参数匹配任意值）；同一请求多次出现时按录制顺序依次返回，用完后重复最后一条
+ */
+export class HARReplayAdapter implements HTTPAdapter {
+  readonly name = 'har'
+  private entries: HarEntry[]
+  private used = new Set<HarEntry>()
+
+  /** 未匹配到记录的请求，格式为 `METHOD URL` */
+  readonly misses: string[] = []
+
+  constructor(har: HarLog, private options: HARReplayOptions = {}) {
+    this.entries = har.log.entries
+  }
+
+  async fetch(url: string, init: RequestInit): Promise<Response> {
+    const method = (init.method || 'GET').toUpperCase()
+    const candidates = this.entries.filter(entry => this.matches(entry, method, url, init))
+    const entry = candidates.find(candidate => !this.used.has(candidate)) ?? candidates.at(-1)
+
+    if (!entry) {
+      this.misses.push(`${method} ${url}`)
+      if (this.options.fallback)
+        return this.options.fallback.fetch(url, init)
+      return new Response(JSON.stringify({ message: 'HAR entry not found' }), {
+        status: 404,
+        headers: { 'content-type': 'application/json' },
+      })
+    }
+
+    this.used.add(entry)
+    if (this.options.delay)
+      await abortableDelay(Math.max(0, entry.time), init.signal)
+
+    if (entry.response.status === 0)
+      throw new TypeError(entry.response._error || 'HAR recorded network error')
+
+    return this.toResponse(entry.response)
+  }
+
+  /**
+   * 重新从第一条记录开始回放
+   */
+  reset() {
+    this.used.clear()
+    this.misses.length = 0
+  }
+
+  /**
+   * 按录制时的规则脱敏实际请求体，以便与记录比较
+   */
+  private bodyOf(init: RequestInit): string | undefined {
+    const body = typeof init.body === 'string' ? init.body : init.body instanceof URLSearchParams ? init.body.toString() : undefined
+    if (body === undefined)
+      return undefined
+    const mimeType = new Headers(init.headers).get('content-type')
+      ?? (init.body instanceof URLSearchParams ? 'application/x-www-form-urlencoded' : '')
+    return redactBody(body, mimeType, this.options.redactBodyFields ?? DEFAULT_HAR_RECORDER_OPTIONS.redactBodyFields)
+  }
+
+  private matches(entry: HarEntry, method: string, url: string, init: RequestInit): boolean {
+    if (entry.request.method !== method)
+      return false
+    if (this.options.matchBody && (entry.request.postData?.text ?? undefined) !== this.bodyOf(init))
+      return false
+
+    const recorded = new URL(entry.request.url)
+    const actual = new URL(url)
+    if (recorded.origin !== actual.origin || recorded.pathname !== actual.pathname)
+      return false
+
+    const recordedNames = [...new Set(recorded.searchParams.keys())].sort()
+    const actualNames = [...new Set(actual.searchParams.keys())].sort()
+    if (recordedNames.join('&') !== actualNames.join('&'))
+      return false
+
+    return recordedNames.every((name) => {
+      const values = recorded.searchParams.getAll(name)
+      return values.every(value => value === REDACTED) || values.join('&') === actual.searchParams.getAll(name).join('&')
+    })
+  }
+
+  private toResponse(recorded: HarResponse): Response {
+    // 记录的是解码后的响应体，去掉与原始编码相关的头
+    const headers = new Headers()
+    for (const { name, value } of recorded.headers) {
+      if (!['content-encoding', 'content-length', 'transfer-encoding'].includes(name.toLowerCase()))
+        headers.append(name, value)
+    }
+
+    const { text, encoding } = recorded.content
+    const body = [204, 205, 304].includes(recorded.status) || text === undefined
+      ? null
+      : encoding === 'base64' ? fromBase64(text) : text
+
+    return new Response(body, { status: recorded.status, statusText: recorded.statusText, headers })
+  }
+}
+
+/**
+ * 解析 HAR 文件内容
+ */
+export function parseHAR(json: string): HarLog {
+  const har = JSON.parse(json) as HarLog
+  if (!Array.isArray(har?.log?.entries))
+    throw new TypeError('无效的 HAR 文件')
+  return har
+}
@@ -0,0 +1,31 @@
+/**
+ * 请求头工具
+ * 请求头名称不区分大小写，拦截器与调用方可能写入不同的大小写形式
+ */
+
+/**
+ * 查找请求头的实际键名（忽略大小写），不存在时返回 undefined
+ */
+export function findHeaderName(headers: Record<string, string>, name: string): string | undefined {
+  const lower = name.toLowerCase()
+  return Object.keys(headers).find(key => key.toLowerCase() === lower)
+}
+
+/**
+ * 获取请求头（忽略大小写）
+ */
+export function getHeader(headers: Record<string, string>, name: string): string | undefined {
+  const key = findHeaderName(headers, name)
+  return key === undefined ? undefined : headers[key]
+}
+
+/**
+ * 删除请求头的所有大小写形式
+ */
+export function deleteHeader(headers: Record<string, string>, name: string): void {
+  const lower = name.toLowerCase()
+  for (const key of Object.keys(headers)) {
+    if (key.toLowerCase() === lower)
+      delete headers[key]
+  }
+}
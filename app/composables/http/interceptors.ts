@@ -0,0 +1,137 @@
+/**
+ * HTTP 拦截器
+ * 为 TauriHTTPClient 提供有序、可异步的请求 / 响应 / 错误拦截链
+ */
+
+import type { HTTPRequestConfig, HTTPResponse } from '../useTauriHTTP'
+
+// ============= 类型定义 =============
+
+/**
+ * 请求拦截器：可修改并返回请求配置
+ */
+export type RequestInterceptor = (config: HTTPRequestConfig) => HTTPRequestConfig | Promise<HTTPRequestConfig>
+
+/**
+ * 响应拦截器：可修改并返回响应对象
+ */
+export type ResponseInterceptor = (response: HTTPResponse, config: HTTPRequestConfig) => HTTPResponse | Promise<HTTPResponse>
+
+/**
+ * 错误拦截器
+ * 返回响应对象表示从错误中恢复；抛出异常表示替换错误；不返回则继续传递原错误
+ */
+export type ErrorInterceptor = (error: any, config: HTTPRequestConfig) => HTTPResponse | void | Promise<HTTPResponse | void>
+
+/**
+ * 拦截器初始配置
+ */
+export interface InterceptorsConfig {
+  request?: RequestInterceptor[]
+  response?: ResponseInterceptor[]
+  error?: ErrorInterceptor[]
+}
+
+// ============= 拦截器管理 =============
+
+/**
+ * 拦截器管理器
+ * 按注册顺序执行，通过 use 返回的 id 移除
+ */
+export class InterceptorManager<T> {
+  private handlers = new Map<number, T>()
+  private nextId = 0
+
+  /**
+   * 注册拦截器，返回用于移除的 id
+   */
+  use(handler: T): number {
+    const id = this.nextId++
+    this.handlers.set(id, handler)
+    return id
+  }
+
+  /**
+   * 移除拦截器
+   */
+  eject(id: number): boolean {
+    return this.handlers.delete(id)
+  }
+
+  /**
+   * 清空所有拦截器
+   */
+  clear() {
+    this.handlers.clear()
+  }
+
+  /**
+   * 拦截器数量
+   */
+  get size(): number {
+    return this.handlers.size
+  }
+
+  /**
+   * 按注册顺序获取拦截器
+   */
+  list(): T[] {
+    return Array.from(this.handlers.values())
+  }
+}
+
+/**
+ * 客户端拦截器集合
+ */
+export class HTTPInterceptors {
+  readonly request = new InterceptorManager<RequestInterceptor>()
+  readonly response = new InterceptorManager<ResponseInterceptor>()
+  readonly error = new InterceptorManager<ErrorInterceptor>()
+
+  constructor(config: InterceptorsConfig = {}) {
+    config.request?.forEach(fn => this.request.use(fn))
+    config.response?.forEach(fn => this.response.use(fn))
+    config.error?.forEach(fn => this.error.use(fn))
+  }
+
+  /**
+   * 依次执行请求拦截器
+   */
+  async runRequest(config: HTTPRequestConfig): Promise<HTTPRequestConfig> {
+    let current = config
+    for (const interceptor of this.request.list()) {
+      current = await interceptor(current)
+    }
+    return current
+  }
+
+  /**
+   * 依次执行响应拦截器
+   */
+  async runResponse(response: HTTPResponse, config: HTTPRequestConfig): Promise<HTTPResponse> {
+    let current = response
+    for (const interceptor of this.response.list()) {
+      current = await interceptor(current, config)
+    }
+    return current
+  }
+
+  /**
+   * 依次执行错误拦截器
+   * 任一拦截器返回响应即视为恢复，否则抛出最终错误
+   */
+  async runError(error: any, config: HTTPRequestConfig): Promise<HTTPResponse> {
+    let current = error
+    for (const interceptor of this.error.list()) {
+      try {
+        const recovered = await interceptor(current, config)
+        if (recovered)
+          return recovered
+      }
+      catch (replaced) {
+        current = replaced
+      }
+    }
+    throw current
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * 网络设置
+ * 代理与 TLS 选项，转换为 Tauri HTTP 插件的 proxy 参数；
+ * 自定义 CA 证书与主机名覆盖由 Rust 端的 tls_fetch 命令处理
+ */
+
+import type { ClientOptions } from '@tauri-apps/plugin-http'
+
+// ============= 类型定义 =============
+
+/**
+ * 代理设置
+ */
+export interface ProxySettings {
+  /** 代理地址，如 http://proxy.corp.local:8080 */
+  url: string
+  username?: string
+  password?: string
+  /** 不走代理的主机：`example.com` 同时匹配子域名，`*` 匹配全部，可带端口 */
+  noProxy?: string[]
+}
+
+/**
+ * TLS 设置，证书校验始终开启
+ */
+export interface TLSSettings {
+  /** 额外信任的 CA 证书（PEM），用于自签名或内部 CA 签发的证书，与系统根证书同时生效 */
+  caCertificates?: string[]
+  /** 主机名覆盖：主机名 → IP 地址，端口取自请求 URL，证书仍按原主机名校验 */
+  resolve?: Record<string, string>
+}
+
+/**
+ * 网络设置
+ */
+export interface NetworkSettings {
+  /** null 表示直连，覆盖上一级的代理 */
+  proxy?: ProxySettings | null
+  tls?: TLSSettings
+}
+
+/**
+ * 交给传输层的参数：HTTP 插件的客户端参数，以及需要由 tls_fetch 处理的 TLS 设置
+ */
+export interface TransportOptions extends ClientOptions {
+  tls?: TLSSettings
+}
+
+// ============= 全局设置 =============
+
+let defaultSettings: NetworkSettings = {}
+
+/**
+ * 设置所有客户端共用的全局网络设置
+ */
+export function setDefaultNetworkSettings(settings: NetworkSettings) {
+  defaultSettings = settings
+}
+
+/**
+ * 获取全局网络设置
+ */
+export function getDefaultNetworkSettings(): NetworkSettings {
+  return defaultSettings
+}
+
+// ============= 工具函数 =============
+
+/**
+ * 合并网络设置，后者覆盖前者；proxy 整体覆盖，tls 按字段覆盖
+ */
+export function mergeNetworkSettings(...layers: Array<NetworkSettings | null | undefined>): NetworkSettings {
+  return layers.reduce<NetworkSettings>((merged, layer) => ({
+    proxy: layer?.proxy !== undefined ? layer.proxy : merged.proxy,
+    tls: { ...merged.tls, ...layer?.tls },
+  }), {})
+}
+
+/**
+ * 判断 TLS 设置是否需要自建客户端（有自定义 CA 证书或主机名覆盖）
+ */
+export function hasCustomTLS(tls: TLSSettings | undefined): tls is TLSSettings {
+  return !!tls && ((tls.caCertificates?.length ?? 0) > 0 || Object.keys(tls.resolve ?? {}).length > 0)
+}
+
+/**
+ * 判断 URL 是否在不走代理的列表中
+ */
+export function isNoProxyHost(url: string, noProxy: string[] = []): boolean {
+  const parsed = new URL(url)
+  const host = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase()
+  const port = parsed.port || (parsed.protocol === 'https:' ? '443' : '80')
+
+  return noProxy.some((rule) => {
+    const entry = rule.trim().toLowerCase()
+    if (!entry)
+      return false
+    if (entry === '*')
+      return true
+
+    // IPv6 地址需加方括号才能带端口
+    const bracketed = entry.match(/^\[(.+)\](?::(\d+))?$/)
+    const withPort = !bracketed && entry.split(':').length === 2 ? entry.match(/^(.+):(\d+)$/) : null
+    const [, pattern = entry, rulePort] = bracketed ?? withPort ?? []
+    if (rulePort && rulePort !== port)
+      return false
+
+    const domain = pattern.replace(/^\*?\./, '')
+    return host === domain || host.endsWith(`.${domain}`)
+  })
+}
+
+/**
+ * 转换为传输层参数
+ */
+export function toClientOptions(url: string, settings: NetworkSettings): TransportOptions {
+  const options: TransportOptions = {}
+  const { proxy, tls } = settings
+
+  if (proxy?.url && !isNoProxyHost(url, proxy.noProxy)) {
+    options.proxy = {
+      all: {
+        url: proxy.url,
+        basicAuth: proxy.username ? { username: proxy.username, password: proxy.password ?? '' } : undefined,
+      },
+    }
+  }
+
+  if (hasCustomTLS(tls))
+    options.tls = tls
+
+  return options
+}
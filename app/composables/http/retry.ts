@@ -0,0 +1,125 @@
+/**
+ * HTTP 重试策略
+ * 按请求方法、状态码与错误类型决定是否重试，支持指数退避、抖动与 Retry-After
+ */
+
+// ============= 类型定义 =============
+
+/**
+ * 失败类型
+ */
+export type RetryErrorKind = 'status' | 'network' | 'timeout'
+
+/**
+ * 重试策略
+ */
+export interface RetryPolicy {
+  /** 最大尝试次数（含首次请求） */
+  maxAttempts: number
+  /** 允许重试的请求方法 */
+  methods: string[]
+  /** 允许重试的响应状态码 */
+  statusCodes: number[]
+  /** 允许重试的失败类型 */
+  errorKinds: RetryErrorKind[]
+  /** 首次重试前的基础等待时间（毫秒） */
+  baseDelay: number
+  /** 单次等待上限（毫秒） */
+  maxDelay: number
+  /** 退避倍数 */
+  factor: number
+  /** 是否添加随机抖动 */
+  jitter: boolean
+  /** 是否遵循 429/503 响应中的 Retry-After */
+  respectRetryAfter: boolean
+  /** Retry-After 超过该值（毫秒）时放弃重试 */
+  maxRetryAfter: number
+}
+
+/**
+ * 单次失败的描述
+ */
+export interface RetryAttemptInfo {
+  /** 当前已完成的尝试次数（从 1 开始） */
+  attempt: number
+  method: string
+  kind: RetryErrorKind
+  status?: number
+  headers?: Record<string, string>
+}
+
+/**
+ * 默认重试策略：仅对幂等方法的网络错误、超时和临时性状态码重试
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  methods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'],
+  statusCodes: [408, 425, 429, 500, 502, 503, 504],
+  errorKinds: ['network', 'timeout', 'status'],
+  baseDelay: 1000,
+  maxDelay: 30000,
+  factor: 2,
+  jitter: true,
+  respectRetryAfter: true,
+  maxRetryAfter: 60000,
+}
+
+// ============= 工具函数 =============
+
+/**
+ * 合并重试策略，后者覆盖前者
+ */
+export function resolveRetryPolicy(...policies: Array<Partial<RetryPolicy> | undefined>): RetryPolicy {
+  return Object.assign({}, DEFAULT_RETRY_POLICY, ...policies.filter(Boolean))
+}
+
+/**
+ * 解析 Retry-After 响应头（秒数或 HTTP 日期），返回毫秒
+ */
+export function parseRetryAfter(value: string | undefined | null, now = Date.now()): number | null {
+  if (!value)
+    return null
+
+  const seconds = Number(value)
+  if (Number.isFinite(seconds))
+    return Math.max(0, seconds * 1000)
+
+  const date = Date.parse(value)
+  if (Number.isNaN(date))
+    return null
+
+  return Math.max(0, date - now)
+}
+
+/**
+ * 判断是否应当重试
+ */
+export function shouldRetry(policy: RetryPolicy, info: RetryAttemptInfo): boolean {
+  if (info.attempt >= policy.maxAttempts)
+    return false
+  if (!policy.methods.includes(info.method.toUpperCase()))
+    return false
+  if (!policy.errorKinds.includes(info.kind))
+    return false
+  if (info.kind === 'status')
+    return info.status !== undefined && policy.statusCodes.includes(info.status)
+  return true
+}
+
+/**
+ * 计算下一次重试前的等待时间（毫秒）
+ * 返回 null 表示 Retry-After 超出上限，应放弃重试
+ */
+export function getRetryDelay(policy: RetryPolicy, info: RetryAttemptInfo): number | null {
+  if (policy.respectRetryAfter && (info.status === 429 || info.status === 503)) {
+    const retryAfter = parseRetryAfter(info.headers?.['retry-after'])
+    if (retryAfter !== null)
+      return retryAfter > policy.maxRetryAfter ? null : retryAfter
+  }
+
+  const exponential = policy.baseDelay * policy.factor ** (info.attempt - 1)
+  const delay = Math.min(policy.maxDelay, exponential)
+
+  // 等量抖动：在 [delay / 2, delay] 之间随机，避免多个客户端同时重试
+  return policy.jitter ? delay / 2 + Math.random() * (delay / 2) : delay
+}
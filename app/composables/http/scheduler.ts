@@ -0,0 +1,249 @@
+/**
+ * 请求调度器
+ * 按主机限制并发数与请求速率（令牌桶），并按优先级排队
+ */
+
+import { shallowRef } from 'vue'
+
+// ============= 类型定义 =============
+
+/**
+ * 请求优先级，与 fetch 的 RequestInit.priority 取值一致
+ * 用户发起的请求应使用 high，后台刷新使用 low
+ */
+export type RequestPriority = 'high' | 'auto' | 'low'
+
+/**
+ * 令牌桶限速配置
+ */
+export interface RateLimit {
+  /** 每个周期允许的请求数 */
+  requests: number
+  /** 周期长度（毫秒） */
+  interval: number
+  /** 桶容量（允许的突发请求数），默认等于 requests */
+  burst?: number
+}
+
+/**
+ * 单个主机的限制
+ */
+export interface HostLimits {
+  /** 最大并发数 */
+  maxConcurrency: number
+  /** 速率限制，未配置时不限速 */
+  rateLimit?: RateLimit
+}
+
+/**
+ * 调度器配置
+ */
+export interface SchedulerOptions extends HostLimits {
+  /** 按主机覆盖的限制，键为 host（含端口） */
+  hosts?: Record<string, Partial<HostLimits>>
+}
+
+/**
+ * 单个主机的队列统计（供诊断展示）
+ */
+export interface HostQueueStats {
+  active: number
+  queued: number
+}
+
+/**
+ * 排队中的请求
+ */
+interface QueueItem {
+  priority: number
+  resolve: (release: () => void) => void
+  cleanup: () => void
+}
+
+/**
+ * 主机状态
+ */
+interface HostState {
+  limits: HostLimits
+  active: number
+  queue: QueueItem[]
+  tokens: number
+  refilledAt: number
+  timer: ReturnType<typeof setTimeout> | null
+}
+
+const PRIORITY_ORDER: Record<RequestPriority, number> = {
+  high: 0,
+  auto: 1,
+  low: 2,
+}
+
+export const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+  maxConcurrency: 6,
+}
+
+// ============= 调度器 =============
+
+export class RequestScheduler {
+  private options: SchedulerOptions
+  private hosts = new Map<string, HostState>()
+
+  /** 各主机的并发与排队数量 */
+  readonly stats = shallowRef<Record<string, HostQueueStats>>({})
+
+  constructor(options: Partial<SchedulerOptions> = {}) {
+    this.options = { ...DEFAULT_SCHEDULER_OPTIONS, ...options }
+  }
+
+  /**
+   * 所有主机排队中的请求总数
+   */
+  get queueDepth(): number {
+    let total = 0
+    for (const state of this.hosts.values()) {
+      total += state.queue.length
+    }
+    return total
+  }
+
+  /**
+   * 申请执行名额，resolve 的函数用于在请求结束后释放
+   * signal 取消时从队列移除并以 signal.reason 拒绝
+   */
+  acquire(host: string, priority: RequestPriority = 'auto', signal?: AbortSignal | null): Promise<() => void> {
+    const state = this.getHost(host)
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason)
+        return
+      }
+
+      const item: QueueItem = {
+        priority: PRIORITY_ORDER[priority],
+        resolve,
+        cleanup,
+      }
+
+      const onAbort = () => {
+        state.queue = state.queue.filter(queued => queued !== item)
+        this.publish()
+        reject(signal!.reason)
+      }
+      signal?.addEventListener('abort', onAbort, { once: true })
+
+      function cleanup() {
+        signal?.removeEventListener('abort', onAbort)
+      }
+
+      // 同优先级保持先进先出
+      const index = state.queue.findIndex(queued => queued.priority > item.priority)
+      if (index === -1)
+        state.queue.push(item)
+      else
+        state.queue.splice(index, 0, item)
+
+      this.pump(host, state)
+    })
+  }
+
+  /**
+   * 更新主机限制
+   */
+  setHostLimits(host: string, limits: Partial<HostLimits>) {
+    this.options.hosts = { ...this.options.hosts, [host]: { ...this.options.hosts?.[host], ...limits } }
+    const state = this.hosts.get(host)
+    if (state) {
+      state.limits = this.resolveLimits(host)
+      this.pump(host, state)
+    }
+  }
+
+  /**
+   * 尽可能多地放行排队请求
+   */
+  private pump(host: string, state: HostState) {
+    while (state.queue.length > 0 && state.active < state.limits.maxConcurrency) {
+      if (!this.takeToken(host, state))
+        break
+
+      const item = state.queue.shift()!
+      item.cleanup()
+      state.active++
+
+      let released = false
+      item.resolve(() => {
+        if (released)
+          return
+        released = true
+        state.active--
+        this.pump(host, state)
+      })
+    }
+
+    this.publish()
+  }
+
+  /**
+   * 从令牌桶取出一个令牌；不足时安排定时器在下一个令牌可用时继续放行
+   */
+  private takeToken(host: string, state: HostState): boolean {
+    const rateLimit = state.limits.rateLimit
+    if (!rateLimit)
+      return true
+
+    const capacity = rateLimit.burst ?? rateLimit.requests
+    const perMs = rateLimit.requests / rateLimit.interval
+    const now = Date.now()
+
+    state.tokens = Math.min(capacity, state.tokens + (now - state.refilledAt) * perMs)
+    state.refilledAt = now
+
+    if (state.tokens >= 1) {
+      state.tokens -= 1
+      return true
+    }
+
+    if (!state.timer) {
+      const wait = Math.ceil((1 - state.tokens) / perMs)
+      state.timer = setTimeout(() => {
+        state.timer = null
+        this.pump(host, state)
+      }, wait)
+    }
+    return false
+  }
+
+  private resolveLimits(host: string): HostLimits {
+    const { hosts, ...defaults } = this.options
+    return { ...defaults, ...hosts?.[host] }
+  }
+
+  private getHost(host: string): HostState {
+    let state = this.hosts.get(host)
+    if (!state) {
+      const limits = this.resolveLimits(host)
+      state = {
+        limits,
+        active: 0,
+        queue: [],
+        tokens: limits.rateLimit ? (limits.rateLimit.burst ?? limits.rateLimit.requests) : 0,
+        refilledAt: Date.now(),
+        timer: null,
+      }
+      this.hosts.set(host, state)
+    }
+    return state
+  }
+
+  /**
+   * 同步统计到响应式快照
+   */
+  private publish() {
+    const snapshot: Record<string, HostQueueStats> = {}
+    for (const [host, state] of this.hosts) {
+      snapshot[host] = { active: state.active, queued: state.queue.length }
+    }
+    this.stats.value = snapshot
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * 响应校验
+ * 兼容 Standard Schema 规范（https://standardschema.dev），zod、valibot、arktype 等均可直接使用
+ */
+
+import type { HTTPErrorOptions } from './errors'
+import { HTTPValidationError } from './errors'
+
+// ============= Standard Schema 规范类型 =============
+
+/**
+ * Standard Schema 接口（按规范定义，无需额外依赖）
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': StandardSchemaProps<Input, Output>
+}
+
+export interface StandardSchemaProps<Input = unknown, Output = Input> {
+  readonly version: 1
+  readonly vendor: string
+  readonly validate: (value: unknown) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>
+  readonly types?: StandardSchemaTypes<Input, Output> | undefined
+}
+
+export type StandardSchemaResult<Output> = StandardSchemaSuccessResult<Output> | StandardSchemaFailureResult
+
+export interface StandardSchemaSuccessResult<Output> {
+  readonly value: Output
+  readonly issues?: undefined
+}
+
+export interface StandardSchemaFailureResult {
+  readonly issues: ReadonlyArray<StandardSchemaIssue>
+}
+
+export interface StandardSchemaIssue {
+  readonly message: string
+  readonly path?: ReadonlyArray<PropertyKey | StandardSchemaPathSegment> | undefined
+}
+
+export interface StandardSchemaPathSegment {
+  readonly key: PropertyKey
+}
+
+export interface StandardSchemaTypes<Input = unknown, Output = Input> {
+  readonly input: Input
+  readonly output: Output
+}
+
+/**
+ * schema 的输出类型
+ */
+export type InferSchemaOutput<Schema extends StandardSchemaV1> = NonNullable<Schema['~standard']['types']>['output']
+
+// ============= 类型定义 =============
+
+/**
+ * 校验失败时的处理方式
+ * throw：抛出 HTTPValidationError；warn：打印警告并返回原始数据
+ */
+export type ValidationMode = 'throw' | 'warn'
+
+/**
+ * 单个不匹配项
+ */
+export interface ValidationIssue {
+  /** 出错位置，如 `items[0].name`，根节点为空字符串 */
+  path: string
+  message: string
+}
+
+// ============= 工具函数 =============
+
+/**
+ * 将 Issue 路径转换为可读字符串
+ */
+export function formatIssuePath(path: StandardSchemaIssue['path']): string {
+  let result = ''
+  for (const segment of path ?? []) {
+    const key = typeof segment === 'object' ? segment.key : segment
+    if (typeof key === 'number')
+      result += `[${key}]`
+    else
+      result += result ? `.${String(key)}` : String(key)
+  }
+  return result
+}
+
+/**
+ * 使用 schema 校验数据，成功时返回 schema 输出（可能经过转换）
+ */
+export async function validateSchema<T>(
+  schema: StandardSchemaV1<unknown, T>,
+  data: unknown,
+  mode: ValidationMode = 'throw',
+  options: HTTPErrorOptions = {},
+): Promise<T> {
+  const result = await schema['~standard'].validate(data)
+  if (!result.issues)
+    return result.value
+
+  const issues: ValidationIssue[] = result.issues.map(issue => ({
+    path: formatIssuePath(issue.path),
+    message: issue.message,
+  }))
+  const error = new HTTPValidationError(issues, data, options)
+
+  if (mode === 'warn') {
+    console.warn('[HTTP] 响应校验失败:', error.message, issues)
+    return data as T
+  }
+  throw error
+}
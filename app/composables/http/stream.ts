@@ -0,0 +1,129 @@
+/**
+ * 流式响应解析
+ * 按行读取响应流，解析 Server-Sent Events 与 NDJSON
+ */
+
+// ============= 类型定义 =============
+
+/**
+ * SSE 消息
+ */
+export interface SSEMessage {
+  /** 事件类型，未指定时为 message */
+  event: string
+  /** 多行 data 以 \n 拼接 */
+  data: string
+  /** 最近一次收到的事件 id */
+  id: string
+}
+
+// ============= 按行读取 =============
+
+/**
+ * 逐行读取响应流，兼容 \r\n、\n 与 \r 换行
+ */
+export async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true })
+
+      let index = buffer.search(/[\r\n]/)
+      while (index !== -1) {
+        // 块末尾的 \r 可能与下一块的 \n 组成 \r\n，等待下一块再判断
+        if (!done && buffer[index] === '\r' && index === buffer.length - 1)
+          break
+
+        yield buffer.slice(0, index)
+        const skip = buffer[index] === '\r' && buffer[index + 1] === '\n' ? 2 : 1
+        buffer = buffer.slice(index + skip)
+        index = buffer.search(/[\r\n]/)
+      }
+
+      if (done)
+        break
+    }
+
+    if (buffer)
+      yield buffer
+  }
+  finally {
+    reader.cancel().catch(() => {})
+  }
+}
+
+// ============= SSE =============
+
+/**
+ * SSE 解析器
+ * 逐行输入，遇到空行时产出消息；同时记录 id 与服务器指定的重连间隔
+ */
+export class SSEParser {
+  /** 最近一次收到的事件 id，重连时作为 Last-Event-ID 发送 */
+  lastEventId: string
+  /** 服务器通过 retry 字段指定的重连间隔（毫秒） */
+  retry: number | null = null
+
+  private event = ''
+  private data: string[] = []
+
+  constructor(lastEventId = '') {
+    this.lastEventId = lastEventId
+  }
+
+  /**
+   * 输入一行，返回完整的消息或 null
+   */
+  push(line: string): SSEMessage | null {
+    if (line === '')
+      return this.dispatch()
+
+    // 注释行
+    if (line.startsWith(':'))
+      return null
+
+    const colon = line.indexOf(':')
+    const field = colon === -1 ? line : line.slice(0, colon)
+    let value = colon === -1 ? '' : line.slice(colon + 1)
+    if (value.startsWith(' '))
+      value = value.slice(1)
+
+    switch (field) {
+      case 'event':
+        this.event = value
+        break
+      case 'data':
+        this.data.push(value)
+        break
+      case 'id':
+        if (!value.includes('\0'))
+          this.lastEventId = value
+        break
+      case 'retry':
+        if (/^\d+$/.test(value))
+          this.retry = Number(value)
+        break
+    }
+    return null
+  }
+
+  /**
+   * 连接断开时丢弃未完成的消息
+   */
+  reset() {
+    this.event = ''
+    this.data = []
+  }
+
+  private dispatch(): SSEMessage | null {
+    const message = this.data.length > 0
+      ? { event: this.event || 'message', data: this.data.join('\n'), id: this.lastEventId }
+      : null
+    this.reset()
+    return message
+  }
+}
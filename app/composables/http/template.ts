@@ -0,0 +1,130 @@
+/**
+ * 请求模板
+ * 展开路径参数 `{id}`，并将 `{{name}}` 变量插值到 URL、请求头与请求参数中
+ */
+
+// ============= 类型定义 =============
+
+/**
+ * 模板变量
+ */
+export type TemplateVariables = Record<string, string>
+
+/**
+ * 未解析的变量
+ */
+export interface UnresolvedVariable {
+  name: string
+  /** 变量所在位置，如「路径」「请求头 Authorization」「参数 user.name」 */
+  location: string
+}
+
+/**
+ * 请求模板
+ */
+export interface RequestTemplate {
+  /** 完整地址，可包含 `{id}` 路径参数与 `{{name}}` 变量 */
+  url: string
+  params?: Record<string, any>
+  headers?: Record<string, string>
+}
+
+/**
+ * 解析后的请求，params 中已移除被路径参数使用的字段
+ */
+export type ResolvedRequest = Required<RequestTemplate>
+
+/**
+ * 存在未解析的变量，在发送请求前抛出
+ */
+export class VariableResolutionError extends Error {
+  readonly unresolved: UnresolvedVariable[]
+
+  constructor(unresolved: UnresolvedVariable[]) {
+    super(`存在未解析的变量：${unresolved.map(item => `${item.name}（${item.location}）`).join('、')}`)
+    this.name = 'VariableResolutionError'
+    this.unresolved = unresolved
+  }
+}
+
+// ============= 工具函数 =============
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g
+const PATH_PARAM_PATTERN = /(?<!\{)\{([\w.-]+)\}(?!\})/g
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Object.prototype.toString.call(value) === '[object Object]'
+}
+
+function interpolateText(text: string, variables: TemplateVariables, location: string, unresolved: UnresolvedVariable[]): string {
+  return text.replace(VARIABLE_PATTERN, (match, name: string) => {
+    if (Object.hasOwn(variables, name))
+      return variables[name]!
+    unresolved.push({ name: `{{${name}}}`, location })
+    return match
+  })
+}
+
+/**
+ * 递归插值对象与数组中的字符串，其他类型（数字、Blob 等）保持不变
+ */
+function interpolateValue(value: unknown, variables: TemplateVariables, location: string, unresolved: UnresolvedVariable[]): unknown {
+  if (typeof value === 'string')
+    return interpolateText(value, variables, location, unresolved)
+  if (Array.isArray(value))
+    return value.map((item, index) => interpolateValue(item, variables, `${location}[${index}]`, unresolved))
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) =>
+      [key, interpolateValue(item, variables, `${location}.${key}`, unresolved)]))
+  }
+  return value
+}
+
+/**
+ * 插值单个字符串，存在未定义的变量时抛出 VariableResolutionError
+ */
+export function interpolate(text: string, variables: TemplateVariables): string {
+  const unresolved: UnresolvedVariable[] = []
+  const result = interpolateText(text, variables, '文本', unresolved)
+  if (unresolved.length > 0)
+    throw new VariableResolutionError(unresolved)
+  return result
+}
+
+/**
+ * 解析请求模板
+ * 路径参数依次从 params 与变量中取值并进行 URL 编码，取自 params 的字段不再作为查询参数或请求体发送；
+ * 所有未解析的变量汇总后一次抛出
+ */
+export function resolveRequestTemplate(template: RequestTemplate, variables: TemplateVariables = {}): ResolvedRequest {
+  const unresolved: UnresolvedVariable[] = []
+  const params = { ...template.params }
+
+  const expanded = interpolateText(template.url, variables, '地址', unresolved)
+  const [base = '', query] = expanded.split(/\?(.*)/s)
+  const path = base.replace(PATH_PARAM_PATTERN, (match, name: string) => {
+    const value = Object.hasOwn(params, name)
+      ? params[name]
+      : Object.hasOwn(variables, name) ? variables[name] : undefined
+    if (value === undefined || value === null || value === '') {
+      unresolved.push({ name: `{${name}}`, location: '路径' })
+      return match
+    }
+    delete params[name]
+    return encodeURIComponent(String(value))
+  })
+
+  const headers = Object.fromEntries(Object.entries(template.headers ?? {}).map(([name, value]) =>
+    [name, interpolateText(value, variables, `请求头 ${name}`, unresolved)]))
+  const resolvedParams = Object.fromEntries(Object.entries(params).map(([key, value]) =>
+    [key, interpolateValue(value, variables, `参数 ${key}`, unresolved)]))
+
+  if (unresolved.length > 0)
+    throw new VariableResolutionError(unresolved)
+
+  return {
+    url: query === undefined ? path : `${path}?${query}`,
+    params: resolvedParams,
+    headers,
+  }
+}
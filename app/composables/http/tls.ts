@@ -0,0 +1,90 @@
+/**
+ * 自定义 TLS 传输
+ * HTTP 插件只信任系统根证书、不能覆盖主机名解析，配置了 CA 证书或主机名覆盖的请求
+ * 通过 Rust 端的 tls_fetch 命令发送，由它按设置创建并复用 reqwest 客户端
+ */
+
+import type { TLSSettings, TransportOptions } from './network'
+import { invoke } from '@tauri-apps/api/core'
+import { abortable } from './abort'
+
+// ============= 类型定义 =============
+
+/**
+ * tls_fetch 的代理参数
+ */
+interface TLSProxy {
+  url: string
+  username?: string
+  password?: string
+}
+
+/**
+ * tls_fetch 的返回值
+ */
+interface TLSFetchResponse {
+  status: number
+  statusText: string
+  /** 重定向后的最终地址 */
+  url: string
+  headers: Array<[string, string]>
+  body: number[]
+}
+
+/** 不能携带响应体的状态码 */
+const NULL_BODY_STATUSES = [204, 205, 304]
+
+// ============= 工具函数 =============
+
+/**
+ * 读取插件格式的代理参数（toClientOptions 只生成 all）
+ */
+function toTLSProxy(proxy: TransportOptions['proxy']): TLSProxy | null {
+  const all = proxy?.all
+  if (!all)
+    return null
+  if (typeof all === 'string')
+    return { url: all }
+  return { url: all.url, username: all.basicAuth?.username, password: all.basicAuth?.password }
+}
+
+/**
+ * 通过 tls_fetch 发送请求
+ * 取消时立即拒绝，Rust 端的请求在连接超时或响应结束后释放
+ */
+export async function tlsFetch(url: string, init: RequestInit & TransportOptions, tls: TLSSettings): Promise<Response> {
+  const { proxy, connectTimeout, maxRedirections: _maxRedirections, danger: _danger, tls: _tls, ...requestInit } = init
+  init.signal?.throwIfAborted()
+
+  // 请求头不经过 Request，避免 Cookie 等受限请求头被浏览器丢弃；请求体由 Request 统一编码
+  const headers = new Headers(requestInit.headers)
+  const request = new Request(url, { ...requestInit, headers: undefined })
+  const contentType = request.headers.get('content-type')
+  if (contentType && !headers.has('content-type'))
+    headers.set('content-type', contentType)
+  const body = request.body ? Array.from(new Uint8Array(await request.arrayBuffer())) : null
+
+  const data = await abortable(invoke<TLSFetchResponse>('tls_fetch', {
+    request: {
+      url,
+      method: request.method,
+      headers: Array.from(headers.entries()),
+      body,
+      client: {
+        caCertificates: tls.caCertificates ?? [],
+        resolve: tls.resolve ?? {},
+        proxy: toTLSProxy(proxy),
+        connectTimeout: connectTimeout ?? null,
+      },
+    },
+  }), init.signal)
+
+  const response = new Response(
+    NULL_BODY_STATUSES.includes(data.status) ? null : new Uint8Array(data.body),
+    { status: data.status, statusText: data.statusText },
+  )
+  // 与 HTTP 插件一致：直接定义 headers，保留 Set-Cookie 等受限响应头
+  Object.defineProperty(response, 'url', { value: data.url })
+  Object.defineProperty(response, 'headers', { value: new Headers(data.headers) })
+  return response
+}
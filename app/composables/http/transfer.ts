@@ -0,0 +1,161 @@
+/**
+ * 传输进度
+ * 统计上传 / 下载字节数与速率，并按块读取响应流
+ */
+
+// ============= 类型定义 =============
+
+/**
+ * 传输进度
+ */
+export interface HTTPProgress {
+  /** 已传输字节数 */
+  loaded: number
+  /** 总字节数，未知时为 null */
+  total: number | null
+  /** 百分比（0-100），总大小未知时为 null */
+  percent: number | null
+  /** 平均速率（字节/秒） */
+  rate: number
+  /** 是否已完成 */
+  done: boolean
+}
+
+/**
+ * 进度回调
+ */
+export type ProgressCallback = (progress: HTTPProgress) => void
+
+/**
+ * 数据块回调，返回 Promise 时会等待处理完成再读取下一块
+ */
+export type ChunkCallback = (chunk: Uint8Array) => void | Promise<void>
+
+// ============= 进度统计 =============
+
+/**
+ * 进度统计器
+ */
+export class ProgressTracker {
+  private startedAt = Date.now()
+
+  constructor(
+    private total: number | null,
+    private callback: ProgressCallback,
+  ) {}
+
+  /**
+   * 更新已传输字节数
+   */
+  update(loaded: number, done = false) {
+    const elapsed = (Date.now() - this.startedAt) / 1000
+    const total = done && this.total === null ? loaded : this.total
+
+    this.callback({
+      loaded,
+      total,
+      percent: total ? Math.min(100, Math.round((loaded / total) * 100)) : null,
+      rate: elapsed > 0 ? Math.round(loaded / elapsed) : 0,
+      done,
+    })
+  }
+
+  /**
+   * 标记传输完成
+   */
+  complete(loaded: number) {
+    this.update(loaded, true)
+  }
+}
+
+// ============= 工具函数 =============
+
+/**
+ * 判断是否为无需序列化、可直接发送的请求体
+ */
+export function isRawBody(body: unknown): body is BodyInit {
+  return typeof body === 'string'
+    || body instanceof FormData
+    || body instanceof Blob
+    || body instanceof ArrayBuffer
+    || ArrayBuffer.isView(body)
+    || body instanceof URLSearchParams
+    || body instanceof ReadableStream
+}
+
+/**
+ * 估算请求体字节数，无法确定时返回 null
+ */
+export function getBodySize(body: BodyInit | null | undefined): number | null {
+  if (body === null || body === undefined)
+    return 0
+  if (typeof body === 'string')
+    return new TextEncoder().encode(body).byteLength
+  if (body instanceof Blob)
+    return body.size
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body))
+    return body.byteLength
+  if (body instanceof URLSearchParams)
+    return new TextEncoder().encode(body.toString()).byteLength
+  if (body instanceof FormData) {
+    const encoder = new TextEncoder()
+    let size = 0
+    for (const [key, value] of body.entries()) {
+      size += encoder.encode(key).byteLength + (typeof value === 'string' ? encoder.encode(value).byteLength : value.size)
+    }
+    return size
+  }
+  return null
+}
+
+/**
+ * 按块读取响应流
+ * 提供 onChunk 时数据块交给回调处理，不在内存中累积
+ */
+export async function readResponseBytes(
+  response: Response,
+  options: { onProgress?: ProgressCallback, onChunk?: ChunkCallback } = {},
+): Promise<Uint8Array> {
+  const length = Number(response.headers.get('content-length'))
+  const tracker = options.onProgress
+    ? new ProgressTracker(Number.isFinite(length) && length > 0 ? length : null, options.onProgress)
+    : null
+
+  if (!response.body) {
+    tracker?.complete(0)
+    return new Uint8Array(0)
+  }
+
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let loaded = 0
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done)
+      break
+
+    loaded += value.byteLength
+    if (options.onChunk)
+      await options.onChunk(value)
+    else
+      chunks.push(value)
+    tracker?.update(loaded)
+  }
+
+  tracker?.complete(loaded)
+  return concatBytes(chunks, options.onChunk ? 0 : loaded)
+}
+
+/**
+ * 拼接数据块
+ */
+function concatBytes(chunks: Uint8Array[], size: number): Uint8Array {
+  const result = new Uint8Array(size)
+  let offset = 0
+  for (const chunk of chunks) {
+    result.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return result
+}
@@ -0,0 +1,15 @@
+/**
+ * URL 工具
+ */
+
+/**
+ * 从 URL 中提取主机（含端口），无法解析时返回 null
+ */
+export function getURLHost(url: string): string | null {
+  try {
+    return new URL(url).host || null
+  }
+  catch {
+    return null
+  }
+}
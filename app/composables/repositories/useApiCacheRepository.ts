@@ -0,0 +1,123 @@
+import type { ApiCacheRow } from '~/types/models'
+import { useAsyncState } from '~/utils/async'
+import { useTauriSQL } from '../useTauriSQL'
+
+export interface ApiCacheEntry<T = any> {
+  endpointId: number
+  data: T
+  createdAt: string
+  /** 过期时间戳（毫秒），null 表示不过期 */
+  expiresAt: number | null
+}
+
+export interface StoredApiCacheEntry<T = any> extends ApiCacheEntry<T> {
+  /** data 序列化后的字节数 */
+  size: number
+  lastAccessedAt: number
+}
+
+/**
+ * 缓存占用
+ */
+export interface ApiCacheUsage {
+  size: number
+  count: number
+}
+
+function placeholders(values: unknown[]): string {
+  return values.map(() => '?').join(', ')
+}
+
+export function useApiCacheRepository() {
+  const { execute, select } = useTauriSQL()
+  const { isLoading, error, runAsync } = useAsyncState()
+
+  const getEntry = <T = any>(key: string) =>
+    runAsync(async (): Promise<StoredApiCacheEntry<T> | null> => {
+      const rows = await select<ApiCacheRow[]>('SELECT * FROM api_cache WHERE cache_key = ?', [key])
+      const row = rows[0]
+      return row
+        ? {
+            endpointId: row.endpoint_id,
+            data: JSON.parse(row.data),
+            createdAt: row.created_at,
+            expiresAt: row.expires_at,
+            size: row.size,
+            lastAccessedAt: row.last_accessed_at,
+          }
+        : null
+    }, '获取缓存失败')
+
+  /**
+   * 写入缓存并替换其标签，返回 data 序列化后的字节数
+   */
+  const setEntry = (key: string, entry: ApiCacheEntry, tags: string[] = []) =>
+    runAsync(async () => {
+      const data = JSON.stringify(entry.data)
+      const size = new TextEncoder().encode(data).length
+      await execute(
+        `INSERT OR REPLACE INTO api_cache (cache_key, endpoint_id, data, created_at, expires_at, size, last_accessed_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [key, entry.endpointId, data, entry.createdAt, entry.expiresAt, size, Date.now()],
+      )
+      // REPLACE 不触发删除触发器，需手动清除旧标签
+      await execute('DELETE FROM api_cache_tags WHERE cache_key = ?', [key])
+      if (tags.length > 0) {
+        await execute(
+          `INSERT OR IGNORE INTO api_cache_tags (tag, cache_key) VALUES ${tags.map(() => '(?, ?)').join(', ')}`,
+          tags.flatMap(tag => [tag, key]),
+        )
+      }
+      return size
+    }, '保存缓存失败')
+
+  const touch = (key: string, now = Date.now()) =>
+    runAsync(() => execute('UPDATE api_cache SET last_accessed_at = ? WHERE cache_key = ?', [now, key]), '更新缓存访问时间失败')
+
+  const getUsage = () =>
+    runAsync(async (): Promise<ApiCacheUsage> => {
+      const rows = await select<ApiCacheUsage[]>('SELECT COALESCE(SUM(size), 0) AS size, COUNT(*) AS count FROM api_cache')
+      return rows[0] ?? { size: 0, count: 0 }
+    }, '获取缓存占用失败')
+
+  /**
+   * 按最近访问时间从早到晚列出缓存键与大小
+   */
+  const getLeastRecentlyUsed = (limit: number) =>
+    runAsync(() => select<{ cache_key: string, size: number }[]>(
+      'SELECT cache_key, size FROM api_cache ORDER BY last_accessed_at ASC LIMIT ?',
+      [limit],
+    ), '获取缓存列表失败')
+
+  const deleteEntries = (keys: string[]) =>
+    runAsync(() => execute(`DELETE FROM api_cache WHERE cache_key IN (${placeholders(keys)})`, keys), '删除缓存失败')
+
+  const deleteExpired = (now = Date.now()) =>
+    runAsync(() => execute('DELETE FROM api_cache WHERE expires_at IS NOT NULL AND expires_at <= ?', [now]), '清理过期缓存失败')
+
+  /**
+   * 删除带有任一标签的缓存
+   */
+  const deleteByTags = (tags: string[]) =>
+    runAsync(() => execute(
+      `DELETE FROM api_cache WHERE cache_key IN (SELECT cache_key FROM api_cache_tags WHERE tag IN (${placeholders(tags)}))`,
+      tags,
+    ), '清理缓存失败')
+
+  const clear = () =>
+    runAsync(() => execute('DELETE FROM api_cache'), '清空缓存失败')
+
+  return {
+    isLoading,
+    error,
+    getEntry,
+    setEntry,
+    touch,
+    getUsage,
+    getLeastRecentlyUsed,
+    deleteEntries,
+    deleteExpired,
+    deleteByTags,
+    clear,
+  }
+}
@@ -0,0 +1,139 @@
+import type { ApiEndpoint, ChangeNotification } from '../useAPIService'
+import type { ApiEndpointRow } from '~/types/models'
+import { useAsyncState } from '~/utils/async'
+import { useTauriSQL } from '../useTauriSQL'
+
+/**
+ * 新建的接口配置，指定 id 时按该 id 写入（用于迁移旧数据）
+ */
+export type NewApiEndpoint = Omit<ApiEndpoint, 'id' | 'schema'> & { id?: number }
+
+const COLUMNS = 'server_url, name, path, method, description, params, headers, cache_duration, is_active, sort_order, poll_interval, change_notification, created_at, updated_at'
+
+function parseJSON<T>(value: string | null): T | undefined {
+  if (!value)
+    return undefined
+  try {
+    return JSON.parse(value) as T
+  }
+  catch {
+    return undefined
+  }
+}
+
+function toEndpoint(row: ApiEndpointRow): ApiEndpoint {
+  return {
+    id: row.id,
+    serverUrl: row.server_url,
+    name: row.name,
+    path: row.path,
+    method: row.method,
+    description: row.description ?? undefined,
+    params: parseJSON(row.params),
+    headers: parseJSON(row.headers),
+    cacheDuration: row.cache_duration,
+    isActive: !!row.is_active,
+    sortOrder: row.sort_order,
+    pollInterval: row.poll_interval ?? 0,
+    changeNotification: (row.change_notification ?? 'none') as ChangeNotification,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }
+}
+
+function toValues(endpoint: NewApiEndpoint) {
+  return [
+    endpoint.serverUrl,
+    endpoint.name,
+    endpoint.path,
+    endpoint.method,
+    endpoint.description ?? null,
+    endpoint.params ? JSON.stringify(endpoint.params) : null,
+    endpoint.headers ? JSON.stringify(endpoint.headers) : null,
+    endpoint.cacheDuration,
+    endpoint.isActive ? 1 : 0,
+    endpoint.sortOrder,
+    endpoint.pollInterval ?? 0,
+    endpoint.changeNotification ?? 'none',
+    endpoint.createdAt,
+    endpoint.updatedAt,
+  ]
+}
+
+export function useApiEndpointRepository() {
+  const { execute, select } = useTauriSQL()
+  const { isLoading, error, runAsync } = useAsyncState()
+
+  const getAllEndpoints = () =>
+    runAsync(async () => {
+      const rows = await select<ApiEndpointRow[]>('SELECT * FROM api_endpoints ORDER BY sort_order ASC, id ASC')
+      return rows.map(toEndpoint)
+    }, '获取接口列表失败')
+
+  const getEndpointsByServer = (serverUrl: string) =>
+    runAsync(async () => {
+      const rows = await select<ApiEndpointRow[]>(
+        'SELECT * FROM api_endpoints WHERE server_url = ? ORDER BY sort_order ASC, id ASC',
+        [serverUrl],
+      )
+      return rows.map(toEndpoint)
+    }, '获取接口列表失败')
+
+  const getEndpoint = (id: number) =>
+    runAsync(async () => {
+      const rows = await select<ApiEndpointRow[]>('SELECT * FROM api_endpoints WHERE id = ?', [id])
+      return rows[0] ? toEndpoint(rows[0]) : null
+    }, '获取接口失败')
+
+  const createEndpoint = (endpoint: NewApiEndpoint) =>
+    runAsync(async () => {
+      const values = toValues(endpoint)
+      const placeholders = values.map(() => '?').join(', ')
+      const result = endpoint.id === undefined
+        ? await execute(`INSERT INTO api_endpoints (${COLUMNS}) VALUES (${placeholders})`, values)
+        : await execute(`INSERT OR IGNORE INTO api_endpoints (id, ${COLUMNS}) VALUES (?, ${placeholders})`, [endpoint.id, ...values])
+      return endpoint.id ?? result.lastInsertId as number
+    }, '创建接口失败')
+
+  const updateEndpoint = (endpoint: ApiEndpoint) =>
+    runAsync(() => execute(
+      `UPDATE api_endpoints SET server_url = ?, name = ?, path = ?, method = ?, description = ?, params = ?, headers = ?,
+         cache_duration = ?, is_active = ?, sort_order = ?, poll_interval = ?, change_notification = ?, created_at = ?, updated_at = ? WHERE id = ?`,
+      [...toValues(endpoint), endpoint.id],
+    ), '更新接口失败')
+
+  const updateSortOrder = (id: number, sortOrder: number, updatedAt: string) =>
+    runAsync(() => execute(
+      'UPDATE api_endpoints SET sort_order = ?, updated_at = ? WHERE id = ?',
+      [sortOrder, updatedAt, id],
+    ), '更新接口排序失败')
+
+  const deleteEndpoint = (id: number) =>
+    runAsync(() => execute('DELETE FROM api_endpoints WHERE id = ?', [id]), '删除接口失败')
+
+  const deleteEndpointsByServer = (serverUrl: string) =>
+    runAsync(() => execute('DELETE FROM api_endpoints WHERE server_url = ?', [serverUrl]), '删除接口失败')
+
+  /**
+   * 确保之后分配的 id 大于 minId，已删除接口的 id 不被复用
+   */
+  const reserveIds = (minId: number) =>
+    runAsync(() => execute(
+      'UPDATE sqlite_sequence SET seq = MAX(seq, ?) WHERE name = \'api_endpoints\'',
+      [minId],
+    ), '更新接口序列失败')
+
+  return {
+    isLoading,
+    error,
+    getAllEndpoints,
+    getEndpointsByServer,
+    getEndpoint,
+    createEndpoint,
+    updateEndpoint,
+    updateSortOrder,
+    deleteEndpoint,
+    deleteEndpointsByServer,
+    reserveIds,
+  }
+}
@@ -0,0 +1,54 @@
+import type { OutboxItem, OutboxStatus } from '~/types/models'
+import { useAsyncState } from '~/utils/async'
+import { useTauriSQL } from '../useTauriSQL'
+
+export interface NewOutboxItem {
+  method: string
+  url: string
+  headers: Record<string, string>
+  body: string | null
+  idempotencyKey: string
+  client: string | null
+}
+
+export function useOutboxRepository() {
+  const { execute, select } = useTauriSQL()
+  const { isLoading, error, runAsync } = useAsyncState()
+
+  const addItem = (item: NewOutboxItem) =>
+    runAsync(async () => {
+      const result = await execute(
+        'INSERT INTO outbox (method, url, headers, body, idempotency_key, client) VALUES (?, ?, ?, ?, ?, ?)',
+        [item.method, item.url, JSON.stringify(item.headers), item.body, item.idempotencyKey, item.client],
+      )
+      return result.lastInsertId as number
+    }, '保存离线请求失败')
+
+  const getAllItems = () =>
+    runAsync(() => select<OutboxItem[]>('SELECT * FROM outbox ORDER BY id ASC'), '获取离线请求失败')
+
+  const updateStatus = (id: number, status: OutboxStatus, lastError: string | null = null) =>
+    runAsync(() => execute(
+      'UPDATE outbox SET status = ?, last_error = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+      [status, lastError, id],
+    ), '更新离线请求失败')
+
+  const recordAttempt = (id: number, lastError: string | null) =>
+    runAsync(() => execute(
+      'UPDATE outbox SET attempts = attempts + 1, last_error = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+      [lastError, id],
+    ), '更新离线请求失败')
+
+  const deleteItem = (id: number) =>
+    runAsync(() => execute('DELETE FROM outbox WHERE id = ?', [id]), '删除离线请求失败')
+
+  return {
+    isLoading,
+    error,
+    addItem,
+    getAllItems,
+    updateStatus,
+    recordAttempt,
+    deleteItem,
+  }
+}
@@ -0,0 +1,74 @@
+import type { StoredServerConfig } from '../useAPIService'
+import type { ServerRow } from '~/types/models'
+import { useAsyncState } from '~/utils/async'
+import { useTauriSQL } from '../useTauriSQL'
+
+function parseJSON<T>(value: string | null): T | undefined {
+  if (!value)
+    return undefined
+  try {
+    return JSON.parse(value) as T
+  }
+  catch {
+    return undefined
+  }
+}
+
+function toServer(row: ServerRow): StoredServerConfig {
+  const server: StoredServerConfig = { url: row.url, name: row.name }
+  if (row.token)
+    server.token = row.token
+  const auth = parseJSON<StoredServerConfig['auth']>(row.auth)
+  if (auth)
+    server.auth = auth
+  const oauth = parseJSON<StoredServerConfig['oauth']>(row.oauth)
+  if (oauth)
+    server.oauth = oauth
+  return server
+}
+
+export function useServerRepository() {
+  const { execute, select } = useTauriSQL()
+  const { isLoading, error, runAsync } = useAsyncState()
+
+  const getAllServers = () =>
+    runAsync(async () => {
+      const rows = await select<ServerRow[]>('SELECT * FROM servers ORDER BY created_at ASC, url ASC')
+      return rows.map(toServer)
+    }, '获取服务器列表失败')
+
+  const getServer = (url: string) =>
+    runAsync(async () => {
+      const rows = await select<ServerRow[]>('SELECT * FROM servers WHERE url = ?', [url])
+      return rows[0] ? toServer(rows[0]) : null
+    }, '获取服务器失败')
+
+  /**
+   * 按 url 新增或覆盖服务器配置
+   */
+  const saveServer = (server: StoredServerConfig) =>
+    runAsync(() => execute(
+      `INSERT INTO servers (url, name, token, auth, oauth) VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(url) DO UPDATE SET name = excluded.name, token = excluded.token, auth = excluded.auth,
+         oauth = excluded.oauth, updated_at = CURRENT_TIMESTAMP`,
+      [
+        server.url,
+        server.name,
+        server.token ?? null,
+        server.auth ? JSON.stringify(server.auth) : null,
+        server.oauth ? JSON.stringify(server.oauth) : null,
+      ],
+    ), '保存服务器失败')
+
+  const deleteServer = (url: string) =>
+    runAsync(() => execute('DELETE FROM servers WHERE url = ?', [url]), '删除服务器失败')
+
+  return {
+    isLoading,
+    error,
+    getAllServers,
+    getServer,
+    saveServer,
+    deleteServer,
+  }
+}
@@ -3,13 +3,30 @@
  * 提供统一的接口数据获取、缓存管理和错误处理功能
  */
 
+import type { Ref } from 'vue'
+import type { OAuthClientConfig } from './useAuthManager'
+import type { ResponseCacheStats } from './useResponseCache'
+import type { CircuitState, CircuitStatus, HarLog, HARRecorder, HARRecorderOptions, HostQueueStats, HTTPAdapter, HTTPRequestConfig, NetworkSettings, RequestPriority, ResolvedRequest, ServerAuth, StandardSchemaV1, TauriHTTPClient, TemplateVariables, ValidationMode } from './useTauriHTTP'
 import { readonly, ref } from 'vue'
-import { useTauriHTTP } from './useTauriHTTP'
+import { useApiEndpointRepository } from './repositories/useApiEndpointRepository'
+import { useServerRepository } from './repositories/useServerRepository'
+import { useSettingRepository } from './repositories/useSettingRepository'
+import { getActiveVariables } from './useApiEnvironments'
+import { formatAuthorization, getAuthManager } from './useAuthManager'
+import { getCookieJar, getCookieProfile } from './useCookieJar'
+import { getServerNetworkSettings, useNetworkSettings } from './useNetworkSettings'
+import { CacheTags, getResponseCache, hashCacheKey } from './useResponseCache'
+import { applyAuth, authSecretNames, CircuitBreaker, createHTTPClient, deleteHeader, getHeader, HTTPStatusError, resolveRequestTemplate } from './useTauriHTTP'
 import { useTauriSQL } from './useTauriSQL'
 import { useTauriStore } from './useTauriStore'
 
 // ============= 类型定义 =============
 
+/**
+ * 数据变化的通知方式：不通知、系统通知或灵动岛消息
+ */
+export type ChangeNotification = 'none' | 'system' | 'island'
+
 /**
  * API 接口配置
  */
@@ -25,8 +42,14 @@ export interface ApiEndpoint {
   cacheDuration: number
   isActive: boolean
   sortOrder: number
+  /** 轮询间隔（秒），未设置或为 0 时不轮询 */
+  pollInterval?: number
+  /** 轮询到数据变化时的通知方式，默认 none */
+  changeNotification?: ChangeNotification
   createdAt: string
   updatedAt: string
+  /** 响应数据的 schema，仅在运行时注册，不会持久化 */
+  schema?: StandardSchemaV1
 }
 
 /**
@@ -36,9 +59,20 @@ export interface ServerConfig {
   url: string
   name: string
   token?: string
+  /** 认证方案，优先于 token 与 OAuth2 */
+  auth?: ServerAuth
+  /** OAuth2 配置，配置后由 AuthManager 管理令牌 */
+  oauth?: OAuthClientConfig
+  /** 代理设置，保存在 settings 表中，覆盖全局网络设置 */
+  network?: NetworkSettings
   endpoints: ApiEndpoint[]
 }
 
+/**
+ * 持久化的服务器配置（接口列表与网络设置单独保存）
+ */
+export type StoredServerConfig = Omit<ServerConfig, 'endpoints' | 'network'>
+
 /**
  * API 响应数据
  */
@@ -49,6 +83,14 @@ export interface ApiResponse<T = any> {
   endpoint: ApiEndpoint
 }
 
+/**
+ * 缓存中的接口数据
+ */
+export interface CachedApiResponse<T = any> extends ApiResponse<T> {
+  /** 是否已超过接口的缓存时长 */
+  expired: boolean
+}
+
 /**
  * 数据获取选项
  */
@@ -57,45 +99,179 @@ export interface FetchOptions {
   timeout?: number
   customParams?: Record<string, any>
   customHeaders?: Record<string, string>
+  /** 本次请求的变量，覆盖当前环境中的同名变量 */
+  variables?: TemplateVariables
+  /** 请求优先级，用户触发使用 high，后台刷新使用 low */
+  priority?: RequestPriority
+  /** 覆盖接口注册的响应 schema */
+  schema?: StandardSchemaV1
+  /** 校验失败时的处理方式，默认 throw */
+  validation?: ValidationMode
+}
+
+/**
+ * APIService 构造选项
+ */
+export interface APIServiceOptions {
+  /** 传输适配器，测试时可传入 MockAdapter 或 HARReplayAdapter */
+  adapter?: HTTPAdapter
+  /** 以 HAR 格式录制请求，默认关闭 */
+  har?: Partial<HARRecorderOptions> | boolean
 }
 
+/** 参数放在查询字符串中的请求方法，其他方法放在请求体中 */
+const QUERY_METHODS = new Set(['GET', 'HEAD'])
+
+/** settings 表中记录 Store 旧数据已迁移的键 */
+const STORE_MIGRATION_KEY = 'migration:api_store'
+
 // ============= API 服务类 =============
 
 export class APIService {
-  private httpClient: ReturnType<typeof useTauriHTTP>
+  private httpClient: TauriHTTPClient
   private sqlService: ReturnType<typeof useTauriSQL>
   private storeService: ReturnType<typeof useTauriStore>
-
-  constructor() {
-    this.httpClient = useTauriHTTP()
+  private serverRepository = useServerRepository()
+  private endpointRepository = useApiEndpointRepository()
+  private cache = getResponseCache()
+  private settingRepository = useSettingRepository()
+  private readyPromise: Promise<void> | null = null
+  /** 按接口 ID 注册的响应 schema */
+  private schemas = new Map<number, StandardSchemaV1>()
+
+  constructor(options: APIServiceOptions = {}) {
+    // 使用独立客户端，避免认证拦截器影响全局请求；Cookie 按服务器隔离
+    this.httpClient = createHTTPClient({
+      timeout: 10000,
+      adapter: options.adapter,
+      har: options.har,
+      cookies: (config) => {
+        const endpoint = config.meta?.endpoint as ApiEndpoint | undefined
+        return endpoint ? getCookieJar(endpoint.serverUrl) : null
+      },
+    })
     this.sqlService = useTauriSQL()
     this.storeService = useTauriStore()
 
+    this.httpClient.interceptors.request.use(config => this.authInterceptor(config))
+    this.httpClient.interceptors.error.use((error, config) => this.reauthInterceptor(error, config))
+
     // 尝试在客户端环境中初始化底层服务
     if (import.meta.client) {
-      // SQL（若需要）和 Store 的惰性初始化
-      this.sqlService.autoInit?.().catch(() => {})
-      this.storeService.initStore?.().catch(() => {})
+      this.init().catch(err => console.warn('[API] 初始化失败:', err))
     }
   }
 
   /**
-   * 生成缓存键
+   * 连接数据库，首次启动时将 Store 中的服务器与接口迁移到数据库；重复调用只执行一次
    */
-  private generateCacheKey(endpointId: number, params?: Record<string, any>): string {
-    const paramStr = params ? JSON.stringify(params) : ''
-    // 使用 URL 安全编码，避免 SSR 下的 Buffer/btoa 兼容问题
-    const encoded = encodeURIComponent(paramStr)
-    return `endpoint_${endpointId}_${encoded}`
+  init(): Promise<void> {
+    this.readyPromise ??= (async () => {
+      await this.sqlService.initDatabase()
+      await this.migrateFromStore()
+    })().catch((err) => {
+      this.readyPromise = null
+      throw err
+    })
+    return this.readyPromise
   }
 
   /**
-   * 获取服务器的 Token
+   * 迁移 Store 中的旧数据（api:servers、api:endpoints），旧的响应缓存直接丢弃
+   * 写入按 url / id 去重，中途失败后重新迁移不会产生重复数据
    */
-  private async getServerToken(serverUrl: string): Promise<string | null> {
+  private async migrateFromStore() {
+    if (await this.settingRepository.getSetting(STORE_MIGRATION_KEY))
+      return
+
+    await this.storeService.initStore()
+    const servers = await this.storeService.getItem<StoredServerConfig[]>('api:servers')
+    const endpoints = await this.storeService.getItem<ApiEndpoint[]>('api:endpoints')
+    const sequence = await this.storeService.getItem<number>('api:endpoints:seq')
+
+    for (const server of Array.isArray(servers) ? servers : [])
+      await this.serverRepository.saveServer(server)
+
+    const now = new Date().toISOString()
+    const legacy = Array.isArray(endpoints) ? endpoints : []
+    for (const [index, { schema: _schema, ...endpoint }] of legacy.entries()) {
+      await this.endpointRepository.createEndpoint({
+        ...endpoint,
+        method: endpoint.method || 'GET',
+        cacheDuration: endpoint.cacheDuration ?? 0,
+        isActive: endpoint.isActive ?? true,
+        sortOrder: endpoint.sortOrder ?? index,
+        createdAt: endpoint.createdAt || now,
+        updatedAt: endpoint.updatedAt || now,
+      })
+    }
+
+    // 保留旧的 ID 序列，已删除接口的 ID 不被复用
+    const maxId = Math.max(sequence ?? 0, ...legacy.map(ep => ep.id))
+    if (maxId > 0)
+      await this.endpointRepository.reserveIds(maxId)
+
+    await this.settingRepository.setSetting(STORE_MIGRATION_KEY, now)
+    console.log(`[API] 已迁移 ${servers?.length ?? 0} 个服务器、${legacy.length} 个接口到数据库`)
+
     try {
-      // 优先从 SQL 的设置表读取（存在该 API）
-      const fromSql = await this.sqlService.getSetting?.(`token:${serverUrl}`)
+      const keys = await this.storeService.getKeys()
+      for (const key of keys) {
+        if (key === 'api:servers' || key.startsWith('api:endpoints') || key.startsWith('cache:endpoint_'))
+          await this.storeService.deleteItem(key)
+      }
+    }
+    catch (err) {
+      console.warn('清理 Store 旧数据失败:', err)
+    }
+  }
+
+  /**
+   * 生成缓存键：请求地址、参数、请求头与认证身份的摘要，不同账号的缓存互不可见
+   */
+  private async generateCacheKey(endpointId: number, request: ResolvedRequest, identity: string): Promise<string> {
+    const headers = Object.entries(request.headers ?? {})
+      .map(([name, value]): [string, string] => [name.toLowerCase(), value])
+      .sort(([a], [b]) => a.localeCompare(b))
+    const digest = await hashCacheKey(JSON.stringify([request.url, request.params ?? null, headers, identity]))
+    return `endpoint_${endpointId}_${digest}`
+  }
+
+  /**
+   * 认证身份：当前用户配置加上服务器凭据的摘要，没有凭据时为 anonymous
+   * OAuth2 服务器使用客户端 ID 与令牌所属账号，令牌刷新后缓存仍然有效，且不会为计算缓存键发起刷新
+   */
+  private async getAuthIdentity(serverUrl: string): Promise<string> {
+    const server = await this.getServer(serverUrl)
+    let credential: string | null
+    if (server?.auth && server.auth.type !== 'none') {
+      credential = JSON.stringify(server.auth)
+    }
+    else {
+      const oauthIdentity = await getAuthManager().getIdentity(serverUrl).catch(() => null)
+      credential = oauthIdentity !== null ? `oauth:${serverUrl}:${oauthIdentity}` : await this.getServerToken(serverUrl)
+    }
+    const fingerprint = credential ? (await hashCacheKey(credential)).slice(0, 16) : 'anonymous'
+    return `${getCookieProfile()}:${fingerprint}`
+  }
+
+  /**
+   * 获取服务器的 Token（WebSocket 等其他通道共用）
+   */
+  async getServerToken(serverUrl: string): Promise<string | null> {
+    try {
+      // 配置了 OAuth2 的服务器使用 AuthManager 管理的令牌
+      const authManager = getAuthManager()
+      if (await authManager.isConfigured(serverUrl))
+        return await authManager.getAccessToken(serverUrl)
+
+      // 服务器配置中的 Token
+      const server = await this.getServer(serverUrl)
+      if (server?.token)
+        return server.token
+
+      // settings 表中按服务器保存的 Token
+      const fromSql = await this.settingRepository.getSetting(`token:${serverUrl}`)
       if (fromSql)
         return fromSql
 
@@ -111,130 +287,267 @@ export class APIService {
   }
 
   /**
-   * 从 Store 读取所有接口配置
+   * 读取所有接口配置
    */
-  private async getAllApiEndpointsFromStore(): Promise<ApiEndpoint[]> {
+  private async getAllApiEndpoints(): Promise<ApiEndpoint[]> {
     try {
-      await this.storeService.initStore?.()
-      const endpoints = await this.storeService.getItem('api:endpoints') as ApiEndpoint[] | null
-      return Array.isArray(endpoints) ? endpoints : []
+      await this.init()
+      return await this.endpointRepository.getAllEndpoints()
     }
     catch (err) {
-      console.warn('读取接口配置失败（Store）:', err)
+      console.warn('读取接口配置失败:', err)
       return []
     }
   }
 
   /**
-   * 根据服务器地址筛选接口
+   * 读取服务器下的接口配置
    */
-  private async getApiEndpointsByServerFromStore(serverUrl: string): Promise<ApiEndpoint[]> {
-    const all = await this.getAllApiEndpointsFromStore()
-    return all.filter(ep => ep.serverUrl === serverUrl)
+  private async getApiEndpointsByServer(serverUrl: string): Promise<ApiEndpoint[]> {
+    await this.init()
+    return this.endpointRepository.getEndpointsByServer(serverUrl)
   }
 
   /**
-   * 基于 endpoints 推断服务器列表（name 使用 url）
+   * 读取已保存的服务器配置
    */
-  private async getAllServersFromStore(): Promise<any[]> {
-    const endpoints = await this.getAllApiEndpointsFromStore()
-    const urls = Array.from(new Set(endpoints.map(e => e.serverUrl)))
-    return urls.map(u => ({ url: u, name: u }))
+  private async getStoredServers(): Promise<StoredServerConfig[]> {
+    try {
+      await this.init()
+      return await this.serverRepository.getAllServers()
+    }
+    catch (err) {
+      console.warn('读取服务器配置失败:', err)
+      return []
+    }
   }
 
   /**
-   * 构建请求头
+   * 合并已保存的服务器配置与 endpoints 中出现的服务器（未保存的 name 使用 url）
    */
-  private async buildHeaders(
-    endpoint: ApiEndpoint,
-    customHeaders?: Record<string, string>,
-  ): Promise<Record<string, string>> {
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      ...endpoint.headers,
-      ...customHeaders,
+  async getServers(): Promise<ServerConfig[]> {
+    const [stored, endpoints] = await Promise.all([this.getStoredServers(), this.getAllApiEndpoints()])
+    const servers = new Map<string, StoredServerConfig>(stored.map(server => [server.url, server]))
+    for (const endpoint of endpoints) {
+      if (!servers.has(endpoint.serverUrl))
+        servers.set(endpoint.serverUrl, { url: endpoint.serverUrl, name: endpoint.serverUrl })
+    }
+
+    return Promise.all(Array.from(servers.values(), async server => ({
+      ...server,
+      network: await getServerNetworkSettings(server.url),
+      endpoints: endpoints.filter(ep => ep.serverUrl === server.url),
+    })))
+  }
+
+  /**
+   * 获取单个服务器的配置
+   */
+  async getServer(serverUrl: string): Promise<StoredServerConfig | null> {
+    await this.init()
+    return this.serverRepository.getServer(serverUrl)
+  }
+
+  /**
+   * 保存服务器配置（按 url 新增或覆盖）到 servers 表；网络设置保存到 settings 表
+   */
+  async saveServer(server: StoredServerConfig | ServerConfig): Promise<void> {
+    const { endpoints: _endpoints, network, ...config } = server as ServerConfig
+    if (network !== undefined)
+      await useNetworkSettings().saveServer(config.url, network)
+
+    await this.init()
+    await this.serverRepository.saveServer(config)
+    await this.configureServerAuth(server as ServerConfig)
+  }
+
+  /**
+   * 更新服务器的认证方案，传入 null 时移除
+   */
+  async setServerAuth(serverUrl: string, auth: ServerAuth | null): Promise<void> {
+    const server = await this.getServer(serverUrl) ?? { url: serverUrl, name: serverUrl }
+    const { auth: _auth, ...rest } = server
+    await this.saveServer(auth ? { ...rest, auth } : rest)
+  }
+
+  /**
+   * 删除服务器配置、网络设置与响应缓存，接口列表保持不变
+   */
+  async deleteServer(serverUrl: string): Promise<void> {
+    await this.init()
+    await this.serverRepository.deleteServer(serverUrl)
+    await useNetworkSettings().saveServer(serverUrl, null)
+    await getAuthManager().unconfigure(serverUrl)
+    await this.invalidateCache([CacheTags.server(serverUrl)])
+  }
+
+  /**
+   * 认证拦截器：按服务器的认证方案签名请求，未配置时添加服务器 Token
+   */
+  private async authInterceptor(config: HTTPRequestConfig): Promise<HTTPRequestConfig> {
+    const endpoint = config.meta?.endpoint as ApiEndpoint | undefined
+    if (!endpoint || getHeader(config.headers, 'Authorization'))
+      return config
+
+    const server = await this.getServer(endpoint.serverUrl)
+    if (server?.auth && server.auth.type !== 'none') {
+      this.httpClient.recorder?.redact(authSecretNames(server.auth))
+      return applyAuth(config, server.auth)
     }
 
-    // 添加 Token 认证
-    const token = await this.getServerToken(endpoint.serverUrl)
-    if (token) {
-      headers.Authorization = `Bearer ${token}`
+    const authorization = await this.getServerAuthorization(endpoint.serverUrl)
+    if (authorization) {
+      config.headers.Authorization = authorization
     }
 
-    return headers
+    return config
   }
 
   /**
-   * 构建请求 URL
+   * 服务器的 Authorization 请求头：OAuth2 令牌按其 token_type，静态 Token 使用 Bearer
    */
-  private buildUrl(endpoint: ApiEndpoint, params?: Record<string, any>): string {
-    const baseUrl = endpoint.serverUrl.replace(/\/$/, '')
-    const path = endpoint.path.replace(/^\//, '')
-    let url = `${baseUrl}/${path}`
-
-    // 处理 GET 请求参数
-    if (endpoint.method.toUpperCase() === 'GET' && params) {
-      const searchParams = new URLSearchParams()
-      Object.entries(params).forEach(([key, value]) => {
-        if (value !== undefined && value !== null) {
-          searchParams.append(key, String(value))
-        }
-      })
-      const queryString = searchParams.toString()
-      if (queryString) {
-        url += `?${queryString}`
-      }
+  private async getServerAuthorization(serverUrl: string): Promise<string | null> {
+    try {
+      const authManager = getAuthManager()
+      if (await authManager.isConfigured(serverUrl))
+        return await authManager.getAuthorization(serverUrl)
+    }
+    catch (err) {
+      console.warn('获取服务器 Token 失败:', err)
+      return null
     }
 
-    return url
+    const token = await this.getServerToken(serverUrl)
+    return token ? `Bearer ${token}` : null
+  }
+
+  /**
+   * 401 时刷新 OAuth2 令牌并重试一次，刷新失败时由 AuthManager 发出重新认证事件
+   */
+  private async reauthInterceptor(error: unknown, config: HTTPRequestConfig) {
+    const endpoint = config.meta?.endpoint as ApiEndpoint | undefined
+    if (!endpoint || config.meta?.authRetried || !(error instanceof HTTPStatusError) || error.status !== 401)
+      return
+
+    const authManager = getAuthManager()
+    if (!(await authManager.isConfigured(endpoint.serverUrl).catch(() => false)))
+      return
+
+    // 去掉认证方案，只比较令牌本身
+    const rejected = getHeader(config.headers, 'Authorization')?.replace(/^\S+\s+/, '')
+    const tokens = await authManager.refresh(endpoint.serverUrl, rejected).catch(() => null)
+    if (!tokens)
+      return
+
+    const headers = { ...config.headers }
+    deleteHeader(headers, 'Authorization')
+    return this.httpClient.request(config.url, {
+      ...config,
+      headers: { ...headers, Authorization: formatAuthorization(tokens) },
+      meta: { ...config.meta, authRetried: true },
+    })
+  }
+
+  /**
+   * 为服务器启用 OAuth2，令牌由 AuthManager 管理；配置中没有 oauth 时移除已有的 OAuth2 配置
+   */
+  async configureServerAuth(server: ServerConfig) {
+    if (server.oauth)
+      await getAuthManager().configure(server.url, server.oauth)
+    else if (await getAuthManager().isConfigured(server.url))
+      await getAuthManager().unconfigure(server.url)
+  }
+
+  /**
+   * 解析接口的请求模板：展开 `{id}` 路径参数，插值当前环境与 FetchOptions.variables 中的 `{{name}}` 变量
+   * 存在未解析的变量时抛出 VariableResolutionError，不发送请求
+   */
+  private async resolveRequest(endpoint: ApiEndpoint, options: FetchOptions): Promise<ResolvedRequest> {
+    const variables = { ...await getActiveVariables(), ...options.variables }
+    return resolveRequestTemplate({
+      url: `${endpoint.serverUrl.replace(/\/$/, '')}/${endpoint.path.replace(/^\//, '')}`,
+      params: { ...endpoint.params, ...options.customParams },
+      headers: {
+        'Content-Type': 'application/json',
+        ...endpoint.headers,
+        ...options.customHeaders,
+      },
+    }, variables)
+  }
+
+  /**
+   * 构建请求 URL，GET / HEAD 请求的参数追加到查询字符串
+   */
+  private buildUrl(url: string, method: string, params: Record<string, any>): string {
+    if (!QUERY_METHODS.has(method.toUpperCase()))
+      return url
+
+    const searchParams = new URLSearchParams()
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        searchParams.append(key, String(value))
+      }
+    })
+    const queryString = searchParams.toString()
+    if (!queryString)
+      return url
+    return `${url}${url.includes('?') ? '&' : '?'}${queryString}`
   }
 
   /**
    * 执行 HTTP 请求
+   * 失败时抛出 TauriHTTPClient 的 HTTPError 子类
    */
   private async executeRequest(
     endpoint: ApiEndpoint,
+    request: ResolvedRequest,
     options: FetchOptions = {},
   ): Promise<any> {
-    const { customParams, customHeaders, timeout } = options
-    const mergedParams = { ...endpoint.params, ...customParams }
-    const headers = await this.buildHeaders(endpoint, customHeaders)
-    const url = this.buildUrl(endpoint, mergedParams)
+    const { timeout, priority, validation } = options
+    const url = this.buildUrl(request.url, endpoint.method, request.params)
 
     const requestOptions: any = {
       method: endpoint.method,
-      headers,
+      headers: request.headers,
       timeout: timeout || 10000,
+      priority,
+      meta: { endpoint },
+      network: await getServerNetworkSettings(endpoint.serverUrl),
+      schema: options.schema ?? endpoint.schema ?? this.schemas.get(endpoint.id),
+      validation,
     }
 
-    // 对于非 GET 请求，将参数放在请求体中
-    if (endpoint.method.toUpperCase() !== 'GET' && mergedParams) {
-      requestOptions.body = JSON.stringify(mergedParams)
+    // 其他请求将参数放在请求体中
+    if (!QUERY_METHODS.has(endpoint.method.toUpperCase())) {
+      requestOptions.body = this.httpClient.serializeBody(request.params, requestOptions.headers)
     }
 
     console.log(`[API] 请求 ${endpoint.name}:`, { url, method: endpoint.method })
 
     const response = await this.httpClient.request(url, requestOptions)
-
-    if (!response || !response.ok) {
-      throw new Error(`HTTP ${response?.status || 'Unknown'}: ${response?.statusText || 'Request failed'}`)
-    }
-
     return response.data
   }
 
   /**
-   * 获取接口数据（带缓存）
+   * 注册接口的响应 schema，之后的请求会校验响应数据
    */
-  async fetchEndpointData(
-    endpointId: number,
-    options: FetchOptions = {},
-  ): Promise<ApiResponse> {
-    const { forceRefresh = false } = options
+  registerEndpointSchema(endpointId: number, schema: StandardSchemaV1) {
+    this.schemas.set(endpointId, schema)
+  }
 
-    // 获取接口配置
-    const endpoints = await this.getAllApiEndpointsFromStore()
-    const endpoint = endpoints.find((ep: ApiEndpoint) => ep.id === endpointId)
+  /**
+   * 移除接口的响应 schema
+   */
+  unregisterEndpointSchema(endpointId: number) {
+    this.schemas.delete(endpointId)
+  }
+
+  /**
+   * 获取启用的接口配置，不存在或已禁用时抛出
+   */
+  private async getActiveEndpoint(endpointId: number): Promise<ApiEndpoint> {
+    await this.init()
+    const endpoint = await this.endpointRepository.getEndpoint(endpointId)
 
     if (!endpoint) {
       throw new Error(`接口配置不存在: ${endpointId}`)
@@ -244,25 +557,59 @@ export class APIService {
       throw new Error(`接口已禁用: ${endpoint.name}`)
     }
 
-    const cacheKey = this.generateCacheKey(endpointId, options.customParams)
+    return endpoint
+  }
+
+  /**
+   * 读取接口的缓存数据（包括已过期的），不发送请求；没有缓存时返回 null
+   */
+  async getCachedEndpointData<T = any>(
+    endpointId: number,
+    options: FetchOptions = {},
+  ): Promise<CachedApiResponse<T> | null> {
+    const endpoint = await this.getActiveEndpoint(endpointId)
+    const request = await this.resolveRequest(endpoint, options)
+    const identity = await this.getAuthIdentity(endpoint.serverUrl)
+    const cached = await this.cache.get<T>(await this.generateCacheKey(endpointId, request, identity), { allowStale: true })
+    if (!cached)
+      return null
+
+    return {
+      data: cached.data,
+      cached: true,
+      timestamp: cached.createdAt,
+      endpoint,
+      expired: cached.expired,
+    }
+  }
+
+  /**
+   * 获取接口数据（带缓存）
+   * 传入或注册了 schema 时，data 为 schema 的输出类型
+   */
+  async fetchEndpointData<T = any>(
+    endpointId: number,
+    options: FetchOptions = {},
+  ): Promise<ApiResponse<T>> {
+    const { forceRefresh = false } = options
+
+    // 获取接口配置
+    const endpoint = await this.getActiveEndpoint(endpointId)
+    const request = await this.resolveRequest(endpoint, options)
+    const identity = await this.getAuthIdentity(endpoint.serverUrl)
+    const cacheKey = await this.generateCacheKey(endpointId, request, identity)
 
     // 检查缓存（如果不强制刷新）
     if (!forceRefresh) {
       try {
-        await this.storeService.initStore?.()
-        const cachedRaw = await this.storeService.getItem(`cache:${cacheKey}`)
-        const cached: any = cachedRaw
+        const cached = await this.cache.get(cacheKey)
         if (cached) {
-          const now = Date.now()
-          const expire = cached.expiresAt ? new Date(cached.expiresAt).getTime() : Infinity
-          if (now < expire) {
-            console.log(`[API] 使用缓存数据: ${endpoint.name}`)
-            return {
-              data: cached.data,
-              cached: true,
-              timestamp: cached.createdAt,
-              endpoint,
-            }
+          console.log(`[API] 使用缓存数据: ${endpoint.name}`)
+          return {
+            data: cached.data,
+            cached: true,
+            timestamp: cached.createdAt,
+            endpoint,
           }
         }
       }
@@ -272,18 +619,16 @@ export class APIService {
     }
 
     // 执行请求
-    const data = await this.executeRequest(endpoint, options)
+    const data = await this.executeRequest(endpoint, request, options)
     const timestamp = new Date().toISOString()
 
     // 保存到缓存
     if (endpoint.cacheDuration > 0) {
       try {
-        await this.storeService.initStore?.()
-        const expiresAt = new Date(Date.now() + endpoint.cacheDuration * 1000).toISOString()
-        await this.storeService.setItem(`cache:${cacheKey}`, {
-          data,
-          createdAt: timestamp,
-          expiresAt,
+        await this.cache.set(cacheKey, data, {
+          endpointId,
+          ttl: endpoint.cacheDuration * 1000,
+          tags: [CacheTags.server(endpoint.serverUrl), CacheTags.endpoint(endpointId), CacheTags.user(identity)],
         })
       }
       catch (err) {
@@ -306,11 +651,11 @@ export class APIService {
     serverUrl: string,
     options: FetchOptions = {},
   ): Promise<Record<string, ApiResponse>> {
-    const endpoints = await this.getApiEndpointsByServerFromStore(serverUrl)
+    const endpoints = await this.getApiEndpointsByServer(serverUrl)
     const results: Record<string, ApiResponse> = {}
     const errors: Record<string, string> = {}
 
-    // 并发获取所有接口数据
+    // 并发获取所有接口数据，相同的 GET 请求由 HTTP 客户端合并为一次调用
     await Promise.allSettled(
       endpoints.map(async (endpoint: ApiEndpoint) => {
         try {
@@ -339,12 +684,12 @@ export class APIService {
     options: FetchOptions = {},
   ): Promise<Record<string, Record<string, ApiResponse>>> {
     // 获取所有服务器配置
-    const servers = await this.getAllServersFromStore()
+    const servers = await this.getServers()
     const results: Record<string, Record<string, ApiResponse>> = {}
 
     // 并发获取所有服务器数据
     await Promise.allSettled(
-      servers.map(async (server: any) => {
+      servers.map(async (server) => {
         try {
           const serverData = await this.fetchServerData(server.url, options)
           results[server.name] = serverData
@@ -360,24 +705,86 @@ export class APIService {
   }
 
   /**
-   * 清理过期缓存
+   * 当前使用的传输适配器
+   */
+  get adapterName(): string {
+    return this.httpClient.adapterName
+  }
+
+  /**
+   * 替换传输适配器，如回放 HAR 文件
+   */
+  setAdapter(adapter: HTTPAdapter) {
+    this.httpClient.setAdapter(adapter)
+  }
+
+  /**
+   * 当前的 HAR 录制器，未录制时为 null
+   */
+  get recorder(): HARRecorder | null {
+    return this.httpClient.recorder
+  }
+
+  /**
+   * 开始录制接口请求，传入全局客户端的录制器时两者记录到同一份 HAR
+   */
+  startRecording(options?: Partial<HARRecorderOptions> | HARRecorder): HARRecorder {
+    return this.httpClient.startRecording(options)
+  }
+
+  /**
+   * 停止录制并返回已记录的 HAR
+   */
+  stopRecording(): HarLog | null {
+    return this.httpClient.stopRecording()
+  }
+
+  /**
+   * 各服务器主机的熔断状态（响应式）
+   */
+  get circuitStates(): Readonly<Ref<Record<string, CircuitStatus>>> {
+    return this.httpClient.circuitBreaker!.states
+  }
+
+  /**
+   * 各服务器主机的并发与排队数量（响应式）
+   */
+  get queueStats(): Readonly<Ref<Record<string, HostQueueStats>>> {
+    return this.httpClient.scheduler!.stats
+  }
+
+  /**
+   * 获取服务器的熔断状态
+   */
+  getServerCircuitState(serverUrl: string): CircuitState {
+    const host = CircuitBreaker.hostOf(serverUrl)
+    return host ? this.httpClient.circuitBreaker!.getState(host) : 'closed'
+  }
+
+  /**
+   * 重置服务器的熔断状态，立即允许请求
+   */
+  resetServerCircuit(serverUrl: string) {
+    const host = CircuitBreaker.hostOf(serverUrl)
+    if (host)
+      this.httpClient.circuitBreaker!.reset(host)
+  }
+
+  /**
+   * 响应缓存的命中、未命中、淘汰次数与占用（响应式）
+   */
+  get cacheStats(): Readonly<Ref<ResponseCacheStats>> {
+    return this.cache.stats
+  }
+
+  /**
+   * 清理过期缓存，并淘汰到大小预算以内
    */
   async cleanupCache(): Promise<void> {
     try {
-      await this.storeService.initStore?.()
-      const keys = await this.storeService.getKeys?.()
-      if (keys && Array.isArray(keys)) {
-        const now = Date.now()
-        for (const key of keys) {
-          if (typeof key === 'string' && key.startsWith('cache:')) {
-            const item = await this.storeService.getItem<{ expiresAt?: string }>(key)
-            const expire = item?.expiresAt ? new Date(item.expiresAt).getTime() : Infinity
-            if (now >= expire) {
-              await this.storeService.deleteItem(key)
-            }
-          }
-        }
-      }
+      await this.init()
+      await this.cache.deleteExpired()
+      await this.cache.prune()
     }
     catch (err) {
       console.warn('清理缓存失败:', err)
@@ -389,20 +796,26 @@ export class APIService {
    */
   async clearEndpointCache(endpointId: number): Promise<void> {
     try {
-      await this.storeService.initStore?.()
-      const keys = await this.storeService.getKeys?.()
-      if (keys && Array.isArray(keys)) {
-        for (const key of keys) {
-          if (typeof key === 'string' && key.startsWith(`cache:endpoint_${endpointId}_`)) {
-            await this.storeService.deleteItem(key)
-          }
-        }
-      }
+      await this.init()
+      await this.cache.invalidate([CacheTags.endpoint(endpointId)])
     }
     catch (err) {
       console.warn('清理指定接口缓存失败:', err)
     }
   }
+
+  /**
+   * 按标签清理缓存，标签见 CacheTags
+   */
+  async invalidateCache(tags: string[]): Promise<void> {
+    try {
+      await this.init()
+      await this.cache.invalidate(tags)
+    }
+    catch (err) {
+      console.warn('按标签清理缓存失败:', err)
+    }
+  }
 }
 
 // ============= Composable =============
@@ -423,15 +836,15 @@ export function useAPIService() {
   /**
    * 获取接口数据
    */
-  const fetchData = async (
+  const fetchData = async <T = any>(
     endpointId: number,
     options: FetchOptions = {},
-  ): Promise<ApiResponse | null> => {
+  ): Promise<ApiResponse<T> | null> => {
     isLoading.value = true
     error.value = null
 
     try {
-      const response = await globalAPIService!.fetchEndpointData(endpointId, options)
+      const response = await globalAPIService!.fetchEndpointData<T>(endpointId, options)
       return response
     }
     catch (err) {
@@ -521,6 +934,9 @@ export function useAPIService() {
     // 状态
     isLoading: readonly(isLoading),
     error: readonly(error),
+    circuitStates: globalAPIService.circuitStates,
+    queueStats: globalAPIService.queueStats,
+    cacheStats: globalAPIService.cacheStats,
 
     // 方法
     fetchData,
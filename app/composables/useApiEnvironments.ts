@@ -0,0 +1,156 @@
+/**
+ * 接口环境 Composable
+ * 按环境（如 dev / staging / prod）保存一组变量，当前环境的变量应用到所有接口请求，保存在 SQLite 的 settings 表中
+ */
+
+import type { TemplateVariables } from './useTauriHTTP'
+import { computed, readonly, shallowRef } from 'vue'
+import { useSettingRepository } from './repositories/useSettingRepository'
+
+const ENVIRONMENTS_KEY = 'environments:list'
+const ACTIVE_KEY = 'environments:active'
+
+// ============= 类型定义 =============
+
+/**
+ * 接口环境
+ */
+export interface ApiEnvironment {
+  id: string
+  name: string
+  variables: TemplateVariables
+}
+
+// ============= 共享状态 =============
+
+const environments = shallowRef<ApiEnvironment[]>([])
+const activeId = shallowRef<string | null>(null)
+let loadPromise: Promise<void> | null = null
+
+function createEnvironmentId(): string {
+  return globalThis.crypto?.randomUUID?.() ?? `${Date.now()}-${Math.random().toString(36).slice(2)}`
+}
+
+/**
+ * 从 settings 表读取环境列表与当前环境
+ */
+async function readEnvironments() {
+  const { getSetting } = useSettingRepository()
+  const [list, active] = await Promise.all([getSetting(ENVIRONMENTS_KEY), getSetting(ACTIVE_KEY)])
+
+  let parsed: ApiEnvironment[] = []
+  try {
+    parsed = list ? JSON.parse(list) : []
+  }
+  catch {
+    console.warn('[Environments] 环境列表格式不正确，已忽略')
+  }
+
+  environments.value = Array.isArray(parsed) ? parsed : []
+  activeId.value = environments.value.some(env => env.id === active) ? active : null
+}
+
+/**
+ * 加载环境，重复调用只读取一次；失败时不使用任何环境
+ */
+export function loadEnvironments(): Promise<void> {
+  loadPromise ??= readEnvironments().catch((err) => {
+    loadPromise = null
+    console.warn('[Environments] 读取环境失败:', err)
+  })
+  return loadPromise
+}
+
+/**
+ * 获取当前环境的变量，未选择环境时返回空对象
+ */
+export async function getActiveVariables(): Promise<TemplateVariables> {
+  await loadEnvironments()
+  return environments.value.find(env => env.id === activeId.value)?.variables ?? {}
+}
+
+// ============= Composable =============
+
+export function useApiEnvironments() {
+  const { isLoading, error, setSetting, deleteSetting } = useSettingRepository()
+
+  const active = computed(() => environments.value.find(env => env.id === activeId.value) ?? null)
+
+  async function save(list: ApiEnvironment[]) {
+    await setSetting(ENVIRONMENTS_KEY, JSON.stringify(list))
+    environments.value = list
+  }
+
+  /**
+   * 新建环境
+   */
+  async function create(name: string, variables: TemplateVariables = {}): Promise<ApiEnvironment> {
+    await loadEnvironments()
+    const environment: ApiEnvironment = { id: createEnvironmentId(), name: name.trim() || '未命名环境', variables }
+    await save([...environments.value, environment])
+    return environment
+  }
+
+  /**
+   * 更新环境名称或变量
+   */
+  async function update(id: string, changes: Partial<Omit<ApiEnvironment, 'id'>>) {
+    await loadEnvironments()
+    if (!environments.value.some(env => env.id === id))
+      throw new Error(`环境不存在: ${id}`)
+    await save(environments.value.map(env => env.id === id ? { ...env, ...changes, id } : env))
+  }
+
+  /**
+   * 设置当前环境的单个变量
+   */
+  async function setVariable(name: string, value: string) {
+    if (!active.value)
+      throw new Error('未选择环境')
+    await update(active.value.id, { variables: { ...active.value.variables, [name]: value } })
+  }
+
+  /**
+   * 删除环境，删除当前环境时不再使用任何环境
+   */
+  async function remove(id: string) {
+    await loadEnvironments()
+    await save(environments.value.filter(env => env.id !== id))
+    if (activeId.value === id)
+      await setActive(null)
+  }
+
+  /**
+   * 切换当前环境，传入 null 时不使用环境
+   */
+  async function setActive(id: string | null) {
+    await loadEnvironments()
+    if (id && !environments.value.some(env => env.id === id))
+      throw new Error(`环境不存在: ${id}`)
+
+    if (id)
+      await setSetting(ACTIVE_KEY, id)
+    else
+      await deleteSetting(ACTIVE_KEY)
+    activeId.value = id
+  }
+
+  return {
+    // 状态
+    environments: readonly(environments),
+    activeId: readonly(activeId),
+    active,
+    isLoading,
+    error,
+
+    // 方法
+    load: loadEnvironments,
+    create,
+    update,
+    setVariable,
+    remove,
+    setActive,
+  }
+}
+
+export default useApiEnvironments
@@ -0,0 +1,523 @@
+/**
+ * OAuth2 认证管理
+ * 按服务器保存访问令牌与刷新令牌，过期前主动刷新、401 时被动刷新（同一服务器只发起一次刷新），
+ * 支持密码、客户端凭据与授权码 + PKCE 三种授权方式
+ */
+
+import { getCurrentScope, onScopeDispose, readonly, shallowRef } from 'vue'
+import { createHTTPClient, HTTPStatusError } from './useTauriHTTP'
+import { useTauriStore } from './useTauriStore'
+
+// ============= 类型定义 =============
+
+/**
+ * 授权方式
+ */
+export type OAuthGrant = 'password' | 'client_credentials' | 'authorization_code'
+
+/**
+ * OAuth2 客户端配置
+ */
+export interface OAuthClientConfig {
+  tokenUrl: string
+  clientId: string
+  clientSecret?: string
+  scope?: string
+  /** 授权码流程的授权地址 */
+  authorizeUrl?: string
+  /** 授权码流程的回调地址 */
+  redirectUri?: string
+  /** 距离过期多少秒内主动刷新，默认 60 */
+  refreshLeeway?: number
+}
+
+/**
+ * 令牌
+ */
+export interface OAuthTokens {
+  accessToken: string
+  tokenType: string
+  refreshToken?: string
+  /** 过期时间戳（毫秒），服务器未返回 expires_in 时为 null */
+  expiresAt: number | null
+  scope?: string
+  /** 获取令牌时使用的授权方式 */
+  grant: OAuthGrant
+  /**
+   * 令牌所属账号：JWT 的 sub、密码模式的用户名或客户端 ID，都没有时为登录时生成的随机标识；刷新后保持不变
+   */
+  subject?: string
+}
+
+/**
+ * 需要重新认证时的监听函数
+ */
+export type ReauthListener = (serverUrl: string, reason: unknown) => void
+
+/**
+ * 单个服务器的认证状态（持久化到 Store）
+ */
+interface ServerAuthState {
+  config: OAuthClientConfig
+  tokens: OAuthTokens | null
+}
+
+/**
+ * 进行中的授权码请求
+ */
+interface PendingAuthorization {
+  serverUrl: string
+  codeVerifier: string
+}
+
+/**
+ * 授权服务器返回的错误，如 invalid_grant
+ */
+export class OAuthError extends Error {
+  readonly error: string
+  readonly description?: string
+  readonly status?: number
+
+  constructor(error: string, description?: string, status?: number) {
+    super(description ? `${error}: ${description}` : error)
+    this.name = 'OAuthError'
+    this.error = error
+    this.description = description
+    this.status = status
+  }
+}
+
+// ============= 工具函数 =============
+
+function base64url(bytes: Uint8Array): string {
+  let binary = ''
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte)
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function randomString(byteLength: number): string {
+  return base64url(crypto.getRandomValues(new Uint8Array(byteLength)))
+}
+
+/**
+ * 读取 JWT 的 sub，令牌不是 JWT 时返回 undefined
+ */
+function jwtSubject(token: unknown): string | undefined {
+  if (typeof token !== 'string' || token.split('.').length !== 3)
+    return undefined
+  try {
+    const payload = token.split('.')[1]!.replace(/-/g, '+').replace(/_/g, '/')
+    const claims = JSON.parse(atob(payload.padEnd(Math.ceil(payload.length / 4) * 4, '=')))
+    return typeof claims?.sub === 'string' ? claims.sub : undefined
+  }
+  catch {
+    return undefined
+  }
+}
+
+/**
+ * 生成 PKCE 的 code_challenge（S256）
+ */
+async function createCodeChallenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier))
+  return base64url(new Uint8Array(digest))
+}
+
+/**
+ * 生成令牌的 Authorization 请求头，按令牌的 token_type 选择认证方案（bearer 统一写作 Bearer）
+ */
+export function formatAuthorization(tokens: Pick<OAuthTokens, 'accessToken' | 'tokenType'>): string {
+  const scheme = !tokens.tokenType || /^bearer$/i.test(tokens.tokenType) ? 'Bearer' : tokens.tokenType
+  return `${scheme} ${tokens.accessToken}`
+}
+
+// ============= 认证管理器 =============
+
+export class AuthManager {
+  /** 需要重新认证的服务器地址 */
+  readonly reauthRequired = shallowRef<string[]>([])
+
+  private servers = new Map<string, ServerAuthState>()
+  private refreshing = new Map<string, Promise<OAuthTokens>>()
+  private pending = new Map<string, PendingAuthorization>()
+  private listeners = new Set<ReauthListener>()
+  // 令牌请求不经过业务拦截器，也不重试
+  private http = createHTTPClient({ retry: { maxAttempts: 1 }, circuitBreaker: false })
+  private store = useTauriStore()
+
+  private storeKey(serverUrl: string) {
+    return `oauth:${serverUrl}`
+  }
+
+  /**
+   * 读取服务器的认证状态
+   */
+  private async getState(serverUrl: string): Promise<ServerAuthState | null> {
+    if (!this.servers.has(serverUrl)) {
+      await this.store.initStore()
+      const saved = await this.store.getItem<ServerAuthState>(this.storeKey(serverUrl))
+      if (saved)
+        this.servers.set(serverUrl, saved)
+    }
+    return this.servers.get(serverUrl) ?? null
+  }
+
+  private async saveState(serverUrl: string, state: ServerAuthState) {
+    this.servers.set(serverUrl, state)
+    await this.store.initStore()
+    await this.store.setItem(this.storeKey(serverUrl), state)
+  }
+
+  /**
+   * 配置服务器的 OAuth2 客户端，已有令牌保留
+   */
+  async configure(serverUrl: string, config: OAuthClientConfig) {
+    const state = await this.getState(serverUrl)
+    await this.saveState(serverUrl, { config, tokens: state?.tokens ?? null })
+  }
+
+  /**
+   * 移除服务器的 OAuth2 配置与令牌，之后该服务器回退到静态 Token
+   */
+  async unconfigure(serverUrl: string) {
+    this.servers.delete(serverUrl)
+    this.reauthRequired.value = this.reauthRequired.value.filter(url => url !== serverUrl)
+    await this.store.initStore()
+    await this.store.deleteItem(this.storeKey(serverUrl))
+  }
+
+  /**
+   * 服务器是否启用了 OAuth2
+   */
+  async isConfigured(serverUrl: string): Promise<boolean> {
+    return (await this.getState(serverUrl)) !== null
+  }
+
+  /**
+   * 认证身份：客户端 ID 加令牌所属账号，未登录时为 anonymous；不会触发刷新，令牌轮换后保持不变
+   * 未配置 OAuth2 时返回 null
+   */
+  async getIdentity(serverUrl: string): Promise<string | null> {
+    const state = await this.getState(serverUrl)
+    if (!state)
+      return null
+    const tokens = state.tokens
+    return `${state.config.clientId}:${tokens ? tokens.subject ?? tokens.grant : 'anonymous'}`
+  }
+
+  /**
+   * 获取当前令牌
+   */
+  async getTokens(serverUrl: string): Promise<OAuthTokens | null> {
+    return (await this.getState(serverUrl))?.tokens ?? null
+  }
+
+  /**
+   * 获取可用的访问令牌，即将过期时先刷新；未登录或刷新失败时返回 null
+   */
+  async getAccessToken(serverUrl: string): Promise<string | null> {
+    return (await this.getValidTokens(serverUrl))?.accessToken ?? null
+  }
+
+  /**
+   * 获取可用令牌的 Authorization 请求头，认证方案取自令牌的 token_type；未登录或刷新失败时返回 null
+   */
+  async getAuthorization(serverUrl: string): Promise<string | null> {
+    const tokens = await this.getValidTokens(serverUrl)
+    return tokens ? formatAuthorization(tokens) : null
+  }
+
+  /**
+   * 获取未过期的令牌，即将过期时先刷新
+   */
+  private async getValidTokens(serverUrl: string): Promise<OAuthTokens | null> {
+    const state = await this.getState(serverUrl)
+    const tokens = state?.tokens
+    if (!state || !tokens)
+      return null
+
+    const leeway = (state.config.refreshLeeway ?? 60) * 1000
+    if (tokens.expiresAt !== null && tokens.expiresAt - leeway <= Date.now()) {
+      try {
+        return await this.refresh(serverUrl)
+      }
+      catch (err) {
+        console.warn(`[Auth] 刷新令牌失败: ${serverUrl}`, err)
+        return null
+      }
+    }
+    return tokens
+  }
+
+  /**
+   * 刷新令牌，同一服务器的并发调用共享一次刷新
+   * 传入被拒绝的令牌时，若令牌已被其他请求刷新则直接返回新令牌
+   */
+  refresh(serverUrl: string, rejectedToken?: string): Promise<OAuthTokens> {
+    const inflight = this.refreshing.get(serverUrl)
+    if (inflight)
+      return inflight
+
+    const promise = (async () => {
+      const state = await this.getState(serverUrl)
+      if (!state)
+        throw new OAuthError('not_configured', `服务器 ${serverUrl} 未配置 OAuth2`)
+
+      const current = state.tokens
+      if (rejectedToken && current && current.accessToken !== rejectedToken)
+        return current
+
+      let tokens: OAuthTokens
+      if (current?.refreshToken) {
+        tokens = await this.requestToken(state.config, 'refresh_token', current.grant, {
+          refresh_token: current.refreshToken,
+        }, current.refreshToken)
+        tokens.subject = current.subject ?? tokens.subject
+      }
+      else if (current?.grant === 'client_credentials') {
+        // 客户端凭据模式可直接重新获取
+        tokens = await this.requestToken(state.config, 'client_credentials', 'client_credentials', this.scopeParams(state.config))
+      }
+      else {
+        throw new OAuthError('login_required', '没有可用的刷新令牌，需要重新登录')
+      }
+
+      // 刷新期间配置被移除时不再写回
+      if (this.servers.has(serverUrl))
+        await this.saveState(serverUrl, { ...state, tokens })
+      return tokens
+    })()
+      .catch((err) => {
+        // 授权服务器拒绝时需要重新登录；网络错误只向上抛出
+        if (err instanceof OAuthError)
+          this.requireReauth(serverUrl, err)
+        throw err
+      })
+      .finally(() => {
+        this.refreshing.delete(serverUrl)
+      })
+
+    this.refreshing.set(serverUrl, promise)
+    return promise
+  }
+
+  /**
+   * 密码模式登录
+   */
+  async loginWithPassword(serverUrl: string, username: string, password: string): Promise<OAuthTokens> {
+    const config = await this.requireConfig(serverUrl)
+    const tokens = await this.requestToken(config, 'password', 'password', {
+      username,
+      password,
+      ...this.scopeParams(config),
+    })
+    return this.completeLogin(serverUrl, tokens, username)
+  }
+
+  /**
+   * 客户端凭据模式登录
+   */
+  async loginWithClientCredentials(serverUrl: string): Promise<OAuthTokens> {
+    const config = await this.requireConfig(serverUrl)
+    const tokens = await this.requestToken(config, 'client_credentials', 'client_credentials', this.scopeParams(config))
+    return this.completeLogin(serverUrl, tokens, config.clientId)
+  }
+
+  /**
+   * 生成授权码 + PKCE 的授权地址，由调用方在浏览器中打开
+   */
+  async createAuthorizationURL(serverUrl: string): Promise<string> {
+    const config = await this.requireConfig(serverUrl)
+    if (!config.authorizeUrl || !config.redirectUri)
+      throw new OAuthError('invalid_config', '授权码流程需要配置 authorizeUrl 与 redirectUri')
+
+    const codeVerifier = randomString(32)
+    const state = randomString(16)
+    this.pending.set(state, { serverUrl, codeVerifier })
+
+    const url = new URL(config.authorizeUrl)
+    url.searchParams.set('response_type', 'code')
+    url.searchParams.set('client_id', config.clientId)
+    url.searchParams.set('redirect_uri', config.redirectUri)
+    url.searchParams.set('state', state)
+    url.searchParams.set('code_challenge', await createCodeChallenge(codeVerifier))
+    url.searchParams.set('code_challenge_method', 'S256')
+    if (config.scope)
+      url.searchParams.set('scope', config.scope)
+    return url.toString()
+  }
+
+  /**
+   * 处理授权回调地址，用授权码换取令牌
+   */
+  async completeAuthorization(callbackUrl: string): Promise<OAuthTokens> {
+    const params = new URL(callbackUrl).searchParams
+    const error = params.get('error')
+    if (error)
+      throw new OAuthError(error, params.get('error_description') ?? undefined)
+
+    const pending = this.pending.get(params.get('state') ?? '')
+    const code = params.get('code')
+    if (!pending || !code)
+      throw new OAuthError('invalid_state', '授权回调无效或已过期')
+    this.pending.delete(params.get('state')!)
+
+    const config = await this.requireConfig(pending.serverUrl)
+    const tokens = await this.requestToken(config, 'authorization_code', 'authorization_code', {
+      code,
+      redirect_uri: config.redirectUri ?? '',
+      code_verifier: pending.codeVerifier,
+    })
+    return this.completeLogin(pending.serverUrl, tokens, randomString(16))
+  }
+
+  /**
+   * 退出登录，清除令牌
+   */
+  async logout(serverUrl: string) {
+    const state = await this.getState(serverUrl)
+    if (state)
+      await this.saveState(serverUrl, { ...state, tokens: null })
+  }
+
+  /**
+   * 监听需要重新认证的事件，返回取消监听函数
+   */
+  onReauthRequired(listener: ReauthListener): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  /**
+   * 标记服务器需要重新认证并通知监听者
+   */
+  requireReauth(serverUrl: string, reason?: unknown) {
+    if (!this.reauthRequired.value.includes(serverUrl))
+      this.reauthRequired.value = [...this.reauthRequired.value, serverUrl]
+
+    console.warn(`[Auth] 服务器需要重新认证: ${serverUrl}`, reason)
+    for (const listener of this.listeners) {
+      listener(serverUrl, reason)
+    }
+  }
+
+  /**
+   * 保存登录得到的令牌，令牌不含 sub 时以 subject 标识账号
+   */
+  private async completeLogin(serverUrl: string, tokens: OAuthTokens, subject: string): Promise<OAuthTokens> {
+    tokens.subject ??= subject
+    const state = await this.getState(serverUrl)
+    await this.saveState(serverUrl, { config: state!.config, tokens })
+    this.reauthRequired.value = this.reauthRequired.value.filter(url => url !== serverUrl)
+    return tokens
+  }
+
+  private async requireConfig(serverUrl: string): Promise<OAuthClientConfig> {
+    const state = await this.getState(serverUrl)
+    if (!state)
+      throw new OAuthError('not_configured', `服务器 ${serverUrl} 未配置 OAuth2`)
+    return state.config
+  }
+
+  private scopeParams(config: OAuthClientConfig): Record<string, string> {
+    return config.scope ? { scope: config.scope } : {}
+  }
+
+  /**
+   * 请求令牌端点
+   */
+  private async requestToken(
+    config: OAuthClientConfig,
+    grantType: string,
+    grant: OAuthGrant,
+    params: Record<string, string>,
+    previousRefreshToken?: string,
+  ): Promise<OAuthTokens> {
+    const body = new URLSearchParams({ grant_type: grantType, client_id: config.clientId, ...params })
+    if (config.clientSecret)
+      body.set('client_secret', config.clientSecret)
+
+    try {
+      const { data } = await this.http.post(config.tokenUrl, body, {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'Accept': 'application/json' },
+        responseType: 'json',
+      })
+
+      if (!data?.access_token)
+        throw new OAuthError('invalid_response', '令牌响应缺少 access_token')
+
+      return {
+        accessToken: data.access_token,
+        tokenType: data.token_type ?? 'Bearer',
+        refreshToken: data.refresh_token ?? previousRefreshToken,
+        expiresAt: data.expires_in ? Date.now() + Number(data.expires_in) * 1000 : null,
+        scope: data.scope,
+        grant,
+        subject: jwtSubject(data.id_token) ?? jwtSubject(data.access_token),
+      }
+    }
+    catch (err) {
+      if (err instanceof HTTPStatusError && typeof err.body?.error === 'string')
+        throw new OAuthError(err.body.error, err.body.error_description, err.status)
+      // 响应体不是标准错误格式时，400/401 同样视为授权服务器拒绝
+      if (err instanceof HTTPStatusError && (err.status === 400 || err.status === 401))
+        throw new OAuthError('request_rejected', `令牌端点返回 ${err.status}`, err.status)
+      throw err
+    }
+  }
+}
+
+// ============= Composable =============
+
+let globalAuthManager: AuthManager | null = null
+
+/**
+ * 获取全局认证管理器
+ */
+export function getAuthManager() {
+  return globalAuthManager || (globalAuthManager = new AuthManager())
+}
+
+/**
+ * 认证管理 Composable
+ * 组件卸载时自动取消 onReauthRequired 监听
+ */
+export function useAuthManager() {
+  const manager = getAuthManager()
+  const subscriptions: Array<() => void> = []
+
+  /**
+   * 监听需要重新认证的事件
+   */
+  function onReauthRequired(listener: ReauthListener) {
+    const off = manager.onReauthRequired(listener)
+    subscriptions.push(off)
+    return off
+  }
+
+  if (getCurrentScope()) {
+    onScopeDispose(() => subscriptions.forEach(off => off()))
+  }
+
+  return {
+    // 管理器实例
+    manager,
+
+    // 响应式状态
+    reauthRequired: readonly(manager.reauthRequired),
+
+    // 方法
+    configure: manager.configure.bind(manager),
+    unconfigure: manager.unconfigure.bind(manager),
+    loginWithPassword: manager.loginWithPassword.bind(manager),
+    loginWithClientCredentials: manager.loginWithClientCredentials.bind(manager),
+    createAuthorizationURL: manager.createAuthorizationURL.bind(manager),
+    completeAuthorization: manager.completeAuthorization.bind(manager),
+    logout: manager.logout.bind(manager),
+    onReauthRequired,
+  }
+}
+
+export default useAuthManager
@@ -0,0 +1,144 @@
+/**
+ * Cookie 容器 Composable
+ * 按服务器（ServerConfig.url）与用户配置隔离 Cookie，持久化 Cookie 保存在独立的 Store 文件中
+ */
+
+import type { Cookie } from './http/cookies'
+import { readonly, ref } from 'vue'
+import { CookieJar } from './http/cookies'
+import { useTauriStore } from './useTauriStore'
+
+const COOKIE_STORE_FILE = 'cookies.bin'
+const DEFAULT_PROFILE = 'default'
+
+// ============= 共享状态 =============
+
+const profile = ref(DEFAULT_PROFILE)
+const jars = new Map<string, Promise<CookieJar>>()
+let store: ReturnType<typeof useTauriStore> | null = null
+
+function getStore() {
+  return store ??= useTauriStore(COOKIE_STORE_FILE)
+}
+
+function getKeyPrefix(profileName: string) {
+  return `cookies:${profileName}:`
+}
+
+/**
+ * 读取保存的 Cookie 并创建容器，Store 不可用时只保存在内存中
+ */
+async function loadJar(key: string): Promise<CookieJar> {
+  let saved: Cookie[] | null = null
+  let persistent = true
+  try {
+    await getStore().initStore()
+    saved = await getStore().getItem<Cookie[]>(key)
+  }
+  catch (err) {
+    persistent = false
+    console.warn('[Cookie] 读取 Cookie 失败，仅保存在内存中:', err)
+  }
+
+  const jar = new CookieJar(Array.isArray(saved) ? saved : [])
+  if (persistent) {
+    jar.onChange = (changed) => {
+      getStore().setItem(key, changed.toJSON()).catch(err => console.warn('[Cookie] 保存 Cookie 失败:', err))
+    }
+  }
+  return jar
+}
+
+/**
+ * 获取当前用户配置下服务器的 Cookie 容器
+ */
+export function getCookieJar(serverUrl: string): Promise<CookieJar> {
+  const key = `${getKeyPrefix(profile.value)}${serverUrl}`
+  let jar = jars.get(key)
+  if (!jar) {
+    jar = loadJar(key)
+    jars.set(key, jar)
+  }
+  return jar
+}
+
+/**
+ * 当前用户配置名称
+ */
+export function getCookieProfile(): string {
+  return profile.value
+}
+
+// ============= Composable =============
+
+export function useCookieJar() {
+  /**
+   * 切换用户配置，之后的请求使用该配置下的 Cookie
+   */
+  function setProfile(name: string) {
+    profile.value = name || DEFAULT_PROFILE
+  }
+
+  /**
+   * 获取服务器当前保存的 Cookie
+   */
+  async function getCookies(serverUrl: string): Promise<Cookie[]> {
+    return (await getCookieJar(serverUrl)).cookies.value
+  }
+
+  /**
+   * 删除服务器的指定 Cookie
+   */
+  async function remove(serverUrl: string, name: string, domain?: string, path?: string) {
+    (await getCookieJar(serverUrl)).remove(name, domain, path)
+  }
+
+  /**
+   * 清空服务器的 Cookie，未指定服务器时清空当前用户配置下的所有 Cookie
+   */
+  async function clear(serverUrl?: string) {
+    if (serverUrl) {
+      (await getCookieJar(serverUrl)).clear()
+      return
+    }
+    await clearProfile(profile.value)
+  }
+
+  /**
+   * 清空用户配置下的所有 Cookie（含未加载的服务器）
+   */
+  async function clearProfile(name: string) {
+    const prefix = getKeyPrefix(name)
+    for (const [key, jar] of jars) {
+      if (key.startsWith(prefix))
+        (await jar).clear()
+    }
+
+    try {
+      await getStore().initStore()
+      const keys = await getStore().getKeys()
+      for (const key of keys) {
+        if (key.startsWith(prefix))
+          await getStore().deleteItem(key)
+      }
+    }
+    catch (err) {
+      console.warn('[Cookie] 清空 Cookie 失败:', err)
+    }
+  }
+
+  return {
+    // 状态
+    profile: readonly(profile),
+
+    // 方法
+    setProfile,
+    getJar: getCookieJar,
+    getCookies,
+    remove,
+    clear,
+    clearProfile,
+  }
+}
+
+export default useCookieJar
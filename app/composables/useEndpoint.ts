@@ -0,0 +1,310 @@
+/**
+ * 接口数据 Composable
+ * 按接口与参数订阅数据：先返回缓存，过期时在后台重新验证；参数变化或窗口重新获得焦点时自动刷新，支持乐观更新
+ */
+
+import type { MaybeRefOrGetter, Ref, ShallowRef } from 'vue'
+import type { ApiResponse, FetchOptions } from './useAPIService'
+import { computed, getCurrentScope, onScopeDispose, ref, shallowRef, toValue, watch } from 'vue'
+import { useAPIService } from './useAPIService'
+
+// ============= 类型定义 =============
+
+/**
+ * 查询状态
+ * loading 为首次加载（没有数据），refreshing 为已有数据时的后台刷新
+ */
+export type EndpointStatus = 'idle' | 'loading' | 'refreshing' | 'success' | 'error'
+
+/**
+ * useEndpoint 选项
+ */
+export interface UseEndpointOptions extends Pick<FetchOptions, 'customHeaders' | 'variables' | 'priority' | 'schema' | 'validation'> {
+  /** 是否立即加载，默认 true */
+  immediate?: boolean
+  /** 窗口重新获得焦点时刷新，默认 true */
+  revalidateOnFocus?: boolean
+  /** 两次焦点刷新的最小间隔（毫秒），默认 5000 */
+  focusThrottle?: number
+}
+
+/**
+ * 乐观更新选项
+ */
+export interface EndpointMutateOptions {
+  /** 实际执行修改的请求，失败时回滚到修改前的数据 */
+  action?: () => Promise<unknown>
+  /** 修改完成后是否重新请求，有 action 时默认 true，否则默认 false */
+  revalidate?: boolean
+}
+
+/**
+ * 同一接口与参数共享的查询状态
+ */
+interface EndpointQuery {
+  endpointId: number
+  options: FetchOptions
+  data: ShallowRef<unknown>
+  status: Ref<EndpointStatus>
+  error: ShallowRef<Error | null>
+  isStale: Ref<boolean>
+  timestamp: Ref<string | null>
+  /** 每次乐观更新递增，丢弃更新前发出的请求结果 */
+  version: number
+  inflight: Promise<void> | null
+  inflightVersion: number
+  lastFetchedAt: number
+  /** 数据按接口缓存时长过期的时间戳 */
+  expiresAt: number
+  subscribers: number
+}
+
+// ============= 共享状态 =============
+
+const queries = new Map<string, EndpointQuery>()
+
+function acquireQuery(key: string, endpointId: number, options: FetchOptions): EndpointQuery {
+  let query = queries.get(key)
+  if (!query) {
+    query = {
+      endpointId,
+      options,
+      data: shallowRef(undefined),
+      status: ref('idle'),
+      error: shallowRef(null),
+      isStale: ref(false),
+      timestamp: ref(null),
+      version: 0,
+      inflight: null,
+      inflightVersion: -1,
+      lastFetchedAt: 0,
+      expiresAt: 0,
+      subscribers: 0,
+    }
+    queries.set(key, query)
+  }
+  query.subscribers++
+  return query
+}
+
+function releaseQuery(key: string) {
+  const query = queries.get(key)
+  if (query && --query.subscribers <= 0)
+    queries.delete(key)
+}
+
+/**
+ * 数据的过期时间：获取时间加上接口的缓存时长
+ */
+function expiresAtOf(response: ApiResponse): number {
+  return Date.parse(response.timestamp) + response.endpoint.cacheDuration * 1000
+}
+
+/**
+ * 加载查询数据，同一版本的并发请求只发起一次
+ * 非强制时优先使用缓存：未过期直接返回，已过期先返回缓存再后台请求
+ */
+function loadQuery(query: EndpointQuery, force: boolean): Promise<void> {
+  if (query.inflight && query.inflightVersion === query.version)
+    return query.inflight
+
+  const version = query.version
+  const run = (async () => {
+    const { service } = useAPIService()
+
+    if (!force) {
+      if (query.data.value !== undefined && !query.isStale.value) {
+        if (Date.now() < query.expiresAt)
+          return
+        // 内存中的数据已超过缓存时长，继续展示并在后台重新请求
+        query.isStale.value = true
+      }
+
+      const cached = query.data.value === undefined
+        ? await service.getCachedEndpointData(query.endpointId, query.options).catch(() => null)
+        : null
+      if (cached && version === query.version) {
+        query.data.value = cached.data
+        query.timestamp.value = cached.timestamp
+        query.expiresAt = expiresAtOf(cached)
+        query.isStale.value = cached.expired
+        if (!cached.expired) {
+          query.status.value = 'success'
+          return
+        }
+      }
+    }
+
+    query.status.value = query.data.value === undefined ? 'loading' : 'refreshing'
+    try {
+      const response = await service.fetchEndpointData(query.endpointId, { ...query.options, forceRefresh: true })
+      query.lastFetchedAt = Date.now()
+      if (version === query.version) {
+        query.data.value = response.data
+        query.timestamp.value = response.timestamp
+        query.expiresAt = expiresAtOf(response)
+        query.isStale.value = false
+      }
+      query.error.value = null
+      query.status.value = 'success'
+    }
+    catch (err) {
+      query.error.value = err instanceof Error ? err : new Error(String(err))
+      query.isStale.value = query.data.value !== undefined
+      query.status.value = 'error'
+      console.error(`[Endpoint] 接口 ${query.endpointId} 请求失败:`, err)
+    }
+  })().finally(() => {
+    if (query.inflight === run)
+      query.inflight = null
+  })
+
+  query.inflight = run
+  query.inflightVersion = version
+  return run
+}
+
+// ============= Composable =============
+
+/**
+ * 订阅接口数据
+ * endpointId 为 null 时不加载；params 作为 customParams 传给 APIService，变化时切换到对应的查询
+ */
+export function useEndpoint<T = any>(
+  endpointId: MaybeRefOrGetter<number | null | undefined>,
+  params: MaybeRefOrGetter<Record<string, any> | undefined> = undefined,
+  options: UseEndpointOptions = {},
+) {
+  const {
+    immediate = true,
+    revalidateOnFocus = true,
+    focusThrottle = 5000,
+    ...fetchOptions
+  } = options
+
+  const current = shallowRef<{ key: string, query: EndpointQuery } | null>(null)
+  /** 是否已开始加载，之后参数变化时自动加载新的查询 */
+  let started = immediate
+
+  const data = computed(() => current.value?.query.data.value as T | undefined)
+  const status = computed<EndpointStatus>(() => current.value?.query.status.value ?? 'idle')
+  const error = computed(() => current.value?.query.error.value ?? null)
+  const isStale = computed(() => current.value?.query.isStale.value ?? false)
+  const timestamp = computed(() => current.value?.query.timestamp.value ?? null)
+  const isLoading = computed(() => status.value === 'loading' || status.value === 'refreshing')
+
+  /**
+   * 切换到当前接口与参数对应的查询
+   */
+  function subscribe() {
+    const id = toValue(endpointId)
+    const customParams = toValue(params)
+    const key = id == null ? null : JSON.stringify([id, customParams ?? {}, fetchOptions.customHeaders ?? {}, fetchOptions.variables ?? {}])
+    if (key === (current.value?.key ?? null))
+      return false
+
+    if (current.value)
+      releaseQuery(current.value.key)
+    current.value = id == null || key === null
+      ? null
+      : { key, query: acquireQuery(key, id, { ...fetchOptions, customParams }) }
+    return current.value !== null
+  }
+
+  /**
+   * 加载数据，有未过期的缓存时不发送请求
+   */
+  async function load() {
+    started = true
+    if (current.value)
+      await loadQuery(current.value.query, false)
+  }
+
+  /**
+   * 忽略缓存重新请求
+   */
+  async function refresh() {
+    started = true
+    if (current.value)
+      await loadQuery(current.value.query, true)
+  }
+
+  /**
+   * 乐观更新数据
+   * 立即替换数据；传入 action 时等待其完成，失败则回滚并抛出错误，成功后重新请求
+   */
+  async function mutate(updater: T | ((current: T | undefined) => T), mutateOptions: EndpointMutateOptions = {}) {
+    const query = current.value?.query
+    if (!query)
+      return
+
+    const { action, revalidate = !!action } = mutateOptions
+    const previous = query.data.value as T | undefined
+    query.version++
+    query.data.value = typeof updater === 'function' ? (updater as (current: T | undefined) => T)(previous) : updater
+
+    if (action) {
+      try {
+        await action()
+      }
+      catch (err) {
+        query.data.value = previous
+        throw err
+      }
+    }
+
+    if (revalidate)
+      await loadQuery(query, true)
+  }
+
+  watch(
+    () => [toValue(endpointId), JSON.stringify(toValue(params) ?? {})],
+    () => {
+      if (subscribe() && started && import.meta.client)
+        load()
+    },
+    { immediate: true },
+  )
+
+  // 窗口重新获得焦点时刷新
+  function onFocus() {
+    const query = current.value?.query
+    if (!query || !started || document.visibilityState === 'hidden' || Date.now() - query.lastFetchedAt < focusThrottle)
+      return
+    loadQuery(query, true)
+  }
+
+  if (revalidateOnFocus && import.meta.client) {
+    window.addEventListener('focus', onFocus)
+    document.addEventListener('visibilitychange', onFocus)
+  }
+
+  if (getCurrentScope()) {
+    onScopeDispose(() => {
+      if (revalidateOnFocus && import.meta.client) {
+        window.removeEventListener('focus', onFocus)
+        document.removeEventListener('visibilitychange', onFocus)
+      }
+      if (current.value)
+        releaseQuery(current.value.key)
+      current.value = null
+    })
+  }
+
+  return {
+    // 响应式状态
+    data,
+    status,
+    error,
+    isStale,
+    isLoading,
+    timestamp,
+
+    // 方法
+    load,
+    refresh,
+    mutate,
+  }
+}
+
+export default useEndpoint
@@ -0,0 +1,403 @@
+/**
+ * 接口轮询 Composable
+ * 按接口的 pollInterval 定时请求启用的接口，对比前后两次响应并发出变化事件；
+ * 窗口隐藏或离线时暂停，请求失败时按指数退避延长间隔
+ */
+
+import type { ApiEndpoint, ChangeNotification } from './useAPIService'
+import type { ValueChange } from '~/utils/diff'
+import { getCurrentScope, onScopeDispose, readonly, ref, shallowRef } from 'vue'
+import { diffValues } from '~/utils/diff'
+import { useApiEndpointRepository } from './repositories/useApiEndpointRepository'
+import { useAPIService } from './useAPIService'
+import { useDynamicIsland } from './useDynamicIsland'
+import { useTauriNotification } from './useTauriNotification'
+
+// ============= 类型定义 =============
+
+/**
+ * 轮询到的数据变化
+ */
+export interface EndpointChangeEvent {
+  endpoint: ApiEndpoint
+  previous: unknown
+  current: unknown
+  changes: ValueChange[]
+  timestamp: string
+}
+
+export type EndpointChangeListener = (event: EndpointChangeEvent) => void
+export type EndpointPollErrorListener = (endpoint: ApiEndpoint, error: Error, failures: number) => void
+
+/**
+ * 单个接口的轮询状态
+ */
+export interface EndpointPollState {
+  endpointId: number
+  /** 配置的轮询间隔（毫秒） */
+  interval: number
+  /** 连续失败次数 */
+  failures: number
+  lastPolledAt: number | null
+  nextRunAt: number | null
+  lastError: string | null
+}
+
+export interface EndpointPollerOptions {
+  /** 失败退避的最大间隔（毫秒），默认 10 分钟 */
+  maxBackoff?: number
+}
+
+interface PollTask {
+  endpoint: ApiEndpoint
+  timer: ReturnType<typeof setTimeout> | null
+  failures: number
+  /** 是否已有用于对比的数据，首次轮询只记录不发出事件 */
+  hasBaseline: boolean
+  data: unknown
+  lastPolledAt: number | null
+  nextRunAt: number | null
+  lastError: string | null
+}
+
+// ============= 轮询调度 =============
+
+/**
+ * 接口轮询调度器
+ */
+export class EndpointPoller {
+  private tasks = new Map<number, PollTask>()
+  private changeListeners = new Set<EndpointChangeListener>()
+  private errorListeners = new Set<EndpointPollErrorListener>()
+  private maxBackoff: number
+  private _states = shallowRef<EndpointPollState[]>([])
+  private _isRunning = ref(false)
+  private _isPaused = ref(false)
+
+  readonly states = readonly(this._states)
+  readonly isRunning = readonly(this._isRunning)
+  readonly isPaused = readonly(this._isPaused)
+
+  constructor(options: EndpointPollerOptions = {}) {
+    this.maxBackoff = options.maxBackoff ?? 10 * 60 * 1000
+  }
+
+  private readonly handleResume = () => this.updatePaused()
+
+  /**
+   * 窗口隐藏或离线时应暂停
+   */
+  private shouldPause(): boolean {
+    return import.meta.client && (document.visibilityState === 'hidden' || !navigator.onLine)
+  }
+
+  /**
+   * 根据窗口与网络状态暂停或恢复，恢复时立即执行已到期的轮询
+   */
+  private updatePaused() {
+    const paused = this.shouldPause()
+    if (paused === this._isPaused.value)
+      return
+
+    this._isPaused.value = paused
+    for (const task of this.tasks.values()) {
+      this.clearTimer(task)
+      if (!paused)
+        this.schedule(task, Math.max(0, (task.nextRunAt ?? 0) - Date.now()))
+    }
+    console.log(paused ? '[Poller] 已暂停轮询' : '[Poller] 已恢复轮询')
+  }
+
+  private clearTimer(task: PollTask) {
+    if (task.timer) {
+      clearTimeout(task.timer)
+      task.timer = null
+    }
+  }
+
+  /**
+   * 当前间隔，连续失败时按 2 的幂次延长，不超过 maxBackoff
+   */
+  private delayOf(task: PollTask): number {
+    const interval = (task.endpoint.pollInterval ?? 0) * 1000
+    return task.failures > 0 ? Math.min(this.maxBackoff, interval * 2 ** task.failures) : interval
+  }
+
+  private schedule(task: PollTask, delay: number) {
+    this.clearTimer(task)
+    task.nextRunAt = Date.now() + delay
+    if (this._isRunning.value && !this._isPaused.value)
+      task.timer = setTimeout(() => this.poll(task), delay)
+    this.publish()
+  }
+
+  private publish() {
+    this._states.value = [...this.tasks.values()].map(task => ({
+      endpointId: task.endpoint.id,
+      interval: (task.endpoint.pollInterval ?? 0) * 1000,
+      failures: task.failures,
+      lastPolledAt: task.lastPolledAt,
+      nextRunAt: task.nextRunAt,
+      lastError: task.lastError,
+    }))
+  }
+
+  /**
+   * 执行一次轮询，完成后若任务仍有效则安排下一次
+   */
+  private async poll(task: PollTask) {
+    task.timer = null
+    const { service } = useAPIService()
+
+    try {
+      const response = await service.fetchEndpointData(task.endpoint.id, { forceRefresh: true, priority: 'low' })
+      const previous = task.data
+      const hadBaseline = task.hasBaseline
+      task.data = response.data
+      task.hasBaseline = true
+      task.failures = 0
+      task.lastError = null
+
+      const changes = hadBaseline ? diffValues(previous, response.data) : []
+      if (changes.length > 0 && this.tasks.get(task.endpoint.id) === task) {
+        const event: EndpointChangeEvent = {
+          endpoint: task.endpoint,
+          previous,
+          current: response.data,
+          changes,
+          timestamp: response.timestamp,
+        }
+        for (const listener of this.changeListeners)
+          listener(event)
+      }
+    }
+    catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err))
+      task.failures++
+      task.lastError = error.message
+      console.warn(`[Poller] 接口 ${task.endpoint.name} 轮询失败（第 ${task.failures} 次）:`, error)
+      for (const listener of this.errorListeners)
+        listener(task.endpoint, error, task.failures)
+    }
+    finally {
+      task.lastPolledAt = Date.now()
+    }
+
+    if (this.tasks.get(task.endpoint.id) === task && !task.timer)
+      this.schedule(task, this.delayOf(task))
+    else
+      this.publish()
+  }
+
+  /**
+   * 重新读取需要轮询的接口（启用且 pollInterval > 0）
+   * 配置未变的接口保留对比数据与下次执行时间，修改过的接口重新记录基准数据
+   */
+  async reload(): Promise<void> {
+    if (!this._isRunning.value)
+      return
+
+    await useAPIService().service.init()
+    const endpoints = (await useApiEndpointRepository().getAllEndpoints())
+      .filter(endpoint => endpoint.isActive && (endpoint.pollInterval ?? 0) > 0)
+    const ids = new Set(endpoints.map(endpoint => endpoint.id))
+
+    for (const [id, task] of this.tasks) {
+      if (!ids.has(id)) {
+        this.clearTimer(task)
+        this.tasks.delete(id)
+      }
+    }
+
+    for (const endpoint of endpoints) {
+      const existing = this.tasks.get(endpoint.id)
+      if (existing && existing.endpoint.updatedAt === endpoint.updatedAt)
+        continue
+
+      if (existing)
+        this.clearTimer(existing)
+      const task: PollTask = {
+        endpoint,
+        timer: null,
+        failures: 0,
+        hasBaseline: false,
+        data: undefined,
+        lastPolledAt: null,
+        nextRunAt: null,
+        lastError: null,
+      }
+      this.tasks.set(endpoint.id, task)
+      this.schedule(task, 0)
+    }
+
+    this.publish()
+  }
+
+  /**
+   * 开始轮询
+   */
+  async start(): Promise<void> {
+    if (this._isRunning.value)
+      return
+
+    this._isRunning.value = true
+    this._isPaused.value = this.shouldPause()
+    if (import.meta.client) {
+      document.addEventListener('visibilitychange', this.handleResume)
+      window.addEventListener('online', this.handleResume)
+      window.addEventListener('offline', this.handleResume)
+    }
+
+    try {
+      await this.reload()
+    }
+    catch (err) {
+      console.error('[Poller] 读取轮询接口失败:', err)
+    }
+  }
+
+  /**
+   * 停止轮询并清除所有任务
+   */
+  stop() {
+    if (!this._isRunning.value)
+      return
+
+    this._isRunning.value = false
+    if (import.meta.client) {
+      document.removeEventListener('visibilitychange', this.handleResume)
+      window.removeEventListener('online', this.handleResume)
+      window.removeEventListener('offline', this.handleResume)
+    }
+    for (const task of this.tasks.values())
+      this.clearTimer(task)
+    this.tasks.clear()
+    this.publish()
+  }
+
+  /**
+   * 立即轮询指定接口，之后按间隔重新计时
+   */
+  async pollNow(endpointId: number): Promise<void> {
+    const task = this.tasks.get(endpointId)
+    if (!task)
+      throw new Error(`接口未在轮询中: ${endpointId}`)
+    this.clearTimer(task)
+    await this.poll(task)
+  }
+
+  /**
+   * 监听数据变化，返回取消监听的函数
+   */
+  onChange(listener: EndpointChangeListener): () => void {
+    this.changeListeners.add(listener)
+    return () => this.changeListeners.delete(listener)
+  }
+
+  /**
+   * 监听轮询失败，返回取消监听的函数
+   */
+  onError(listener: EndpointPollErrorListener): () => void {
+    this.errorListeners.add(listener)
+    return () => this.errorListeners.delete(listener)
+  }
+}
+
+let globalPoller: EndpointPoller | null = null
+
+export function getEndpointPoller(): EndpointPoller {
+  if (!globalPoller)
+    globalPoller = new EndpointPoller()
+  return globalPoller
+}
+
+// ============= 变化通知 =============
+
+const MAX_SUMMARY_CHANGES = 3
+
+function formatValue(value: unknown): string {
+  const text = value === undefined ? '无' : typeof value === 'string' ? value : JSON.stringify(value)
+  return text.length > 40 ? `${text.slice(0, 40)}…` : text
+}
+
+/**
+ * 汇总变化为通知正文，最多列出前几项
+ */
+export function summarizeChanges(changes: ValueChange[]): string {
+  const lines = changes.slice(0, MAX_SUMMARY_CHANGES).map(change =>
+    `${change.path || '(根)'}: ${formatValue(change.before)} → ${formatValue(change.after)}`)
+  if (changes.length > MAX_SUMMARY_CHANGES)
+    lines.push(`等 ${changes.length} 处变化`)
+  return lines.join('\n')
+}
+
+// ============= Composable =============
+
+/**
+ * 使用接口轮询
+ * notifications 为 true 时，按接口的 changeNotification 把变化转为系统通知或灵动岛消息；
+ * 需要在 setup 中调用
+ */
+export function useEndpointPoller(options: { notifications?: boolean } = {}) {
+  const poller = getEndpointPoller()
+  const { sendNotification } = useTauriNotification()
+  const { showNotification } = useDynamicIsland()
+  const subscriptions: Array<() => void> = []
+
+  /**
+   * 把变化事件发送为通知
+   */
+  async function notify(event: EndpointChangeEvent, channel: ChangeNotification = event.endpoint.changeNotification ?? 'none') {
+    const title = `${event.endpoint.name} 数据已变化`
+    const body = summarizeChanges(event.changes)
+
+    if (channel === 'system')
+      await sendNotification(title, body)
+    else if (channel === 'island')
+      showNotification(body, { title, icon: 'lucide:activity', duration: 4 })
+  }
+
+  function onChange(listener: EndpointChangeListener) {
+    const off = poller.onChange(listener)
+    subscriptions.push(off)
+    return off
+  }
+
+  function onError(listener: EndpointPollErrorListener) {
+    const off = poller.onError(listener)
+    subscriptions.push(off)
+    return off
+  }
+
+  if (options.notifications) {
+    onChange((event) => {
+      notify(event).catch(err => console.error('[Poller] 发送变化通知失败:', err))
+    })
+  }
+
+  if (getCurrentScope()) {
+    onScopeDispose(() => {
+      for (const off of subscriptions)
+        off()
+      subscriptions.length = 0
+    })
+  }
+
+  return {
+    // 状态
+    states: poller.states,
+    isRunning: poller.isRunning,
+    isPaused: poller.isPaused,
+
+    // 方法
+    start: () => poller.start(),
+    stop: () => poller.stop(),
+    reload: () => poller.reload(),
+    pollNow: (endpointId: number) => poller.pollNow(endpointId),
+    onChange,
+    onError,
+    notify,
+  }
+}
+
+export default useEndpointPoller
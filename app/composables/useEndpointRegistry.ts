@@ -0,0 +1,448 @@
+/**
+ * 接口注册表
+ * 管理 APIService 使用的服务器与接口配置：增删改、排序、启用切换、复制、ID 生成与校验
+ */
+
+import type { ApiEndpoint, ChangeNotification, ServerConfig, StoredServerConfig } from './useAPIService'
+import { readonly, ref, shallowRef } from 'vue'
+import { useApiEndpointRepository } from './repositories/useApiEndpointRepository'
+import { useAPIService } from './useAPIService'
+import { getEndpointPoller } from './useEndpointPoller'
+
+export const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'] as const
+export const CHANGE_NOTIFICATIONS: ChangeNotification[] = ['none', 'system', 'island']
+/** 最短轮询间隔（秒） */
+export const MIN_POLL_INTERVAL = 5
+
+// ============= 类型定义 =============
+
+/**
+ * 新建接口的参数
+ */
+export interface EndpointInput {
+  serverUrl: string
+  name: string
+  path: string
+  method: string
+  description?: string
+  params?: Record<string, any>
+  headers?: Record<string, string>
+  /** 缓存时长（秒），默认 0 */
+  cacheDuration?: number
+  /** 默认 true */
+  isActive?: boolean
+  /** 轮询间隔（秒），默认 0 不轮询 */
+  pollInterval?: number
+  /** 轮询到数据变化时的通知方式，默认 none */
+  changeNotification?: ChangeNotification
+}
+
+/**
+ * 按字段的校验错误
+ */
+export type EndpointErrors = Partial<Record<keyof EndpointInput, string>>
+
+/**
+ * 接口配置校验失败
+ */
+export class EndpointValidationError extends Error {
+  readonly errors: EndpointErrors
+
+  constructor(errors: EndpointErrors) {
+    super(Object.values(errors).join('；'))
+    this.name = 'EndpointValidationError'
+    this.errors = errors
+  }
+}
+
+// ============= 工具函数 =============
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * 校验服务器地址
+ */
+export function validateServerUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url)
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? null : '服务器地址需以 http:// 或 https:// 开头'
+  }
+  catch {
+    return '服务器地址格式不正确'
+  }
+}
+
+/**
+ * 校验接口配置，siblings 为同一服务器下的其他接口（用于检查重名）
+ */
+export function validateEndpoint(input: EndpointInput, siblings: ApiEndpoint[] = []): EndpointErrors {
+  const errors: EndpointErrors = {}
+
+  const urlError = validateServerUrl(input.serverUrl)
+  if (urlError)
+    errors.serverUrl = urlError
+
+  if (!input.name?.trim())
+    errors.name = '请输入接口名称'
+  else if (siblings.some(ep => ep.name === input.name.trim()))
+    errors.name = '同一服务器下已存在同名接口'
+
+  if (!input.path?.trim())
+    errors.path = '请输入接口路径'
+  else if (/^https?:\/\//i.test(input.path.trim()) || /\s/.test(input.path.trim()))
+    errors.path = '路径需为相对路径且不能包含空格'
+
+  if (!HTTP_METHODS.includes(input.method?.toUpperCase() as typeof HTTP_METHODS[number]))
+    errors.method = `请求方法需为 ${HTTP_METHODS.join('、')} 之一`
+
+  if (input.cacheDuration !== undefined && (!Number.isInteger(input.cacheDuration) || input.cacheDuration < 0))
+    errors.cacheDuration = '缓存时长需为非负整数（秒）'
+
+  if (input.pollInterval !== undefined && (!Number.isInteger(input.pollInterval) || (input.pollInterval !== 0 && input.pollInterval < MIN_POLL_INTERVAL)))
+    errors.pollInterval = `轮询间隔需为 0（不轮询）或不小于 ${MIN_POLL_INTERVAL} 的整数（秒）`
+
+  if (input.changeNotification !== undefined && !CHANGE_NOTIFICATIONS.includes(input.changeNotification))
+    errors.changeNotification = '通知方式不正确'
+
+  if (input.params !== undefined && !isPlainObject(input.params))
+    errors.params = '参数需为对象'
+
+  if (input.headers !== undefined && (!isPlainObject(input.headers) || Object.values(input.headers).some(value => typeof value !== 'string')))
+    errors.headers = '请求头需为字符串键值对'
+
+  return errors
+}
+
+/**
+ * 规范化输入：去除首尾空格、统一方法大小写与路径前导斜杠
+ */
+function normalizeInput(input: EndpointInput): EndpointInput {
+  return {
+    ...input,
+    serverUrl: input.serverUrl.trim().replace(/\/$/, ''),
+    name: input.name.trim(),
+    path: `/${input.path.trim().replace(/^\//, '')}`,
+    method: input.method.toUpperCase(),
+    description: input.description?.trim() || undefined,
+  }
+}
+
+function bySortOrder(a: ApiEndpoint, b: ApiEndpoint) {
+  return a.sortOrder - b.sortOrder || a.id - b.id
+}
+
+// ============= 注册表 =============
+
+/**
+ * 接口注册表，接口保存在 api_endpoints 表中，ID 由数据库自增分配且删除后不复用
+ */
+export class EndpointRegistry {
+  private repository = useApiEndpointRepository()
+  /** 串行执行写操作，避免并发读改写覆盖 */
+  private queue: Promise<unknown> = Promise.resolve()
+
+  /**
+   * 读取所有接口（等待数据库初始化与旧数据迁移）
+   */
+  private async load(): Promise<ApiEndpoint[]> {
+    await useAPIService().service.init()
+    return this.repository.getAllEndpoints()
+  }
+
+  /**
+   * 在队列中执行读改写
+   */
+  private mutate<T>(fn: (endpoints: ApiEndpoint[]) => Promise<T>): Promise<T> {
+    const run = this.queue.then(async () => fn(await this.load()))
+    this.queue = run.catch(() => {})
+    return run
+  }
+
+  private findOrThrow(endpoints: ApiEndpoint[], id: number): ApiEndpoint {
+    const endpoint = endpoints.find(ep => ep.id === id)
+    if (!endpoint)
+      throw new Error(`接口配置不存在: ${id}`)
+    return endpoint
+  }
+
+  private assertValid(input: EndpointInput, endpoints: ApiEndpoint[], excludeId?: number) {
+    const siblings = endpoints.filter(ep => ep.serverUrl === input.serverUrl && ep.id !== excludeId)
+    const errors = validateEndpoint(input, siblings)
+    if (Object.keys(errors).length > 0)
+      throw new EndpointValidationError(errors)
+  }
+
+  private nextSortOrder(endpoints: ApiEndpoint[], serverUrl: string): number {
+    const orders = endpoints.filter(ep => ep.serverUrl === serverUrl).map(ep => ep.sortOrder)
+    return orders.length > 0 ? Math.max(...orders) + 1 : 0
+  }
+
+  /**
+   * 获取接口列表，按 sortOrder 排序
+   */
+  async list(serverUrl?: string): Promise<ApiEndpoint[]> {
+    await this.queue
+    const endpoints = await this.load()
+    return endpoints.filter(ep => !serverUrl || ep.serverUrl === serverUrl).sort(bySortOrder)
+  }
+
+  /**
+   * 获取单个接口
+   */
+  async get(id: number): Promise<ApiEndpoint | null> {
+    await this.queue
+    await useAPIService().service.init()
+    return this.repository.getEndpoint(id)
+  }
+
+  /**
+   * 新建接口，排在所属服务器的最后
+   */
+  create(input: EndpointInput): Promise<ApiEndpoint> {
+    return this.mutate(async (endpoints) => {
+      const normalized = normalizeInput(input)
+      this.assertValid(normalized, endpoints)
+
+      const now = new Date().toISOString()
+      const endpoint = {
+        ...normalized,
+        cacheDuration: normalized.cacheDuration ?? 0,
+        isActive: normalized.isActive ?? true,
+        pollInterval: normalized.pollInterval ?? 0,
+        changeNotification: normalized.changeNotification ?? 'none',
+        sortOrder: this.nextSortOrder(endpoints, normalized.serverUrl),
+        createdAt: now,
+        updatedAt: now,
+      }
+      return { ...endpoint, id: await this.repository.createEndpoint(endpoint) }
+    })
+  }
+
+  /**
+   * 更新接口，修改服务器时排到新服务器的最后
+   */
+  update(id: number, changes: Partial<EndpointInput>): Promise<ApiEndpoint> {
+    return this.mutate(async (endpoints) => {
+      const endpoint = this.findOrThrow(endpoints, id)
+      const normalized = normalizeInput({ ...endpoint, ...changes })
+      this.assertValid(normalized, endpoints, id)
+
+      const sortOrder = normalized.serverUrl === endpoint.serverUrl
+        ? endpoint.sortOrder
+        : this.nextSortOrder(endpoints, normalized.serverUrl)
+      const updated: ApiEndpoint = { ...endpoint, ...normalized, sortOrder, updatedAt: new Date().toISOString() }
+      await this.repository.updateEndpoint(updated)
+      await useAPIService().service.clearEndpointCache(id)
+      return updated
+    })
+  }
+
+  /**
+   * 删除接口及其缓存
+   */
+  delete(id: number): Promise<void> {
+    return this.mutate(async () => {
+      await this.repository.deleteEndpoint(id)
+
+      const { service } = useAPIService()
+      service.unregisterEndpointSchema(id)
+      await service.clearEndpointCache(id)
+    })
+  }
+
+  /**
+   * 按给定顺序重排服务器下的接口，未列出的接口保持原有顺序排在后面
+   */
+  reorder(serverUrl: string, orderedIds: number[]): Promise<void> {
+    return this.mutate(async (endpoints) => {
+      const siblings = endpoints.filter(ep => ep.serverUrl === serverUrl).sort(bySortOrder)
+      const ordered = [
+        ...orderedIds.map(id => siblings.find(ep => ep.id === id)).filter((ep): ep is ApiEndpoint => !!ep),
+        ...siblings.filter(ep => !orderedIds.includes(ep.id)),
+      ]
+      const now = new Date().toISOString()
+      for (const [index, endpoint] of ordered.entries()) {
+        if (endpoint.sortOrder !== index)
+          await this.repository.updateSortOrder(endpoint.id, index, now)
+      }
+    })
+  }
+
+  /**
+   * 切换接口的启用状态，未指定时取反
+   */
+  toggle(id: number, isActive?: boolean): Promise<ApiEndpoint> {
+    return this.mutate(async (endpoints) => {
+      const endpoint = this.findOrThrow(endpoints, id)
+      const updated = { ...endpoint, isActive: isActive ?? !endpoint.isActive, updatedAt: new Date().toISOString() }
+      await this.repository.updateEndpoint(updated)
+      return updated
+    })
+  }
+
+  /**
+   * 复制接口，名称追加「副本」并排在原接口之后
+   */
+  duplicate(id: number): Promise<ApiEndpoint> {
+    return this.mutate(async (endpoints) => {
+      const source = this.findOrThrow(endpoints, id)
+      const names = new Set(endpoints.filter(ep => ep.serverUrl === source.serverUrl).map(ep => ep.name))
+      let name = `${source.name} 副本`
+      for (let n = 2; names.has(name); n++)
+        name = `${source.name} 副本 ${n}`
+
+      // 原接口之后的接口依次后移
+      const now = new Date().toISOString()
+      for (const endpoint of endpoints) {
+        if (endpoint.serverUrl === source.serverUrl && endpoint.sortOrder > source.sortOrder)
+          await this.repository.updateSortOrder(endpoint.id, endpoint.sortOrder + 1, now)
+      }
+
+      const { id: _id, schema: _schema, ...rest } = source
+      const copy = {
+        ...structuredClone(rest),
+        name,
+        sortOrder: source.sortOrder + 1,
+        createdAt: now,
+        updatedAt: now,
+      }
+      return { ...copy, id: await this.repository.createEndpoint(copy) }
+    })
+  }
+
+  /**
+   * 保存服务器配置
+   */
+  async saveServer(server: StoredServerConfig | ServerConfig): Promise<void> {
+    const urlError = validateServerUrl(server.url)
+    if (urlError)
+      throw new EndpointValidationError({ serverUrl: urlError })
+    await useAPIService().service.saveServer({ ...server, url: server.url.trim().replace(/\/$/, ''), name: server.name.trim() || server.url })
+  }
+
+  /**
+   * 删除服务器及其下的所有接口
+   */
+  async deleteServer(serverUrl: string): Promise<void> {
+    const removed = await this.mutate(async (endpoints) => {
+      await this.repository.deleteEndpointsByServer(serverUrl)
+      return endpoints.filter(ep => ep.serverUrl === serverUrl).map(ep => ep.id)
+    })
+
+    const { service } = useAPIService()
+    for (const id of removed) {
+      service.unregisterEndpointSchema(id)
+      await service.clearEndpointCache(id)
+    }
+    await service.deleteServer(serverUrl)
+  }
+}
+
+// ============= Composable =============
+
+let globalRegistry: EndpointRegistry | null = null
+
+/**
+ * 获取全局接口注册表
+ */
+export function getEndpointRegistry(): EndpointRegistry {
+  return globalRegistry ??= new EndpointRegistry()
+}
+
+/**
+ * 接口注册表 Composable
+ * 所有修改完成后自动刷新 servers 与 endpoints
+ */
+export function useEndpointRegistry() {
+  const registry = getEndpointRegistry()
+  const servers = shallowRef<ServerConfig[]>([])
+  const endpoints = shallowRef<ApiEndpoint[]>([])
+  const isLoading = ref(false)
+  const error = ref<string | null>(null)
+
+  /**
+   * 重新读取服务器与接口
+   */
+  async function refresh() {
+    isLoading.value = true
+    error.value = null
+    try {
+      const list = await useAPIService().service.getServers()
+      servers.value = list.map(server => ({ ...server, endpoints: [...server.endpoints].sort(bySortOrder) }))
+      endpoints.value = servers.value.flatMap(server => server.endpoints)
+    }
+    catch (err) {
+      error.value = err instanceof Error ? err.message : '读取接口配置失败'
+      console.error('[Endpoints] 读取接口配置失败:', err)
+    }
+    finally {
+      isLoading.value = false
+    }
+  }
+
+  /**
+   * 执行修改并刷新，失败时记录错误后继续抛出；轮询运行中时同步轮询的接口
+   */
+  async function run<T>(fn: () => Promise<T>): Promise<T> {
+    let failure: unknown = null
+    try {
+      return await fn()
+    }
+    catch (err) {
+      failure = err
+      throw err
+    }
+    finally {
+      await refresh()
+      // 轮询同步失败只记录，不覆盖修改本身的错误
+      await getEndpointPoller().reload().catch(err => console.error('[Endpoints] 同步轮询接口失败:', err))
+      if (failure)
+        error.value = failure instanceof Error ? failure.message : '操作失败'
+    }
+  }
+
+  /**
+   * 在服务器内上移或下移接口
+   */
+  function move(id: number, offset: -1 | 1) {
+    const endpoint = endpoints.value.find(ep => ep.id === id)
+    if (!endpoint)
+      return Promise.resolve()
+
+    const ids = endpoints.value.filter(ep => ep.serverUrl === endpoint.serverUrl).map(ep => ep.id)
+    const index = ids.indexOf(id)
+    const target = index + offset
+    if (target < 0 || target >= ids.length)
+      return Promise.resolve()
+
+    ids.splice(target, 0, ...ids.splice(index, 1))
+    return run(() => registry.reorder(endpoint.serverUrl, ids))
+  }
+
+  return {
+    // 状态
+    servers: readonly(servers),
+    endpoints: readonly(endpoints),
+    isLoading: readonly(isLoading),
+    error: readonly(error),
+
+    // 方法
+    refresh,
+    create: (input: EndpointInput) => run(() => registry.create(input)),
+    update: (id: number, changes: Partial<EndpointInput>) => run(() => registry.update(id, changes)),
+    remove: (id: number) => run(() => registry.delete(id)),
+    reorder: (serverUrl: string, orderedIds: number[]) => run(() => registry.reorder(serverUrl, orderedIds)),
+    move,
+    toggle: (id: number, isActive?: boolean) => run(() => registry.toggle(id, isActive)),
+    duplicate: (id: number) => run(() => registry.duplicate(id)),
+    saveServer: (server: StoredServerConfig | ServerConfig) => run(() => registry.saveServer(server)),
+    deleteServer: (serverUrl: string) => run(() => registry.deleteServer(serverUrl)),
+
+    // 注册表实例（用于高级用法）
+    registry,
+  }
+}
+
+export default useEndpointRegistry
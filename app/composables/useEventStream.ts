@@ -0,0 +1,153 @@
+/**
+ * 流式数据 Composable
+ * 订阅 SSE 或 NDJSON 流，提供响应式的消息列表与连接状态，组件卸载时自动关闭
+ */
+
+import type { MaybeRefOrGetter } from 'vue'
+import type { EventSourceOptions, HTTPError, SSEMessage, TauriHTTPClient } from './useTauriHTTP'
+import { getCurrentScope, onScopeDispose, readonly, ref, shallowRef, toValue, watch } from 'vue'
+import { getGlobalHTTPClient, toHTTPError } from './useTauriHTTP'
+
+// ============= 类型定义 =============
+
+/**
+ * 连接状态
+ */
+export type EventStreamState = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed' | 'error'
+
+/**
+ * 流式数据选项
+ */
+export interface UseEventStreamOptions extends Omit<EventSourceOptions, 'signal'> {
+  /** 流格式，默认 sse */
+  format?: 'sse' | 'ndjson'
+  /** 是否立即连接，默认 true */
+  immediate?: boolean
+  /** 保留的最大消息数，默认 500 */
+  maxMessages?: number
+  /** 使用的 HTTP 客户端，默认全局客户端 */
+  client?: TauriHTTPClient
+}
+
+// ============= Composable =============
+
+/**
+ * 订阅流式接口
+ * SSE 时消息为 SSEMessage，NDJSON 时为每行解析后的对象；url 变化时自动重新连接
+ */
+export function useEventStream<T = SSEMessage>(url: MaybeRefOrGetter<string>, options: UseEventStreamOptions = {}) {
+  const {
+    format = 'sse',
+    immediate = true,
+    maxMessages = 500,
+    client = getGlobalHTTPClient(),
+    ...init
+  } = options
+
+  const messages = shallowRef<T[]>([])
+  const data = shallowRef<T | null>(null)
+  const state = ref<EventStreamState>('idle')
+  const error = shallowRef<HTTPError | null>(null)
+
+  let controller: AbortController | null = null
+
+  /**
+   * 创建数据源
+   */
+  function createSource(signal: AbortSignal): AsyncGenerator<T> {
+    const onOpen = () => {
+      state.value = 'open'
+      init.onOpen?.()
+    }
+
+    if (format === 'ndjson')
+      return client.stream<T>(toValue(url), { ...init, signal, onOpen })
+
+    return client.eventSource(toValue(url), {
+      ...init,
+      signal,
+      onOpen,
+      onDisconnect: (err, willReconnect) => {
+        if (willReconnect)
+          state.value = 'reconnecting'
+        init.onDisconnect?.(err, willReconnect)
+      },
+    }) as AsyncGenerator<T>
+  }
+
+  /**
+   * 建立连接，已有连接时先关闭
+   */
+  async function open() {
+    close()
+    const current = new AbortController()
+    controller = current
+    state.value = 'connecting'
+    error.value = null
+
+    try {
+      for await (const message of createSource(current.signal)) {
+        messages.value = [...messages.value, message].slice(-maxMessages)
+        data.value = message
+      }
+      if (controller === current)
+        state.value = 'closed'
+    }
+    catch (err) {
+      if (controller !== current)
+        return
+      error.value = toHTTPError(err)
+      state.value = 'error'
+      console.error('[EventStream] 连接失败:', err)
+    }
+    finally {
+      if (controller === current)
+        controller = null
+    }
+  }
+
+  /**
+   * 关闭连接
+   */
+  function close() {
+    if (!controller)
+      return
+    controller.abort()
+    controller = null
+    state.value = 'closed'
+  }
+
+  /**
+   * 清空已收到的消息
+   */
+  function clear() {
+    messages.value = []
+    data.value = null
+  }
+
+  watch(() => toValue(url), () => {
+    if (controller)
+      open()
+  })
+
+  if (immediate && import.meta.client)
+    open()
+
+  if (getCurrentScope())
+    onScopeDispose(close)
+
+  return {
+    // 响应式状态
+    messages: readonly(messages),
+    data: readonly(data),
+    state: readonly(state),
+    error: readonly(error),
+
+    // 方法
+    open,
+    close,
+    clear,
+  }
+}
+
+export default useEventStream
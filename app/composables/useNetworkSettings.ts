@@ -0,0 +1,127 @@
+/**
+ * 网络设置 Composable
+ * 全局与按服务器的代理、TLS 设置，保存在 SQLite 的 settings 表中
+ */
+
+import type { NetworkSettings } from './useTauriHTTP'
+import { readonly, shallowRef } from 'vue'
+import { useSettingRepository } from './repositories/useSettingRepository'
+import { mergeNetworkSettings, setDefaultNetworkSettings } from './useTauriHTTP'
+import { useTauriSQL } from './useTauriSQL'
+
+const GLOBAL_KEY = 'network:global'
+const SERVER_KEY_PREFIX = 'network:server:'
+
+// ============= 共享状态 =============
+
+const globalSettings = shallowRef<NetworkSettings>({})
+const serverSettings = shallowRef<Record<string, NetworkSettings>>({})
+let loadPromise: Promise<void> | null = null
+
+function parseSettings(value: string): NetworkSettings | null {
+  try {
+    return JSON.parse(value) as NetworkSettings
+  }
+  catch {
+    return null
+  }
+}
+
+/**
+ * 从 settings 表读取网络设置，并应用全局设置；数据库尚未连接时先连接
+ */
+async function readSettings() {
+  await useTauriSQL().autoInit()
+  const settings = await useSettingRepository().getAllSettings()
+  const servers: Record<string, NetworkSettings> = {}
+  for (const [key, value] of Object.entries(settings)) {
+    const parsed = key.startsWith(SERVER_KEY_PREFIX) ? parseSettings(value) : null
+    if (parsed)
+      servers[key.slice(SERVER_KEY_PREFIX.length)] = parsed
+  }
+
+  globalSettings.value = (settings[GLOBAL_KEY] && parseSettings(settings[GLOBAL_KEY])) || {}
+  serverSettings.value = servers
+  setDefaultNetworkSettings(globalSettings.value)
+}
+
+/**
+ * 加载网络设置，重复调用只读取一次；失败时保持直连
+ */
+export function loadNetworkSettings(): Promise<void> {
+  loadPromise ??= readSettings().catch((err) => {
+    loadPromise = null
+    console.warn('[Network] 读取网络设置失败:', err)
+  })
+  return loadPromise
+}
+
+/**
+ * 获取服务器的网络设置（不含全局设置，由 HTTP 客户端合并）
+ */
+export async function getServerNetworkSettings(serverUrl: string): Promise<NetworkSettings | undefined> {
+  await loadNetworkSettings()
+  return serverSettings.value[serverUrl]
+}
+
+// ============= Composable =============
+
+export function useNetworkSettings() {
+  const { isLoading, error, setSetting, deleteSetting } = useSettingRepository()
+
+  /**
+   * 重新读取网络设置
+   */
+  async function reload() {
+    loadPromise = null
+    await loadNetworkSettings()
+  }
+
+  /**
+   * 保存全局网络设置，立即对所有客户端生效
+   */
+  async function saveGlobal(settings: NetworkSettings) {
+    await setSetting(GLOBAL_KEY, JSON.stringify(settings))
+    globalSettings.value = settings
+    setDefaultNetworkSettings(settings)
+  }
+
+  /**
+   * 保存服务器的网络设置，传入 null 时恢复使用全局设置
+   */
+  async function saveServer(serverUrl: string, settings: NetworkSettings | null) {
+    const { [serverUrl]: _previous, ...rest } = serverSettings.value
+    if (settings) {
+      await setSetting(`${SERVER_KEY_PREFIX}${serverUrl}`, JSON.stringify(settings))
+      serverSettings.value = { ...rest, [serverUrl]: settings }
+    }
+    else {
+      await deleteSetting(`${SERVER_KEY_PREFIX}${serverUrl}`)
+      serverSettings.value = rest
+    }
+  }
+
+  /**
+   * 服务器最终生效的网络设置
+   */
+  function resolve(serverUrl: string): NetworkSettings {
+    return mergeNetworkSettings(globalSettings.value, serverSettings.value[serverUrl])
+  }
+
+  return {
+    // 状态
+    global: readonly(globalSettings),
+    servers: readonly(serverSettings),
+    isLoading,
+    error,
+
+    // 方法
+    load: loadNetworkSettings,
+    reload,
+    saveGlobal,
+    saveServer,
+    resolve,
+  }
+}
+
+export default useNetworkSettings
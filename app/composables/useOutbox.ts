@@ -0,0 +1,242 @@
+/**
+ * 离线发件箱 Composable
+ * 离线时保存变更请求（POST / PUT / PATCH / DELETE），网络恢复后按顺序携带幂等键重放
+ */
+
+import type { TauriHTTPClient } from './useTauriHTTP'
+import type { OutboxItem } from '~/types/models'
+import { computed, readonly, ref } from 'vue'
+import { useOutboxRepository } from './repositories/useOutboxRepository'
+import {
+  getHTTPClient,
+  HTTPCircuitOpenError,
+  HTTPNetworkError,
+  HTTPStatusError,
+  HTTPTimeoutError,
+  toHTTPError,
+} from './useTauriHTTP'
+import { useTauriSQL } from './useTauriSQL'
+
+// ============= 类型定义 =============
+
+/**
+ * 待保存的请求
+ */
+export interface OutboxRequest {
+  method: string
+  /** 完整 URL */
+  url: string
+  headers?: Record<string, string>
+  /** 已序列化的请求体 */
+  body?: string | null
+  /** 幂等键，未提供时自动生成 */
+  idempotencyKey?: string
+  /** 发起请求的客户端名称（HTTPConfig.name），未提供时使用全局客户端重放 */
+  client?: string
+}
+
+/**
+ * 幂等键请求头
+ */
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key'
+
+// ============= 共享状态 =============
+
+const items = ref<OutboxItem[]>([])
+const isSyncing = ref(false)
+let loadPromise: Promise<void> | null = null
+let flushPromise: Promise<void> | null = null
+let listening = false
+
+/**
+ * 判断重放失败是否为暂时性错误（保留待发送并停止本轮重放）
+ */
+function isTransient(error: unknown): boolean {
+  if (error instanceof HTTPNetworkError || error instanceof HTTPTimeoutError || error instanceof HTTPCircuitOpenError)
+    return true
+  return error instanceof HTTPStatusError && (error.status >= 500 || error.status === 408 || error.status === 429)
+}
+
+/**
+ * 浏览器是否报告离线（非浏览器环境视为在线）
+ */
+export function isOffline(): boolean {
+  return globalThis.navigator?.onLine === false
+}
+
+/**
+ * 生成幂等键
+ */
+export function createIdempotencyKey(): string {
+  return globalThis.crypto?.randomUUID?.() ?? `${Date.now()}-${Math.random().toString(36).slice(2)}`
+}
+
+// ============= Composable =============
+
+/**
+ * 离线发件箱
+ */
+export function useOutbox() {
+  const repository = useOutboxRepository()
+  const sql = useTauriSQL()
+
+  const pending = computed(() => items.value.filter(item => item.status === 'pending'))
+  const failed = computed(() => items.value.filter(item => item.status === 'failed'))
+  const pendingCount = computed(() => pending.value.length)
+  const failedCount = computed(() => failed.value.length)
+
+  /**
+   * 从数据库重新读取
+   */
+  async function refresh() {
+    await sql.autoInit()
+    items.value = await repository.getAllItems()
+  }
+
+  /**
+   * 首次使用时读取数据库，并在网络恢复时自动重放
+   */
+  function load(): Promise<void> {
+    if (!listening && import.meta.client) {
+      listening = true
+      window.addEventListener('online', () => {
+        flush().catch(() => {})
+      })
+    }
+
+    loadPromise ??= refresh().catch((err) => {
+      loadPromise = null
+      console.error('[Outbox] 读取离线请求失败:', err)
+    })
+    return loadPromise
+  }
+
+  /**
+   * 保存请求，返回记录 id
+   */
+  async function enqueue(request: OutboxRequest): Promise<number> {
+    await load()
+    const idempotencyKey = request.idempotencyKey ?? createIdempotencyKey()
+    const id = await repository.addItem({
+      method: request.method.toUpperCase(),
+      url: request.url,
+      headers: request.headers ?? {},
+      body: request.body ?? null,
+      idempotencyKey,
+      client: request.client ?? null,
+    })
+    await refresh()
+    console.log(`[Outbox] 已保存离线请求: ${request.method} ${request.url}`)
+    return id
+  }
+
+  /**
+   * 重放单个请求，成功后删除
+   */
+  async function replay(item: OutboxItem, client: TauriHTTPClient) {
+    await client.request(item.url, {
+      method: item.method,
+      headers: { ...JSON.parse(item.headers), [IDEMPOTENCY_HEADER]: item.idempotency_key },
+      body: item.body ?? undefined,
+      retry: false,
+    })
+    await repository.deleteItem(item.id)
+  }
+
+  /**
+   * 按顺序重放所有待发送的请求，每个请求使用发起它的客户端（传入 client 时统一使用该客户端）
+   * 遇到网络错误、超时或 5xx 时停止，等待下次重放；其他错误标记为失败并停止，
+   * 之后的请求保持待发送，直到失败的请求被重试成功或丢弃
+   */
+  function flush(client?: TauriHTTPClient): Promise<void> {
+    flushPromise ??= (async () => {
+      isSyncing.value = true
+      try {
+        await load()
+        for (const item of items.value) {
+          if (item.status === 'failed') {
+            console.warn(`[Outbox] 重放暂停: 请求 ${item.method} ${item.url} 失败，等待重试或丢弃`)
+            break
+          }
+          const target = client ?? getHTTPClient(item.client)
+          if (!target) {
+            console.warn(`[Outbox] 重放暂停: 客户端 ${item.client} 尚未创建`)
+            break
+          }
+          try {
+            await replay(item, target)
+          }
+          catch (err) {
+            const message = toHTTPError(err).message
+            await repository.recordAttempt(item.id, message)
+            if (isTransient(err)) {
+              console.warn(`[Outbox] 重放暂停: ${message}`)
+              break
+            }
+            await repository.updateStatus(item.id, 'failed', message)
+            console.error(`[Outbox] 请求重放失败: ${item.method} ${item.url}`, err)
+            break
+          }
+        }
+      }
+      finally {
+        await refresh().catch(() => {})
+        isSyncing.value = false
+        flushPromise = null
+      }
+    })()
+    return flushPromise
+  }
+
+  /**
+   * 将失败的请求重新加入队列并立即重放
+   */
+  async function retry(id: number, client?: TauriHTTPClient) {
+    await repository.updateStatus(id, 'pending')
+    await refresh()
+    await flush(client)
+  }
+
+  /**
+   * 重新尝试所有失败的请求
+   */
+  async function retryFailed(client?: TauriHTTPClient) {
+    for (const item of failed.value) {
+      await repository.updateStatus(item.id, 'pending')
+    }
+    await refresh()
+    await flush(client)
+  }
+
+  /**
+   * 丢弃请求，之后继续重放排在它后面的请求
+   */
+  async function discard(id: number, client?: TauriHTTPClient) {
+    await repository.deleteItem(id)
+    await refresh()
+    await flush(client)
+  }
+
+  load()
+
+  return {
+    // 响应式状态
+    items: readonly(items),
+    pending,
+    failed,
+    pendingCount,
+    failedCount,
+    isSyncing: readonly(isSyncing),
+
+    // 方法
+    load,
+    refresh,
+    enqueue,
+    flush,
+    retry,
+    retryFailed,
+    discard,
+  }
+}
+
+export default useOutbox
@@ -0,0 +1,231 @@
+/**
+ * 接口响应缓存 Composable
+ * 缓存保存在 SQLite 的 api_cache 表中：按过期时间索引清理，总大小超出预算时淘汰最久未访问的条目，
+ * 条目带有服务器、接口、用户等标签，可按标签批量失效
+ */
+
+import type { ApiCacheEntry, StoredApiCacheEntry } from './repositories/useApiCacheRepository'
+import { readonly, shallowRef } from 'vue'
+import { useApiCacheRepository } from './repositories/useApiCacheRepository'
+
+/** 默认总大小预算：5 MB */
+const DEFAULT_MAX_SIZE = 5 * 1024 * 1024
+
+/** 每次淘汰时读取的条目数 */
+const EVICTION_BATCH = 50
+
+// ============= 类型定义 =============
+
+/**
+ * 缓存统计，命中、未命中与淘汰次数从应用启动时开始计数
+ */
+export interface ResponseCacheStats {
+  hits: number
+  misses: number
+  /** 因超出大小预算被淘汰的条目数 */
+  evictions: number
+  /** 当前总字节数 */
+  size: number
+  entries: number
+  maxSize: number
+}
+
+export interface ResponseCacheOptions {
+  /** 总大小预算（字节），默认 5 MB */
+  maxSize?: number
+}
+
+export interface ResponseCacheSetOptions {
+  endpointId: number
+  /** 有效期（毫秒），不传时不过期 */
+  ttl?: number
+  tags?: string[]
+}
+
+/**
+ * 读取到的缓存条目
+ */
+export interface ResponseCacheEntry<T = any> extends StoredApiCacheEntry<T> {
+  expired: boolean
+}
+
+// ============= 工具函数 =============
+
+/**
+ * 缓存标签
+ */
+export const CacheTags = {
+  server: (serverUrl: string) => `server:${serverUrl}`,
+  endpoint: (endpointId: number) => `endpoint:${endpointId}`,
+  user: (identity: string) => `user:${identity}`,
+}
+
+/**
+ * 计算文本的 SHA-256 摘要（十六进制）
+ */
+export async function hashCacheKey(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+// ============= 响应缓存 =============
+
+export class ResponseCache {
+  private repository = useApiCacheRepository()
+  /** 串行执行淘汰，避免并发写入时重复淘汰 */
+  private pruneQueue: Promise<void> = Promise.resolve()
+  private _stats = shallowRef<ResponseCacheStats>({ hits: 0, misses: 0, evictions: 0, size: 0, entries: 0, maxSize: DEFAULT_MAX_SIZE })
+
+  readonly stats = readonly(this._stats)
+
+  constructor(options: ResponseCacheOptions = {}) {
+    this.updateStats({ maxSize: options.maxSize ?? DEFAULT_MAX_SIZE })
+  }
+
+  private updateStats(changes: Partial<ResponseCacheStats>) {
+    this._stats.value = { ...this._stats.value, ...changes }
+  }
+
+  private async refreshUsage() {
+    const usage = await this.repository.getUsage()
+    this.updateStats({ size: usage.size, entries: usage.count })
+  }
+
+  /**
+   * 读取缓存并记录命中；allowStale 为 true 时也返回已过期的条目
+   */
+  async get<T = any>(key: string, options: { allowStale?: boolean } = {}): Promise<ResponseCacheEntry<T> | null> {
+    const entry = await this.repository.getEntry<T>(key)
+    const expired = !!entry && entry.expiresAt !== null && Date.now() >= entry.expiresAt
+    if (!entry || (expired && !options.allowStale)) {
+      this.updateStats({ misses: this._stats.value.misses + 1 })
+      return null
+    }
+
+    this.updateStats({ hits: this._stats.value.hits + 1 })
+    await this.repository.touch(key).catch(err => console.warn('[Cache] 更新访问时间失败:', err))
+    return { ...entry, expired }
+  }
+
+  /**
+   * 写入缓存，超出预算时淘汰最久未访问的条目；单条超过预算时不保存
+   */
+  async set<T = any>(key: string, data: T, options: ResponseCacheSetOptions): Promise<void> {
+    const entry: ApiCacheEntry<T> = {
+      endpointId: options.endpointId,
+      data,
+      createdAt: new Date().toISOString(),
+      expiresAt: options.ttl === undefined ? null : Date.now() + options.ttl,
+    }
+    const size = await this.repository.setEntry(key, entry, options.tags)
+    if (size > this._stats.value.maxSize) {
+      console.warn(`[Cache] 响应大小 ${size} 字节超过缓存预算，不缓存`)
+      await this.repository.deleteEntries([key])
+    }
+    await this.prune()
+  }
+
+  /**
+   * 删除带有任一标签的缓存
+   */
+  async invalidate(tags: string[]): Promise<void> {
+    if (tags.length === 0)
+      return
+    await this.repository.deleteByTags(tags)
+    await this.refreshUsage()
+  }
+
+  /**
+   * 清理过期条目，并按最近访问时间淘汰到预算以内
+   */
+  prune(): Promise<void> {
+    const run = this.pruneQueue.then(async () => {
+      let usage = await this.repository.getUsage()
+      if (usage.size > this._stats.value.maxSize) {
+        await this.repository.deleteExpired()
+        usage = await this.repository.getUsage()
+      }
+
+      let { size } = usage
+      let evicted = 0
+      while (size > this._stats.value.maxSize) {
+        const candidates = await this.repository.getLeastRecentlyUsed(EVICTION_BATCH)
+        if (candidates.length === 0)
+          break
+
+        const keys: string[] = []
+        for (const candidate of candidates) {
+          if (size <= this._stats.value.maxSize)
+            break
+          keys.push(candidate.cache_key)
+          size -= candidate.size
+        }
+        await this.repository.deleteEntries(keys)
+        evicted += keys.length
+      }
+
+      if (evicted > 0)
+        console.log(`[Cache] 超出缓存预算，已淘汰 ${evicted} 条缓存`)
+      this.updateStats({ evictions: this._stats.value.evictions + evicted })
+      await this.refreshUsage()
+    })
+    this.pruneQueue = run.catch(() => {})
+    return run
+  }
+
+  /**
+   * 删除所有过期条目
+   */
+  async deleteExpired(): Promise<void> {
+    await this.repository.deleteExpired()
+    await this.refreshUsage()
+  }
+
+  /**
+   * 修改大小预算并立即淘汰
+   */
+  async setMaxSize(maxSize: number): Promise<void> {
+    this.updateStats({ maxSize })
+    await this.prune()
+  }
+
+  async clear(): Promise<void> {
+    await this.repository.clear()
+    await this.refreshUsage()
+  }
+
+  /**
+   * 重置命中、未命中与淘汰计数
+   */
+  resetStats() {
+    this.updateStats({ hits: 0, misses: 0, evictions: 0 })
+  }
+}
+
+let globalResponseCache: ResponseCache | null = null
+
+export function getResponseCache(): ResponseCache {
+  if (!globalResponseCache)
+    globalResponseCache = new ResponseCache()
+  return globalResponseCache
+}
+
+// ============= Composable =============
+
+export function useResponseCache() {
+  const cache = getResponseCache()
+
+  return {
+    // 状态
+    stats: cache.stats,
+
+    // 方法
+    invalidate: (tags: string[]) => cache.invalidate(tags),
+    prune: () => cache.prune(),
+    setMaxSize: (maxSize: number) => cache.setMaxSize(maxSize),
+    clear: () => cache.clear(),
+    resetStats: () => cache.resetStats(),
+  }
+}
+
+export default useResponseCache
@@ -1,21 +1,134 @@
 /**
  * Tauri HTTP 客户端 Composable
- * 基于 @tauri-apps/plugin-http 封装的 HTTP 请求工具
+ * 基于 @tauri-apps/plugin-http 封装的 HTTP 请求工具，非 Tauri 环境下自动回退到浏览器 fetch
  */
 
-import { fetch } from '@tauri-apps/plugin-http'
+import type { AbortScope } from './http/abort'
+import type { HTTPAdapter } from './http/adapters'
+import type { CachedResponse, HTTPCacheOptions, HTTPCacheStatus } from './http/cache'
+import type { CircuitBreakerOptions } from './http/circuit-breaker'
+import type { HarLog, HARRecorderOptions } from './http/har'
+import type { InterceptorsConfig } from './http/interceptors'
+import type { NetworkSettings, TransportOptions } from './http/network'
+import type { RetryErrorKind, RetryPolicy } from './http/retry'
+import type { RequestPriority, SchedulerOptions } from './http/scheduler'
+import type { StandardSchemaV1, ValidationMode } from './http/schema'
+import type { SSEMessage } from './http/stream'
+import type { ChunkCallback, HTTPProgress, ProgressCallback } from './http/transfer'
+import { abortableDelay, createAbortScope, linkAbortSignal } from './http/abort'
+import { autoAdapter } from './http/adapters'
+import { HTTPCache } from './http/cache'
+import { CircuitBreaker } from './http/circuit-breaker'
+import { CodecRegistry, getMimeType, isJSONMimeType, parseXMLDocument } from './http/codecs'
+import { CookieJar } from './http/cookies'
+import {
+  HTTPAbortError,
+  HTTPCircuitOpenError,
+  HTTPError,
+  HTTPNetworkError,
+  HTTPParseError,
+  HTTPStatusError,
+  HTTPTimeoutError,
+  toHTTPError,
+} from './http/errors'
+import { HARRecorder } from './http/har'
+import { deleteHeader, findHeaderName, getHeader } from './http/headers'
+import { HTTPInterceptors } from './http/interceptors'
+import { getDefaultNetworkSettings, mergeNetworkSettings, toClientOptions } from './http/network'
+import { getRetryDelay, resolveRetryPolicy, shouldRetry } from './http/retry'
+import { RequestScheduler } from './http/scheduler'
+import { validateSchema } from './http/schema'
+import { readLines, SSEParser } from './http/stream'
+import { getBodySize, isRawBody, ProgressTracker, readResponseBytes } from './http/transfer'
+import { getURLHost } from './http/url'
+import { getCookieJar } from './useCookieJar'
+import { createIdempotencyKey, IDEMPOTENCY_HEADER, isOffline, useOutbox } from './useOutbox'
+
+export { autoAdapter, browserAdapter, createMockAdapter, MockAdapter, tauriAdapter } from './http/adapters'
+export type { HTTPAdapter, MockHandler, MockRequest, MockResponseInit } from './http/adapters'
+export { applyAuth, authSecretNames, createHmacHeaders, encodeBasicAuth, signHmac } from './http/auth'
+export type { ApiKeyAuth, BasicAuth, BearerAuth, HmacAuth, ServerAuth, ServerAuthType } from './http/auth'
+export { HTTPCache, MemoryCacheStorage, parseCacheControl } from './http/cache'
+export type { CachedResponse, HTTPCacheOptions, HTTPCacheStatus, HTTPCacheStorage } from './http/cache'
+export { CircuitBreaker } from './http/circuit-breaker'
+export type { CircuitBreakerOptions, CircuitState, CircuitStatus } from './http/circuit-breaker'
+export { CodecRegistry, getMimeType, isJSONMimeType, matchMimeType, parseXMLDocument } from './http/codecs'
+export type { BodyDecoder, BodySerializer, MimeMatcher } from './http/codecs'
+export { CookieJar, domainMatch, getSetCookieHeaders, parseSetCookie, pathMatch } from './http/cookies'
+export type { Cookie } from './http/cookies'
+export {
+  HTTPAbortError,
+  HTTPCircuitOpenError,
+  HTTPError,
+  HTTPNetworkError,
+  HTTPParseError,
+  HTTPStatusError,
+  HTTPTimeoutError,
+  HTTPValidationError,
+  isHTTPError,
+  toHTTPError,
+} from './http/errors'
+export { DEFAULT_HAR_RECORDER_OPTIONS, HARRecorder, HARReplayAdapter, parseHAR, redactBody, REDACTED } from './http/har'
+export type { HarEntry, HarLog, HARRecorderOptions, HARReplayOptions } from './http/har'
+export { deleteHeader, findHeaderName, getHeader } from './http/headers'
+export type { ErrorInterceptor, RequestInterceptor, ResponseInterceptor } from './http/interceptors'
+export { getDefaultNetworkSettings, hasCustomTLS, isNoProxyHost, mergeNetworkSettings, setDefaultNetworkSettings, toClientOptions } from './http/network'
+export type { NetworkSettings, ProxySettings, TLSSettings, TransportOptions } from './http/network'
+export type { RetryErrorKind, RetryPolicy } from './http/retry'
+export { RequestScheduler } from './http/scheduler'
+export type { HostLimits, HostQueueStats, RateLimit, RequestPriority, SchedulerOptions } from './http/scheduler'
+export { formatIssuePath, validateSchema } from './http/schema'
+export type { InferSchemaOutput, StandardSchemaIssue, StandardSchemaResult, StandardSchemaV1, ValidationIssue, ValidationMode } from './http/schema'
+export { readLines, SSEParser } from './http/stream'
+export type { SSEMessage } from './http/stream'
+export { interpolate, resolveRequestTemplate, VariableResolutionError } from './http/template'
+export type { RequestTemplate, ResolvedRequest, TemplateVariables, UnresolvedVariable } from './http/template'
+export type { ChunkCallback, HTTPProgress, ProgressCallback } from './http/transfer'
 
 // ============= 类型定义 =============
 
+/**
+ * 按请求选择 Cookie 容器，返回 null 时不处理 Cookie
+ */
+export type CookieJarResolver = (config: HTTPRequestConfig) => CookieJar | null | Promise<CookieJar | null>
+
 /**
  * HTTP 请求配置
  */
 export interface HTTPConfig {
+  /** 客户端名称，离线发件箱按名称找回该客户端重放请求；同名客户端以最后创建的为准 */
+  name?: string
   baseURL?: string
   timeout?: number
   headers?: Record<string, string>
+  /** @deprecated 请使用 retry.maxAttempts */
   retries?: number
+  /** @deprecated 请使用 retry.baseDelay */
   retryDelay?: number
+  retry?: Partial<RetryPolicy>
+  /** 是否合并相同的并发 GET 请求，默认 true */
+  dedupe?: boolean
+  /** 传输适配器，默认根据运行环境自动选择 */
+  adapter?: HTTPAdapter
+  /** 按主机熔断配置，false 表示关闭 */
+  circuitBreaker?: Partial<CircuitBreakerOptions> | false
+  /** 按主机的并发与限速配置，false 表示不排队 */
+  scheduler?: Partial<SchedulerOptions> | false
+  /** 遵循响应头的 GET 缓存，默认关闭 */
+  cache?: Partial<HTTPCacheOptions> | boolean
+  /** 响应校验失败时的默认处理方式，默认 throw */
+  validation?: ValidationMode
+  /** useTauriHTTP 的变更请求遇到网络错误时保存到离线发件箱，默认 false */
+  outbox?: boolean
+  /** 以 HAR 格式录制请求，默认关闭 */
+  har?: Partial<HARRecorderOptions> | boolean
+  /** 代理设置，覆盖全局网络设置 */
+  network?: NetworkSettings
+  /** 请求体序列化器与响应体解码器，默认使用内置规则 */
+  codecs?: CodecRegistry
+  /** Cookie 容器，自动附加 Cookie 并保存 Set-Cookie；请求的 credentials 为 omit 时跳过，默认关闭 */
+  cookies?: CookieJar | CookieJarResolver | false
+  interceptors?: InterceptorsConfig
 }
 
 /**
@@ -27,41 +140,169 @@ export interface HTTPResponse<T = any> {
   statusText: string
   headers: Record<string, string>
   ok: boolean
+  /** 实际尝试次数（含首次请求） */
+  attempts?: number
+  /** 启用缓存时标记响应来源 */
+  cacheStatus?: HTTPCacheStatus
 }
 
 /**
- * HTTP 错误类型
+ * 响应体类型，未指定时按 Content-Type 选择解码器；document 将 XML 解析为 Document，stream 返回未读取的 ReadableStream
  */
-export interface HTTPError {
-  message: string
-  status?: number
-  statusText?: string
-  url?: string
+export type HTTPResponseType = 'json' | 'text' | 'blob' | 'arrayBuffer' | 'document' | 'stream'
+
+/**
+ * 交给签名函数的请求内容
+ */
+export interface SignableRequest {
+  url: string
+  method: string
+  headers: Record<string, string>
+  body: BodyInit | null | undefined
 }
 
+/**
+ * 请求签名函数，返回的请求头合并到本次发送的请求中
+ */
+export type RequestSigner = (request: SignableRequest) => Promise<Record<string, string>>
+
 /**
  * 请求选项
  */
-export interface RequestOptions extends RequestInit {
+export interface RequestOptions<T = any> extends RequestInit {
   timeout?: number
+  /** @deprecated 请使用 retry.maxAttempts */
   retries?: number
+  /** @deprecated 请使用 retry.baseDelay */
   retryDelay?: number
+  /** 本次请求的重试策略，false 表示不重试 */
+  retry?: Partial<RetryPolicy> | false
+  /** 是否与相同的并发 GET 请求共享一次网络调用 */
+  dedupe?: boolean
+  /** 排队优先级，默认 auto */
+  priority?: RequestPriority
   baseURL?: string
+  /** 响应体类型 */
+  responseType?: HTTPResponseType
+  /** 上传进度回调（Tauri 传输层一次性发送请求体，仅报告开始与完成） */
+  onUploadProgress?: ProgressCallback
+  /** 下载进度回调 */
+  onDownloadProgress?: ProgressCallback
+  /** 按块接收响应体，提供后响应数据不在内存中累积 */
+  onChunk?: ChunkCallback
+  /** 附加元数据，仅供拦截器读取，不会发送 */
+  meta?: Record<string, any>
+  /** 响应数据的 schema，校验通过后 data 为 schema 的输出类型 */
+  schema?: StandardSchemaV1<unknown, T>
+  /** 校验失败时的处理方式 */
+  validation?: ValidationMode
+  /** 网络错误时保存到离线发件箱（仅 useTauriHTTP 的变更请求，请求体需可序列化） */
+  outbox?: boolean
+  /** 本次请求的代理设置，覆盖客户端与全局设置 */
+  network?: NetworkSettings
+  /** 请求签名，每次发送（含重试）前重新计算，签名中的时间戳不会因排队或重试而过期 */
+  sign?: RequestSigner
+}
+
+/**
+ * 经过合并后交给拦截器的请求配置
+ */
+export interface HTTPRequestConfig extends Omit<RequestOptions, 'headers'> {
+  url: string
+  headers: Record<string, string>
+}
+
+/**
+ * 下载选项
+ */
+export type DownloadOptions = Omit<RequestOptions, 'body' | 'responseType' | 'schema'>
+
+/**
+ * 流式请求选项
+ */
+export interface StreamOptions extends Omit<
+  RequestOptions,
+  'responseType' | 'onDownloadProgress' | 'onChunk' | 'schema' | 'validation' | 'outbox' | 'dedupe' | 'cache' | 'retry' | 'retries' | 'retryDelay'
+> {
+  /** 收到响应头、连接建立时回调 */
+  onOpen?: () => void
+}
+
+/**
+ * SSE 连接选项
+ */
+export interface EventSourceOptions extends StreamOptions {
+  /** 断开后是否自动重连，默认 true */
+  reconnect?: boolean
+  /** 重连间隔（毫秒），服务器通过 retry 字段指定时以服务器为准，默认 3000 */
+  reconnectDelay?: number
+  /** 连续重连次数上限，默认不限 */
+  maxReconnects?: number
+  /** 首次连接时发送的 Last-Event-ID */
+  lastEventId?: string
+  /** 连接断开时回调，willReconnect 表示是否会自动重连 */
+  onDisconnect?: (error: HTTPError | null, willReconnect: boolean) => void
+}
+
+/**
+ * 已建立的流式连接
+ */
+interface OpenedStream {
+  response: Response
+  config: HTTPRequestConfig
+  method: string
+}
+
+/**
+ * 进行中的请求，可被多个调用方共享
+ */
+interface InflightRequest {
+  promise: Promise<HTTPResponse>
+  controller: AbortController
+  subscribers: number
+  settled: boolean
 }
 
 // ============= HTTP 客户端类 =============
 
+/**
+ * 按名称注册的客户端
+ */
+const namedHTTPClients = new Map<string, TauriHTTPClient>()
+
 /**
  * HTTP 客户端
  */
 export class TauriHTTPClient {
   private config: HTTPConfig
+  private pending = new Set<AbortController>()
+  private inflight = new Map<string, InflightRequest>()
+  private adapter: HTTPAdapter
+  readonly interceptors: HTTPInterceptors
+  /** 按主机划分的熔断器，关闭时为 null */
+  readonly circuitBreaker: CircuitBreaker | null
+  /** 按主机的请求调度器，关闭时为 null */
+  readonly scheduler: RequestScheduler | null
+  /** HTTP 缓存，未启用时为 null */
+  readonly cache: HTTPCache | null
+  /** HAR 录制器，未录制时为 null */
+  recorder: HARRecorder | null
+  /** 请求体序列化器与响应体解码器 */
+  readonly codecs: CodecRegistry
 
   constructor(config: HTTPConfig = {}) {
+    this.interceptors = new HTTPInterceptors(config.interceptors)
+    this.adapter = config.adapter ?? autoAdapter
+    this.circuitBreaker = config.circuitBreaker === false ? null : new CircuitBreaker(config.circuitBreaker)
+    this.scheduler = config.scheduler === false ? null : new RequestScheduler(config.scheduler)
+    this.cache = config.cache ? new HTTPCache(config.cache === true ? {} : config.cache) : null
+    this.recorder = config.har ? new HARRecorder(config.har === true ? {} : config.har) : null
+    this.codecs = config.codecs ?? new CodecRegistry()
+    if (config.name)
+      namedHTTPClients.set(config.name, this)
+
     this.config = {
       timeout: 10000,
-      retries: 3,
-      retryDelay: 1000,
       headers: {
         'Content-Type': 'application/json',
       },
@@ -69,10 +310,17 @@ export class TauriHTTPClient {
     }
   }
 
+  /**
+   * 客户端配置（包含默认值）
+   */
+  get options(): Readonly<HTTPConfig> {
+    return this.config
+  }
+
   /**
    * 构建完整 URL
    */
-  private buildURL(url: string, baseURL?: string): string {
+  buildURL(url: string, baseURL?: string): string {
     const base = baseURL || this.config.baseURL || ''
 
     if (!base)
@@ -94,129 +342,771 @@ export class TauriHTTPClient {
   }
 
   /**
-   * 创建 AbortController 用于超时控制
+   * 当前使用的传输适配器
    */
-  private createTimeoutController(timeout?: number): AbortController {
-    const controller = new AbortController()
-    const timeoutMs = timeout || this.config.timeout || 10000
+  get adapterName(): string {
+    return this.adapter.name
+  }
 
-    setTimeout(() => {
-      controller.abort()
-    }, timeoutMs)
+  /**
+   * 替换传输适配器
+   */
+  setAdapter(adapter: HTTPAdapter) {
+    this.adapter = adapter
+  }
 
-    return controller
+  /**
+   * 开始录制 HAR，已在录制时继续使用当前录制器；传入录制器时可与其他客户端共用同一份记录
+   */
+  startRecording(options?: Partial<HARRecorderOptions> | HARRecorder): HARRecorder {
+    this.recorder ??= options instanceof HARRecorder ? options : new HARRecorder(options)
+    return this.recorder
+  }
+
+  /**
+   * 停止录制并返回已记录的 HAR
+   */
+  stopRecording(): HarLog | null {
+    const har = this.recorder?.export() ?? null
+    this.recorder = null
+    return har
+  }
+
+  /**
+   * 获取本次请求使用的 Cookie 容器
+   */
+  private async resolveCookieJar(config: HTTPRequestConfig): Promise<CookieJar | null> {
+    const cookies = this.config.cookies
+    if (!cookies || config.credentials === 'omit')
+      return null
+    return cookies instanceof CookieJar ? cookies : await cookies(config)
+  }
+
+  /**
+   * 通过适配器发出请求：签名，附加并保存 Cookie，录制中时记录到 HAR
+   * 重定向由传输层处理，中间响应的 Set-Cookie 无法保存
+   */
+  private async transport(url: string, init: RequestInit, config: HTTPRequestConfig): Promise<Response> {
+    if (config.sign) {
+      const headers = init.headers as Record<string, string>
+      const signed = await config.sign({ url, method: (init.method || 'GET').toUpperCase(), headers, body: init.body })
+      init = { ...init, headers: { ...headers, ...signed } }
+    }
+
+    const jar = await this.resolveCookieJar(config)
+    const cookie = jar?.getCookieHeader(url)
+    if (cookie) {
+      const headers = { ...init.headers as Record<string, string> }
+      const key = findHeaderName(headers, 'Cookie') ?? 'Cookie'
+      headers[key] = headers[key] ? `${headers[key]}; ${cookie}` : cookie
+      init = { ...init, headers }
+    }
+
+    const response = this.recorder
+      ? await this.recorder.capture(url, init, () => this.adapter.fetch(url, init))
+      : await this.adapter.fetch(url, init)
+    jar?.setFromResponse(response.url || url, response.headers)
+    return response
+  }
+
+  /**
+   * 获取超时时间
+   */
+  private getTimeout(config: HTTPRequestConfig): number {
+    return config.timeout || this.config.timeout || 10000
+  }
+
+  /**
+   * 进行中的请求数量
+   */
+  get pendingCount(): number {
+    return this.pending.size
+  }
+
+  /**
+   * 排队等待发送的请求数量
+   */
+  get queueDepth(): number {
+    return this.scheduler?.queueDepth ?? 0
+  }
+
+  /**
+   * 取消该客户端所有进行中的请求
+   */
+  cancelAll(reason?: unknown) {
+    for (const controller of this.pending) {
+      controller.abort(reason)
+    }
   }
 
   /**
    * 执行 HTTP 请求
    */
-  async request<T = any>(url: string, options: RequestOptions = {}): Promise<HTTPResponse<T>> {
-    const fullURL = this.buildURL(url, options.baseURL)
-    const headers = this.mergeHeaders(options)
-    const retries = options.retries ?? this.config.retries ?? 3
-    const retryDelay = options.retryDelay ?? this.config.retryDelay ?? 1000
+  async request<T = any>(url: string, options: RequestOptions<T> = {}): Promise<HTTPResponse<T>> {
+    let config: HTTPRequestConfig = {
+      ...options,
+      url: this.buildURL(url, options.baseURL),
+      headers: this.mergeHeaders(options),
+    }
 
-    let lastError: HTTPError | null = null
+    // FormData 需要由 fetch 自动生成带 boundary 的 Content-Type
+    if (config.body instanceof FormData) {
+      deleteHeader(config.headers, 'Content-Type')
+    }
 
-    for (let attempt = 0; attempt <= retries; attempt++) {
-      try {
-        const controller = this.createTimeoutController(options.timeout)
+    try {
+      // 请求拦截器抛出的错误（如签名失败、刷新令牌失败）同样交给错误拦截器
+      config = await this.interceptors.runRequest(config)
+      const response = await this.interceptors.runResponse(await this.sendCached<T>(config), config) as HTTPResponse<T>
+      return await this.validateResponse(response, config)
+    }
+    catch (error) {
+      return await this.interceptors.runError(error, config) as HTTPResponse<T>
+    }
+  }
 
-        const response = await fetch(fullURL, {
-          ...options,
-          headers,
-          signal: controller.signal,
+  /**
+   * 按请求的 schema 校验响应数据（在响应拦截器之后执行）
+   */
+  private async validateResponse<T>(response: HTTPResponse<T>, config: HTTPRequestConfig): Promise<HTTPResponse<T>> {
+    if (!config.schema)
+      return response
+
+    const data = await validateSchema<T>(config.schema, response.data, config.validation ?? this.config.validation, {
+      url: config.url,
+      method: (config.method || 'GET').toUpperCase(),
+      attempts: response.attempts,
+    })
+    return { ...response, data }
+  }
+
+  /**
+   * 经过缓存发送请求
+   * 请求的 cache 选项沿用 fetch 语义：no-store 跳过缓存，reload 忽略已有缓存，
+   * no-cache 总是重新验证，force-cache 与 only-if-cached 直接使用已有缓存
+   */
+  private async sendCached<T>(config: HTTPRequestConfig): Promise<HTTPResponse<T>> {
+    const cache = this.cache
+    const method = (config.method || 'GET').toUpperCase()
+    const mode = config.cache ?? 'default'
+
+    if (!cache || method !== 'GET' || mode === 'no-store' || config.onDownloadProgress || config.onChunk || config.responseType === 'stream') {
+      const response = await this.send<T>(config)
+      // 非安全方法成功后使该 URL 的缓存失效
+      if (cache && !['GET', 'HEAD', 'OPTIONS'].includes(method) && response.ok)
+        await cache.invalidate(config.url)
+      return response
+    }
+
+    const cached = mode === 'reload' ? undefined : await cache.match(config)
+    if (cached) {
+      const freshness = mode === 'no-cache' ? 'stale' : cache.freshness(cached)
+      if (freshness === 'fresh' || mode === 'force-cache' || mode === 'only-if-cached')
+        return cache.toResponse<T>(cached, 'hit')
+
+      // 先返回过期数据，后台重新验证
+      if (freshness === 'stale-while-revalidate') {
+        this.revalidate(cache, { ...config, signal: undefined, priority: 'low' }, cached).catch(() => {})
+        return cache.toResponse<T>(cached, 'stale')
+      }
+    }
+
+    if (mode === 'only-if-cached')
+      throw new HTTPNetworkError('没有可用的缓存', { url: config.url, method })
+
+    return this.revalidate<T>(cache, config, cached)
+  }
+
+  /**
+   * 发送请求并更新缓存，存在缓存时附带条件请求头，304 视为命中
+   */
+  private async revalidate<T>(cache: HTTPCache, config: HTTPRequestConfig, cached?: CachedResponse): Promise<HTTPResponse<T>> {
+    const request = cached ? { ...config, headers: { ...config.headers, ...cache.validators(cached) } } : config
+    const response = await this.send<T>(request)
+
+    if (response.status === 304 && cached) {
+      const updated = await cache.refresh(config, cached, response.headers)
+      return { ...cache.toResponse<T>(updated, 'revalidated'), attempts: response.attempts }
+    }
+
+    await cache.put(config, response)
+    return { ...response, cacheStatus: 'fetched' }
+  }
+
+  /**
+   * 生成并发合并的键，非 GET/HEAD 或关闭合并时返回 null
+   */
+  private getDedupeKey(config: HTTPRequestConfig): string | null {
+    const method = (config.method || 'GET').toUpperCase()
+    if (method !== 'GET' && method !== 'HEAD')
+      return null
+    if ((config.dedupe ?? this.config.dedupe) === false)
+      return null
+    // 带进度或分块回调的请求需要独立的响应流
+    if (config.onDownloadProgress || config.onChunk || config.responseType === 'stream')
+      return null
+
+    const headers = Object.keys(config.headers)
+      .sort()
+      .map(key => `${key.toLowerCase()}:${config.headers[key]}`)
+      .join('\n')
+    return `${method} ${config.url} ${config.responseType ?? 'auto'}\n${headers}`
+  }
+
+  /**
+   * 发送请求，相同的并发 GET 请求共享一次网络调用
+   */
+  private send<T>(config: HTTPRequestConfig): Promise<HTTPResponse<T>> {
+    const key = this.getDedupeKey(config)
+    let flight = key ? this.inflight.get(key) : undefined
+
+    if (!flight) {
+      const controller = new AbortController()
+      const created: InflightRequest = {
+        promise: this.dispatch(config, controller.signal),
+        controller,
+        subscribers: 0,
+        settled: false,
+      }
+      flight = created
+
+      this.pending.add(controller)
+      if (key)
+        this.inflight.set(key, created)
+
+      created.promise
+        .finally(() => {
+          created.settled = true
+          this.pending.delete(controller)
+          if (key && this.inflight.get(key) === created)
+            this.inflight.delete(key)
         })
+        .catch(() => {})
+    }
 
-        // 解析响应数据
-        let data: T
-        const contentType = response.headers.get('content-type') || ''
+    return this.subscribe(flight, config) as Promise<HTTPResponse<T>>
+  }
 
-        if (contentType.includes('application/json')) {
-          data = await response.json()
-        }
-        else if (contentType.includes('text/')) {
-          data = await response.text() as T
-        }
-        else {
-          data = await response.arrayBuffer() as T
+  /**
+   * 订阅进行中的请求
+   * 调用方取消时仅自身退出，所有订阅方都取消后才真正中止请求
+   */
+  private subscribe(flight: InflightRequest, config: HTTPRequestConfig): Promise<HTTPResponse> {
+    flight.subscribers++
+
+    return new Promise((resolve, reject) => {
+      const signal = config.signal
+
+      function release() {
+        signal?.removeEventListener('abort', onAbort)
+        flight.subscribers--
+      }
+
+      function onAbort() {
+        release()
+        if (flight.subscribers === 0 && !flight.settled)
+          flight.controller.abort(signal?.reason)
+        reject(new HTTPAbortError({ url: config.url, method: config.method, cause: signal?.reason }))
+      }
+
+      if (signal?.aborted) {
+        onAbort()
+        return
+      }
+      signal?.addEventListener('abort', onAbort, { once: true })
+
+      flight.promise.then(
+        (response) => {
+          release()
+          // 每个订阅方拿到独立的响应对象，避免拦截器相互影响
+          resolve({ ...response })
+        },
+        (error) => {
+          release()
+          reject(error)
+        },
+      )
+    })
+  }
+
+  /**
+   * 提取交给 fetch 的原生请求参数，并附加代理与 TLS 参数
+   */
+  private toRequestInit(config: HTTPRequestConfig): RequestInit & TransportOptions {
+    const {
+      url: _url,
+      timeout: _timeout,
+      retries: _retries,
+      retryDelay: _retryDelay,
+      retry: _retry,
+      dedupe: _dedupe,
+      cache: _cache,
+      signal: _signal,
+      baseURL: _baseURL,
+      responseType: _responseType,
+      onUploadProgress: _onUploadProgress,
+      onDownloadProgress: _onDownloadProgress,
+      onChunk: _onChunk,
+      meta: _meta,
+      schema: _schema,
+      validation: _validation,
+      outbox: _outbox,
+      sign: _sign,
+      network,
+      ...init
+    } = config
+    const settings = mergeNetworkSettings(getDefaultNetworkSettings(), this.config.network, network)
+    return { ...init, ...toClientOptions(config.url, settings) }
+  }
+
+  /**
+   * 解析本次请求的重试策略
+   * 兼容旧的 retries / retryDelay 配置
+   */
+  private resolveRetry(config: HTTPRequestConfig): RetryPolicy {
+    if (config.retry === false)
+      return resolveRetryPolicy({ maxAttempts: 1 })
+
+    const legacy = (retries?: number, retryDelay?: number): Partial<RetryPolicy> => ({
+      ...(retries !== undefined && { maxAttempts: retries + 1 }),
+      ...(retryDelay !== undefined && { baseDelay: retryDelay }),
+    })
+
+    return resolveRetryPolicy(
+      legacy(this.config.retries, this.config.retryDelay),
+      this.config.retry,
+      legacy(config.retries, config.retryDelay),
+      config.retry,
+    )
+  }
+
+  /**
+   * 读取并解析响应体
+   */
+  private async parseBody<T>(
+    response: Response,
+    options: Pick<RequestOptions, 'responseType' | 'onDownloadProgress' | 'onChunk'>,
+    url: string,
+    method: string,
+  ): Promise<T> {
+    const contentType = response.headers.get('content-type') || ''
+    if (options.responseType === 'stream')
+      return response.body as T
+
+    const bytes = await readResponseBytes(response, {
+      onProgress: options.onDownloadProgress,
+      onChunk: options.onChunk,
+    })
+
+    try {
+      switch (options.responseType) {
+        case 'blob':
+          return new Blob([bytes], { type: contentType }) as T
+        case 'arrayBuffer':
+          return bytes.buffer as T
+        case 'text':
+          return new TextDecoder().decode(bytes) as T
+        case 'document':
+          return parseXMLDocument(new TextDecoder().decode(bytes)) as T
+        case 'json': {
+          const raw = new TextDecoder().decode(bytes)
+          return (raw ? JSON.parse(raw) : null) as T
         }
+        default:
+          // 没有匹配的解码器时返回原始字节
+          return (this.codecs.canDecode(contentType) ? this.codecs.decode(bytes, contentType) : bytes.buffer) as T
+      }
+    }
+    catch (error) {
+      const raw = new TextDecoder().decode(bytes)
+      throw new HTTPParseError({ status: response.status, contentType, raw }, { url, method, cause: error })
+    }
+  }
+
+  /**
+   * 解析错误响应的响应体并生成 HTTPStatusError
+   */
+  private async toStatusError(response: Response, url: string, method: string): Promise<HTTPStatusError> {
+    const body = await this.parseBody(response, {}, url, method)
+      .catch(error => error instanceof HTTPParseError ? error.raw : undefined)
+    return new HTTPStatusError(
+      {
+        status: response.status,
+        statusText: response.statusText,
+        headers: Object.fromEntries(response.headers.entries()),
+        body,
+      },
+      { url, method },
+    )
+  }
+
+  /**
+   * 将 fetch 抛出的异常转换为对应的错误类型
+   */
+  private toRequestError(error: unknown, timedOut: boolean, signal: AbortSignal, config: HTTPRequestConfig, method: string): HTTPError {
+    const options = { url: config.url, method, cause: error }
+
+    if (error instanceof HTTPError)
+      return error
+    if (timedOut)
+      return new HTTPTimeoutError(this.getTimeout(config), options)
+    if (signal.aborted)
+      return new HTTPAbortError(options)
+
+    const message = error instanceof Error ? error.message : String(error)
+    return new HTTPNetworkError(message || undefined, options)
+  }
+
+  /**
+   * 发送请求（含重试）
+   */
+  private async dispatch<T>(config: HTTPRequestConfig, signal: AbortSignal): Promise<HTTPResponse<T>> {
+    const { url: fullURL, headers } = config
+    const init = this.toRequestInit(config)
+    const method = (config.method || 'GET').toUpperCase()
+    const policy = this.resolveRetry(config)
+    const bodySize = getBodySize(config.body)
+    const host = getURLHost(fullURL)
+
+    for (let attempt = 1; ; attempt++) {
+      const upload = config.onUploadProgress ? new ProgressTracker(bodySize, config.onUploadProgress) : null
+      let scope: AbortScope | null = null
+      let release: (() => void) | null = null
+      let lastError: HTTPError
+
+      try {
+        // 熔断时直接失败，不发出请求
+        if (host && this.circuitBreaker)
+          this.circuitBreaker.acquire(host, { url: fullURL, method })
+
+        // 排队等待名额，超时从获得名额后开始计算
+        if (host && this.scheduler)
+          release = await this.scheduler.acquire(host, config.priority, signal)
+        scope = createAbortScope(this.getTimeout(config), signal)
+
+        upload?.update(0)
+        const response = await this.transport(fullURL, {
+          ...init,
+          headers,
+          signal: scope.signal,
+        }, config)
+        upload?.complete(bodySize ?? 0)
+        const responseHeaders = Object.fromEntries(response.headers.entries())
+
+        // 检查响应状态，错误响应同样解析响应体供调用方读取；304 交由缓存处理
+        if (!response.ok && response.status !== 304)
+          throw await this.toStatusError(response, fullURL, method)
+
+        const data = response.status === 304
+          ? null as T
+          : await this.parseBody<T>(response, config, fullURL, method)
+        this.settleCircuit(host)
 
         // 构建响应对象
-        const httpResponse: HTTPResponse<T> = {
+        return {
           data,
           status: response.status,
           statusText: response.statusText,
-          headers: Object.fromEntries(response.headers.entries()),
+          headers: responseHeaders,
           ok: response.ok,
+          attempts: attempt,
         }
+      }
+      catch (error) {
+        lastError = this.toRequestError(error, scope?.timedOut ?? false, signal, config, method)
+        lastError.attempts = attempt
+        this.settleCircuit(host, lastError)
+      }
+      finally {
+        scope?.clear()
+        release?.()
+      }
 
-        // 检查响应状态
-        if (!response.ok) {
-          throw new Error('error')
-        }
+      const kind = this.getRetryKind(lastError)
+      const info = {
+        attempt,
+        method,
+        kind: kind ?? 'network',
+        status: lastError instanceof HTTPStatusError ? lastError.status : undefined,
+        headers: lastError instanceof HTTPStatusError ? lastError.headers : undefined,
+      }
+      const delay = kind && shouldRetry(policy, info) ? getRetryDelay(policy, info) : null
 
-        return httpResponse
+      // 不满足重试条件时抛出错误
+      if (delay === null) {
+        throw lastError
       }
-      catch (error: any) {
-        lastError = {
-          message: error.message || 'Request failed',
-          status: error.status,
-          statusText: error.statusText,
-          url: fullURL,
+
+      // 等待后重试，等待期间可被取消
+      if (delay > 0) {
+        await abortableDelay(delay, signal).catch((reason) => {
+          throw new HTTPAbortError({ url: fullURL, method, attempts: attempt, cause: reason })
+        })
+      }
+    }
+  }
+
+  /**
+   * 建立流式连接
+   * 超时只作用于等待响应头阶段；长连接不经过调度器与熔断器，避免长期占用主机名额
+   */
+  private async openStream(url: string, { onOpen: _onOpen, ...options }: StreamOptions, connection: AbortController): Promise<OpenedStream> {
+    let config: HTTPRequestConfig = {
+      ...options,
+      url: this.buildURL(url, options.baseURL),
+      headers: this.mergeHeaders(options),
+    }
+    config = await this.interceptors.runRequest(config)
+    const method = (config.method || 'GET').toUpperCase()
+
+    let timedOut = false
+    const timer = setTimeout(() => {
+      timedOut = true
+      connection.abort()
+    }, this.getTimeout(config))
+
+    try {
+      const response = await this.transport(config.url, {
+        ...this.toRequestInit(config),
+        headers: config.headers,
+        signal: connection.signal,
+      }, config)
+      if (!response.ok)
+        throw await this.toStatusError(response, config.url, method)
+      return { response, config, method }
+    }
+    catch (error) {
+      throw this.toRequestError(error, timedOut, connection.signal, config, method)
+    }
+    finally {
+      clearTimeout(timer)
+    }
+  }
+
+  /**
+   * 逐行读取流式响应，读取中断时转换为 HTTPError
+   */
+  private async* readStream({ response, config, method }: OpenedStream, connection: AbortController): AsyncGenerator<string> {
+    if (!response.body)
+      return
+    try {
+      yield* readLines(response.body)
+    }
+    catch (error) {
+      throw this.toRequestError(error, false, connection.signal, config, method)
+    }
+  }
+
+  /**
+   * 读取 NDJSON 流，逐行产出解析后的对象
+   * 调用方通过 signal 取消或提前退出循环时关闭连接，不抛出错误
+   */
+  async* stream<T = any>(url: string, options: StreamOptions = {}): AsyncGenerator<T> {
+    const connection = new AbortController()
+    const unlink = linkAbortSignal(options.signal, connection)
+
+    try {
+      const opened = await this.openStream(url, {
+        ...options,
+        headers: { Accept: 'application/x-ndjson', ...options.headers as Record<string, string> },
+      }, connection)
+      options.onOpen?.()
+
+      for await (const line of this.readStream(opened, connection)) {
+        if (!line.trim())
+          continue
+
+        let record: T
+        try {
+          record = JSON.parse(line)
+        }
+        catch (error) {
+          throw new HTTPParseError(
+            { status: opened.response.status, contentType: opened.response.headers.get('content-type') || '', raw: line },
+            { url: opened.config.url, method: opened.method, cause: error },
+          )
         }
+        yield record
+      }
+    }
+    catch (error) {
+      if (options.signal?.aborted)
+        return
+      throw error
+    }
+    finally {
+      unlink()
+      connection.abort()
+    }
+  }
 
-        // 如果是最后一次尝试，抛出错误
-        if (attempt === retries) {
-          throw lastError
+  /**
+   * 订阅 Server-Sent Events
+   * 网络错误、超时或服务器正常断开时按 retry 间隔重连并携带 Last-Event-ID；
+   * 非 2xx 响应不重连，204 表示服务器要求停止
+   */
+  async* eventSource(url: string, options: EventSourceOptions = {}): AsyncGenerator<SSEMessage> {
+    const {
+      reconnect = true,
+      reconnectDelay = 3000,
+      maxReconnects = Infinity,
+      lastEventId,
+      onDisconnect,
+      ...init
+    } = options
+    const parser = new SSEParser(lastEventId)
+    let reconnects = 0
+
+    while (!init.signal?.aborted) {
+      const connection = new AbortController()
+      const unlink = linkAbortSignal(init.signal, connection)
+      let lastError: HTTPError | null = null
+
+      try {
+        const opened = await this.openStream(url, {
+          ...init,
+          headers: {
+            'Accept': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            ...init.headers as Record<string, string>,
+            ...(parser.lastEventId && { 'Last-Event-ID': parser.lastEventId }),
+          },
+        }, connection)
+
+        if (opened.response.status === 204) {
+          onDisconnect?.(null, false)
+          return
         }
 
-        // 等待后重试
-        if (retryDelay > 0) {
-          await new Promise(resolve => setTimeout(resolve, retryDelay))
+        reconnects = 0
+        init.onOpen?.()
+
+        for await (const line of this.readStream(opened, connection)) {
+          const message = parser.push(line)
+          if (message)
+            yield message
+        }
+      }
+      catch (error) {
+        if (init.signal?.aborted)
+          return
+
+        lastError = toHTTPError(error)
+        if (!(lastError instanceof HTTPNetworkError || lastError instanceof HTTPTimeoutError)) {
+          onDisconnect?.(lastError, false)
+          throw lastError
         }
       }
+      finally {
+        unlink()
+        connection.abort()
+      }
+
+      parser.reset()
+      reconnects++
+      const willReconnect = reconnect && reconnects <= maxReconnects
+      onDisconnect?.(lastError, willReconnect)
+      if (!willReconnect) {
+        if (lastError)
+          throw lastError
+        return
+      }
+
+      await abortableDelay(parser.retry ?? reconnectDelay, init.signal).catch(() => {})
     }
+  }
 
-    throw lastError
+  /**
+   * 向熔断器报告本次尝试的结果
+   */
+  private settleCircuit(host: string | null, error?: HTTPError) {
+    if (!host || !this.circuitBreaker || error instanceof HTTPCircuitOpenError)
+      return
+    if (error instanceof HTTPAbortError)
+      this.circuitBreaker.release(host)
+    else
+      this.circuitBreaker.record(host, error)
+  }
+
+  /**
+   * 错误对应的重试类型，取消与解析失败不重试
+   */
+  private getRetryKind(error: HTTPError): RetryErrorKind | null {
+    if (error instanceof HTTPStatusError)
+      return 'status'
+    if (error instanceof HTTPTimeoutError)
+      return 'timeout'
+    if (error instanceof HTTPNetworkError)
+      return 'network'
+    return null
+  }
+
+  /**
+   * 按 Content-Type 序列化请求体，FormData、Blob 等原生类型直接发送
+   * 字符串默认与其他值一样按 JSON 序列化，只有指定了非 JSON 的 Content-Type 时原样发送
+   */
+  serializeBody(data: any, headers?: HeadersInit): BodyInit | undefined {
+    if (data === undefined || data === null)
+      return undefined
+
+    const contentType = new Headers(headers).get('content-type') ?? new Headers(this.config.headers).get('content-type')
+    if (typeof data === 'string') {
+      const mimeType = getMimeType(contentType)
+      return mimeType && !isJSONMimeType(mimeType) ? data : JSON.stringify(data)
+    }
+    if (isRawBody(data))
+      return data
+    return this.codecs.serialize(data, contentType)
   }
 
   /**
    * GET 请求
    */
-  async get<T = any>(url: string, options: Omit<RequestOptions, 'method' | 'body'> = {}): Promise<HTTPResponse<T>> {
+  async get<T = any>(url: string, options: Omit<RequestOptions<T>, 'method' | 'body'> = {}): Promise<HTTPResponse<T>> {
     return this.request<T>(url, { ...options, method: 'GET' })
   }
 
   /**
    * POST 请求
    */
-  async post<T = any>(url: string, data?: any, options: Omit<RequestOptions, 'method'> = {}): Promise<HTTPResponse<T>> {
-    const body = data ? JSON.stringify(data) : undefined
-    return this.request<T>(url, { ...options, method: 'POST', body })
+  async post<T = any>(url: string, data?: any, options: Omit<RequestOptions<T>, 'method'> = {}): Promise<HTTPResponse<T>> {
+    return this.request<T>(url, { ...options, method: 'POST', body: this.serializeBody(data, options.headers) })
   }
 
   /**
    * PUT 请求
    */
-  async put<T = any>(url: string, data?: any, options: Omit<RequestOptions, 'method'> = {}): Promise<HTTPResponse<T>> {
-    const body = data ? JSON.stringify(data) : undefined
-    return this.request<T>(url, { ...options, method: 'PUT', body })
+  async put<T = any>(url: string, data?: any, options: Omit<RequestOptions<T>, 'method'> = {}): Promise<HTTPResponse<T>> {
+    return this.request<T>(url, { ...options, method: 'PUT', body: this.serializeBody(data, options.headers) })
   }
 
   /**
    * DELETE 请求
    */
-  async delete<T = any>(url: string, options: Omit<RequestOptions, 'method' | 'body'> = {}): Promise<HTTPResponse<T>> {
+  async delete<T = any>(url: string, options: Omit<RequestOptions<T>, 'method' | 'body'> = {}): Promise<HTTPResponse<T>> {
     return this.request<T>(url, { ...options, method: 'DELETE' })
   }
 
   /**
    * PATCH 请求
    */
-  async patch<T = any>(url: string, data?: any, options: Omit<RequestOptions, 'method'> = {}): Promise<HTTPResponse<T>> {
-    const body = data ? JSON.stringify(data) : undefined
-    return this.request<T>(url, { ...options, method: 'PATCH', body })
+  async patch<T = any>(url: string, data?: any, options: Omit<RequestOptions<T>, 'method'> = {}): Promise<HTTPResponse<T>> {
+    return this.request<T>(url, { ...options, method: 'PATCH', body: this.serializeBody(data, options.headers) })
+  }
+
+  /**
+   * 上传文件或表单，默认使用 POST
+   */
+  async upload<T = any>(url: string, body: FormData | Blob | ArrayBuffer, options: RequestOptions<T> = {}): Promise<HTTPResponse<T>> {
+    return this.request<T>(url, { method: 'POST', ...options, body })
+  }
+
+  /**
+   * 流式下载，默认返回 Blob；提供 onChunk 时数据交给回调处理，data 为 null
+   */
+  async download(url: string, options: DownloadOptions = {}): Promise<HTTPResponse<Blob | null>> {
+    const response = await this.request<Blob>(url, { method: 'GET', ...options, responseType: 'blob' })
+    return options.onChunk ? { ...response, data: null } : response
   }
 }
 
@@ -234,75 +1124,212 @@ export function useTauriHTTP(config?: HTTPConfig) {
   // 创建或获取 HTTP 客户端实例
   const httpClient = config
     ? new TauriHTTPClient(config)
-    : (
-        globalHTTPClient || (globalHTTPClient = new TauriHTTPClient())
-      )
+    : getGlobalHTTPClient()
+
+  // 命名客户端重新创建后，继续重放由它发起的离线请求
+  if (config?.name && config.outbox && import.meta.client && navigator.onLine)
+    useOutbox().flush().catch(err => console.error('[Outbox] 重放离线请求失败:', err))
 
   // 响应式状态
   const loading = ref(false)
-  const error = ref<HTTPError | null>(null)
+  const error = shallowRef<HTTPError | null>(null)
+  const uploadProgress = shallowRef<HTTPProgress | null>(null)
+  const downloadProgress = shallowRef<HTTPProgress | null>(null)
+  /** 最近一次变更请求是否因离线保存到了发件箱 */
+  const queued = ref(false)
+
+  // 当前 composable 发起的请求，组件卸载时统一取消
+  const controllers = new Set<AbortController>()
+  let disposed = false
 
   /**
    * 执行请求的包装函数
    */
-  async function executeRequest<T>(requestFn: () => Promise<HTTPResponse<T>>): Promise<HTTPResponse<T> | null> {
+  async function executeRequest<T>(
+    requestFn: (signal: AbortSignal) => Promise<HTTPResponse<T>>,
+    callerSignal?: AbortSignal | null,
+    handleError?: (error: HTTPError) => Promise<boolean>,
+  ): Promise<HTTPResponse<T> | null> {
+    const controller = new AbortController()
+    const unlink = linkAbortSignal(callerSignal, controller)
+    controllers.add(controller)
+
     try {
       loading.value = true
       error.value = null
 
-      const response = await requestFn()
+      const response = await requestFn(controller.signal)
       return response
     }
-    catch (err: any) {
-      error.value = err
-      console.error('HTTP 请求失败:', err)
+    catch (err) {
+      const httpError = toHTTPError(err)
+      if (await handleError?.(httpError).catch(() => false))
+        return null
+      // 卸载导致的取消不视为错误
+      if (!(disposed && httpError instanceof HTTPAbortError)) {
+        error.value = httpError
+        console.error('HTTP 请求失败:', err)
+      }
       return null
     }
     finally {
+      unlink()
+      controllers.delete(controller)
       loading.value = false
     }
   }
 
+  /**
+   * 取消当前 composable 发起的所有请求
+   */
+  function cancel(reason?: unknown) {
+    for (const controller of controllers) {
+      controller.abort(reason)
+    }
+  }
+
+  if (getCurrentScope()) {
+    onScopeDispose(() => {
+      disposed = true
+      cancel()
+    })
+  }
+
+  /**
+   * 发送变更请求
+   * 启用发件箱时附带幂等键；离线、发件箱中仍有未发出的请求，或发送时遇到网络错误、超时时，
+   * 保存请求并返回 null，网络恢复后按顺序重放
+   */
+  async function mutate<T>(
+    method: string,
+    url: string,
+    data: any,
+    options: Omit<RequestOptions<T>, 'method'> | undefined,
+    send: (options: Omit<RequestOptions<T>, 'method'>) => Promise<HTTPResponse<T>>,
+  ) {
+    queued.value = false
+    const body = httpClient.serializeBody(data, options?.headers)
+    const persistable = body === undefined || typeof body === 'string' || body instanceof URLSearchParams
+    if (!(options?.outbox ?? httpClient.options.outbox) || !persistable)
+      return executeRequest(signal => send({ ...options, signal }), options?.signal)
+
+    const headers = { ...options?.headers as Record<string, string> }
+    const idempotencyKey = getHeader(headers, IDEMPOTENCY_HEADER) ?? createIdempotencyKey()
+    deleteHeader(headers, IDEMPOTENCY_HEADER)
+    headers[IDEMPOTENCY_HEADER] = idempotencyKey
+
+    const outbox = useOutbox()
+    const enqueue = async () => {
+      await outbox.enqueue({
+        method,
+        url: httpClient.buildURL(url, options?.baseURL),
+        headers,
+        body: body === undefined ? null : String(body),
+        idempotencyKey,
+        client: httpClient.options.name,
+      })
+      queued.value = true
+    }
+
+    // 排在未发出的请求之后，保证服务器按发起顺序收到变更
+    await outbox.load()
+    if (isOffline() || outbox.items.value.length > 0) {
+      try {
+        await enqueue()
+      }
+      catch (err) {
+        error.value = toHTTPError(err)
+        console.error('[Outbox] 保存离线请求失败:', err)
+        return null
+      }
+      if (!isOffline())
+        outbox.flush().catch(err => console.error('[Outbox] 重放离线请求失败:', err))
+      return null
+    }
+
+    return executeRequest(
+      signal => send({ ...options, headers, signal }),
+      options?.signal,
+      async (error) => {
+        // 超时的请求可能已被服务器处理，重放时携带同一幂等键，由服务器去重
+        if (!(error instanceof HTTPNetworkError) && !(error instanceof HTTPTimeoutError))
+          return false
+        await enqueue()
+        return true
+      },
+    )
+  }
+
   /**
    * GET 请求
    */
-  async function get<T = any>(url: string, options?: Omit<RequestOptions, 'method' | 'body'>) {
-    return executeRequest(() => httpClient.get<T>(url, options))
+  async function get<T = any>(url: string, options?: Omit<RequestOptions<T>, 'method' | 'body'>) {
+    return executeRequest(signal => httpClient.get<T>(url, { ...options, signal }), options?.signal)
   }
 
   /**
    * POST 请求
    */
-  async function post<T = any>(url: string, data?: any, options?: Omit<RequestOptions, 'method'>) {
-    return executeRequest(() => httpClient.post<T>(url, data, options))
+  async function post<T = any>(url: string, data?: any, options?: Omit<RequestOptions<T>, 'method'>) {
+    return mutate('POST', url, data, options, opts => httpClient.post<T>(url, data, opts))
   }
 
   /**
    * PUT 请求
    */
-  async function put<T = any>(url: string, data?: any, options?: Omit<RequestOptions, 'method'>) {
-    return executeRequest(() => httpClient.put<T>(url, data, options))
+  async function put<T = any>(url: string, data?: any, options?: Omit<RequestOptions<T>, 'method'>) {
+    return mutate('PUT', url, data, options, opts => httpClient.put<T>(url, data, opts))
   }
 
   /**
    * DELETE 请求
    */
-  async function del<T = any>(url: string, options?: Omit<RequestOptions, 'method' | 'body'>) {
-    return executeRequest(() => httpClient.delete<T>(url, options))
+  async function del<T = any>(url: string, options?: Omit<RequestOptions<T>, 'method' | 'body'>) {
+    return mutate('DELETE', url, undefined, options, opts => httpClient.delete<T>(url, opts))
   }
 
   /**
    * PATCH 请求
    */
-  async function patch<T = any>(url: string, data?: any, options?: Omit<RequestOptions, 'method'>) {
-    return executeRequest(() => httpClient.patch<T>(url, data, options))
+  async function patch<T = any>(url: string, data?: any, options?: Omit<RequestOptions<T>, 'method'>) {
+    return mutate('PATCH', url, data, options, opts => httpClient.patch<T>(url, data, opts))
   }
 
   /**
    * 自定义请求
    */
-  async function request<T = any>(url: string, options?: RequestOptions) {
-    return executeRequest(() => httpClient.request<T>(url, options))
+  async function request<T = any>(url: string, options?: RequestOptions<T>) {
+    return executeRequest(signal => httpClient.request<T>(url, { ...options, signal }), options?.signal)
+  }
+
+  /**
+   * 上传文件或表单，进度写入 uploadProgress
+   */
+  async function upload<T = any>(url: string, body: FormData | Blob | ArrayBuffer, options?: RequestOptions<T>) {
+    uploadProgress.value = null
+    return executeRequest(signal => httpClient.upload<T>(url, body, {
+      ...options,
+      signal,
+      onUploadProgress: (progress) => {
+        uploadProgress.value = progress
+        options?.onUploadProgress?.(progress)
+      },
+    }), options?.signal)
+  }
+
+  /**
+   * 流式下载，进度写入 downloadProgress
+   */
+  async function download(url: string, options?: DownloadOptions) {
+    downloadProgress.value = null
+    return executeRequest(signal => httpClient.download(url, {
+      ...options,
+      signal,
+      onDownloadProgress: (progress) => {
+        downloadProgress.value = progress
+        options?.onDownloadProgress?.(progress)
+      },
+    }), options?.signal)
   }
 
   /**
@@ -319,6 +1346,9 @@ export function useTauriHTTP(config?: HTTPConfig) {
     // 响应式状态
     loading: readonly(loading),
     error: readonly(error),
+    uploadProgress: readonly(uploadProgress),
+    downloadProgress: readonly(downloadProgress),
+    queued: readonly(queued),
 
     // HTTP 方法
     get,
@@ -327,9 +1357,12 @@ export function useTauriHTTP(config?: HTTPConfig) {
     delete: del,
     patch,
     request,
+    upload,
+    download,
 
     // 工具方法
     clearError,
+    cancel,
   }
 }
 
@@ -344,38 +1377,57 @@ export function createHTTPClient(config: HTTPConfig) {
 
 /**
  * 设置全局 HTTP 配置
+ * 返回新的全局客户端，可继续在其上注册拦截器
  */
 export function setGlobalHTTPConfig(config: HTTPConfig) {
   globalHTTPClient = new TauriHTTPClient(config)
+  return globalHTTPClient
+}
+
+/**
+ * 获取全局 HTTP 客户端
+ * 按请求来源使用当前用户配置下的 Cookie 容器
+ */
+export function getGlobalHTTPClient() {
+  return globalHTTPClient || (globalHTTPClient = new TauriHTTPClient({
+    cookies: config => getCookieJar(new URL(config.url).origin),
+  }))
+}
+
+/**
+ * 按名称获取客户端，未传入名称时返回全局客户端；该名称的客户端尚未创建时返回 null
+ */
+export function getHTTPClient(name?: string | null): TauriHTTPClient | null {
+  return name ? namedHTTPClients.get(name) ?? null : getGlobalHTTPClient()
 }
 
 /**
  * 快速 GET 请求
+ * 失败时抛出 HTTPError 子类
  */
-export async function httpGet<T = any>(url: string, options?: Omit<RequestOptions, 'method' | 'body'>): Promise<T | null> {
+export async function httpGet<T = any>(url: string, options?: Omit<RequestOptions<T>, 'method' | 'body'>): Promise<T> {
   try {
-    const client = globalHTTPClient || new TauriHTTPClient()
-    const response = await client.get<T>(url, options)
+    const response = await getGlobalHTTPClient().get<T>(url, options)
     return response.data
   }
   catch (error) {
     console.error('HTTP GET 失败:', error)
-    return null
+    throw toHTTPError(error, { url, method: 'GET' })
   }
 }
 
 /**
  * 快速 POST 请求
+ * 失败时抛出 HTTPError 子类
  */
-export async function httpPost<T = any>(url: string, data?: any, options?: Omit<RequestOptions, 'method'>): Promise<T | null> {
+export async function httpPost<T = any>(url: string, data?: any, options?: Omit<RequestOptions<T>, 'method'>): Promise<T> {
   try {
-    const client = globalHTTPClient || new TauriHTTPClient()
-    const response = await client.post<T>(url, data, options)
+    const response = await getGlobalHTTPClient().post<T>(url, data, options)
     return response.data
   }
   catch (error) {
     console.error('HTTP POST 失败:', error)
-    return null
+    throw toHTTPError(error, { url, method: 'POST' })
   }
 }
 
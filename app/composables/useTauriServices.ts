@@ -31,6 +31,7 @@ export function useTauriServices() {
 
       // 初始化数据库
       await initDatabase()
+      await loadNetworkSettings()
       initProgress.value = 66
 
       // 设置一些默认配置
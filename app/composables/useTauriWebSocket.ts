@@ -0,0 +1,556 @@
+/**
+ * WebSocket 客户端 Composable
+ * 管理连接生命周期：指数退避重连、心跳检测、断线期间的发送队列，以及按 type 字段分发 JSON 消息
+ */
+
+import { getCurrentScope, onScopeDispose, readonly, shallowRef } from 'vue'
+import { getRetryDelay, resolveRetryPolicy } from './http/retry'
+import { useAPIService } from './useAPIService'
+
+// ============= 类型定义 =============
+
+/**
+ * 连接状态
+ */
+export type WebSocketState = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed'
+
+/**
+ * 最小 WebSocket 接口，浏览器 WebSocket 与 MockWebSocket 均满足
+ */
+export interface WebSocketLike {
+  readonly readyState: number
+  onopen: ((event: any) => void) | null
+  onclose: ((event: any) => void) | null
+  onmessage: ((event: any) => void) | null
+  onerror: ((event: any) => void) | null
+  send: (data: string) => void
+  close: (code?: number, reason?: string) => void
+}
+
+/**
+ * 创建 WebSocket 的工厂函数
+ */
+export type WebSocketFactory = (url: string, protocols?: string | string[]) => WebSocketLike
+
+/**
+ * 消息处理函数
+ */
+export type MessageHandler<T = any> = (message: T) => void
+
+/**
+ * 重连配置
+ */
+export interface ReconnectOptions {
+  /** 连续重连次数上限 */
+  maxAttempts: number
+  /** 首次重连前的等待时间（毫秒） */
+  baseDelay: number
+  /** 单次等待上限（毫秒） */
+  maxDelay: number
+  /** 退避倍数 */
+  factor: number
+  /** 是否添加随机抖动 */
+  jitter: boolean
+}
+
+/**
+ * 心跳配置
+ */
+export interface HeartbeatOptions {
+  /** 发送间隔（毫秒） */
+  interval: number
+  /** 发送后在该时间内未收到任何消息则视为断线（毫秒） */
+  timeout: number
+  /** 心跳消息 */
+  message: () => unknown
+  /** 心跳回复的 type，不会分发给订阅者 */
+  pongType: string
+}
+
+/**
+ * WebSocket 配置
+ */
+export interface WebSocketOptions {
+  protocols?: string | string[]
+  /** 读取认证 Token 的服务器地址，与 APIService 使用同一份 Token */
+  serverUrl?: string
+  /** 自定义 Token 获取方式，优先于 serverUrl */
+  getToken?: () => Promise<string | null> | string | null
+  /** Token 附加到 URL 的查询参数名，默认 token */
+  tokenParam?: string
+  /** 重连配置，false 表示不重连 */
+  reconnect?: Partial<ReconnectOptions> | false
+  /** 心跳配置，false 表示关闭 */
+  heartbeat?: Partial<HeartbeatOptions> | false
+  /** 断线期间最多缓存的消息数，超出时丢弃最早的消息，默认 100 */
+  maxQueueSize?: number
+  /** 用于路由的字段名，默认 type */
+  typeField?: string
+  /** WebSocket 工厂，默认使用浏览器 WebSocket */
+  factory?: WebSocketFactory
+}
+
+const OPEN = 1
+
+export const DEFAULT_RECONNECT_OPTIONS: ReconnectOptions = {
+  maxAttempts: Infinity,
+  baseDelay: 1000,
+  maxDelay: 30000,
+  factor: 2,
+  jitter: true,
+}
+
+export const DEFAULT_HEARTBEAT_OPTIONS: HeartbeatOptions = {
+  interval: 30000,
+  timeout: 10000,
+  message: () => ({ type: 'ping' }),
+  pongType: 'pong',
+}
+
+// ============= WebSocket 客户端类 =============
+
+/**
+ * WebSocket 客户端
+ */
+export class WebSocketClient {
+  /** 连接状态 */
+  readonly state = shallowRef<WebSocketState>('idle')
+  /** 等待发送的消息数 */
+  readonly queueSize = shallowRef(0)
+
+  private socket: WebSocketLike | null = null
+  private queue: string[] = []
+  private handlers = new Map<string, Set<MessageHandler>>()
+  private attempts = 0
+  private closedByUser = false
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null
+  private pongTimer: ReturnType<typeof setTimeout> | null = null
+
+  private reconnect: ReconnectOptions | null
+  private heartbeat: HeartbeatOptions | null
+
+  constructor(
+    private url: string,
+    private options: WebSocketOptions = {},
+  ) {
+    this.reconnect = options.reconnect === false ? null : { ...DEFAULT_RECONNECT_OPTIONS, ...options.reconnect }
+    this.heartbeat = options.heartbeat === false ? null : { ...DEFAULT_HEARTBEAT_OPTIONS, ...options.heartbeat }
+  }
+
+  /**
+   * 建立连接，已连接时不做任何事
+   */
+  async connect(): Promise<void> {
+    if (this.socket)
+      return
+
+    this.closedByUser = false
+    this.clearReconnectTimer()
+    this.state.value = this.attempts > 0 ? 'reconnecting' : 'connecting'
+
+    const url = await this.buildURL()
+    // 等待 Token 期间可能已被关闭或已由其他调用建立连接
+    if (this.closedByUser || this.socket)
+      return
+
+    const factory: WebSocketFactory = this.options.factory ?? ((url, protocols) => new WebSocket(url, protocols))
+    const socket = factory(url, this.options.protocols)
+    this.socket = socket
+
+    socket.onopen = () => {
+      this.attempts = 0
+      this.state.value = 'open'
+      this.startHeartbeat()
+      this.flushQueue()
+    }
+    socket.onmessage = event => this.handleMessage(event.data)
+    socket.onerror = (event) => {
+      console.warn('[WebSocket] 连接错误:', event)
+    }
+    socket.onclose = (event) => {
+      if (this.socket !== socket)
+        return
+      this.socket = null
+      this.stopHeartbeat()
+      console.warn(`[WebSocket] 连接关闭: ${event?.code ?? ''} ${event?.reason ?? ''}`)
+      this.scheduleReconnect()
+    }
+  }
+
+  /**
+   * 主动断开连接，不再重连
+   */
+  disconnect(code = 1000, reason?: string) {
+    this.closedByUser = true
+    this.clearReconnectTimer()
+    this.stopHeartbeat()
+    this.attempts = 0
+
+    const socket = this.socket
+    this.socket = null
+    if (socket) {
+      socket.onclose = null
+      socket.onmessage = null
+      socket.close(code, reason)
+    }
+    this.state.value = 'closed'
+  }
+
+  /**
+   * 发送消息，对象序列化为 JSON
+   * 未连接时放入队列，连接后按顺序发送；返回是否立即发出
+   */
+  send(data: unknown): boolean {
+    const payload = typeof data === 'string' ? data : JSON.stringify(data)
+    if (this.socket?.readyState === OPEN) {
+      this.socket.send(payload)
+      return true
+    }
+
+    const maxQueueSize = this.options.maxQueueSize ?? 100
+    if (maxQueueSize > 0) {
+      this.queue.push(payload)
+      if (this.queue.length > maxQueueSize)
+        this.queue.shift()
+      this.queueSize.value = this.queue.length
+    }
+    return false
+  }
+
+  /**
+   * 订阅指定 type 的消息，* 订阅所有消息（包括非 JSON 消息），返回取消订阅函数
+   */
+  on<T = any>(type: string, handler: MessageHandler<T>): () => void {
+    let set = this.handlers.get(type)
+    if (!set) {
+      set = new Set()
+      this.handlers.set(type, set)
+    }
+    set.add(handler)
+    return () => this.off(type, handler)
+  }
+
+  /**
+   * 取消订阅
+   */
+  off(type: string, handler: MessageHandler) {
+    this.handlers.get(type)?.delete(handler)
+  }
+
+  /**
+   * 生成连接地址，存在 Token 时附加到查询参数
+   * 浏览器 WebSocket 无法设置请求头，因此通过 URL 传递
+   */
+  private async buildURL(): Promise<string> {
+    const { getToken, serverUrl, tokenParam = 'token' } = this.options
+    const token = getToken
+      ? await getToken()
+      : serverUrl ? await useAPIService().service.getServerToken(serverUrl) : null
+
+    if (!token)
+      return this.url
+
+    const url = new URL(this.url)
+    url.searchParams.set(tokenParam, token)
+    return url.toString()
+  }
+
+  /**
+   * 解析并分发消息
+   */
+  private handleMessage(raw: unknown) {
+    // 收到任何消息都说明连接存活
+    if (this.pongTimer) {
+      clearTimeout(this.pongTimer)
+      this.pongTimer = null
+    }
+
+    let message = raw
+    if (typeof raw === 'string') {
+      try {
+        message = JSON.parse(raw)
+      }
+      catch {}
+    }
+
+    const type = message && typeof message === 'object'
+      ? (message as Record<string, unknown>)[this.options.typeField ?? 'type']
+      : undefined
+
+    if (this.heartbeat && type === this.heartbeat.pongType)
+      return
+
+    if (typeof type === 'string')
+      this.emit(type, message)
+    this.emit('*', message)
+  }
+
+  private emit(type: string, message: unknown) {
+    for (const handler of this.handlers.get(type) ?? []) {
+      try {
+        handler(message)
+      }
+      catch (err) {
+        console.error(`[WebSocket] 消息处理失败 (${type}):`, err)
+      }
+    }
+  }
+
+  /**
+   * 发送断线期间缓存的消息
+   */
+  private flushQueue() {
+    while (this.queue.length > 0 && this.socket?.readyState === OPEN) {
+      this.socket.send(this.queue.shift()!)
+    }
+    this.queueSize.value = this.queue.length
+  }
+
+  /**
+   * 按指数退避安排重连
+   */
+  private scheduleReconnect() {
+    if (this.closedByUser || !this.reconnect || this.attempts >= this.reconnect.maxAttempts) {
+      this.state.value = 'closed'
+      return
+    }
+
+    this.attempts++
+    this.state.value = 'reconnecting'
+
+    const policy = resolveRetryPolicy({ ...this.reconnect, respectRetryAfter: false })
+    const delay = getRetryDelay(policy, { attempt: this.attempts, method: 'GET', kind: 'network' }) ?? this.reconnect.baseDelay
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null
+      this.connect().catch((err) => {
+        console.error('[WebSocket] 重连失败:', err)
+        this.scheduleReconnect()
+      })
+    }, delay)
+  }
+
+  private clearReconnectTimer() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer)
+      this.reconnectTimer = null
+    }
+  }
+
+  /**
+   * 定时发送心跳，超时未收到消息时关闭连接触发重连
+   */
+  private startHeartbeat() {
+    const heartbeat = this.heartbeat
+    if (!heartbeat)
+      return
+
+    this.stopHeartbeat()
+    this.heartbeatTimer = setInterval(() => {
+      const socket = this.socket
+      if (socket?.readyState !== OPEN)
+        return
+
+      const message = heartbeat.message()
+      socket.send(typeof message === 'string' ? message : JSON.stringify(message))
+      this.pongTimer ??= setTimeout(() => {
+        this.pongTimer = null
+        console.warn('[WebSocket] 心跳超时，重新连接')
+        socket.close(4000, 'heartbeat timeout')
+      }, heartbeat.timeout)
+    }, heartbeat.interval)
+  }
+
+  private stopHeartbeat() {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer)
+      this.heartbeatTimer = null
+    }
+    if (this.pongTimer) {
+      clearTimeout(this.pongTimer)
+      this.pongTimer = null
+    }
+  }
+}
+
+// ============= Mock 服务器 =============
+
+/**
+ * 内存 WebSocket 连接，由 MockWebSocketServer 创建
+ */
+export class MockWebSocket implements WebSocketLike {
+  readyState = 0
+  onopen: ((event: any) => void) | null = null
+  onclose: ((event: any) => void) | null = null
+  onmessage: ((event: any) => void) | null = null
+  onerror: ((event: any) => void) | null = null
+
+  constructor(
+    readonly url: string,
+    private server: MockWebSocketServer,
+  ) {
+    setTimeout(() => {
+      if (this.readyState !== 0)
+        return
+      this.readyState = OPEN
+      this.onopen?.({})
+    }, 0)
+  }
+
+  send(data: string) {
+    if (this.readyState !== OPEN)
+      throw new Error('WebSocket is not open')
+    this.server.receive(data, this)
+  }
+
+  close(code = 1000, reason = '') {
+    if (this.readyState >= 2)
+      return
+    this.readyState = 3
+    this.server.remove(this)
+    setTimeout(() => this.onclose?.({ code, reason }), 0)
+  }
+
+  /**
+   * 由服务器推送消息
+   */
+  deliver(data: string) {
+    if (this.readyState === OPEN)
+      this.onmessage?.({ data })
+  }
+}
+
+/**
+ * 内存 WebSocket 服务器，用于测试与演示
+ * 将 factory 传入 WebSocketOptions 即可替代真实服务器
+ */
+export class MockWebSocketServer {
+  /** 当前连接 */
+  readonly sockets: MockWebSocket[] = []
+  /** 收到的消息记录 */
+  readonly received: string[] = []
+
+  private listeners = new Set<(data: string, socket: MockWebSocket) => void>()
+
+  readonly factory: WebSocketFactory = (url) => {
+    const socket = new MockWebSocket(url, this)
+    this.sockets.push(socket)
+    return socket
+  }
+
+  /**
+   * 监听客户端消息，返回取消监听函数
+   */
+  onMessage(listener: (data: string, socket: MockWebSocket) => void) {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  /**
+   * 向所有连接推送消息，对象序列化为 JSON
+   */
+  send(data: unknown) {
+    const payload = typeof data === 'string' ? data : JSON.stringify(data)
+    for (const socket of this.sockets) {
+      socket.deliver(payload)
+    }
+  }
+
+  /**
+   * 从服务器端断开所有连接（默认 1006 异常关闭）
+   */
+  disconnect(code = 1006, reason = '') {
+    for (const socket of [...this.sockets]) {
+      socket.close(code, reason)
+    }
+  }
+
+  /** @internal */
+  receive(data: string, socket: MockWebSocket) {
+    this.received.push(data)
+    for (const listener of this.listeners) {
+      listener(data, socket)
+    }
+  }
+
+  /** @internal */
+  remove(socket: MockWebSocket) {
+    const index = this.sockets.indexOf(socket)
+    if (index !== -1)
+      this.sockets.splice(index, 1)
+  }
+}
+
+/**
+ * 创建 Mock WebSocket 服务器
+ */
+export function createMockWebSocketServer() {
+  return new MockWebSocketServer()
+}
+
+// ============= Composable =============
+
+/**
+ * WebSocket Composable
+ * 组件卸载时取消订阅并断开连接
+ */
+export function useTauriWebSocket(url: string, options: WebSocketOptions & { immediate?: boolean } = {}) {
+  const { immediate = true, ...clientOptions } = options
+  const client = new WebSocketClient(url, clientOptions)
+  const lastMessage = shallowRef<unknown>(null)
+  const subscriptions: Array<() => void> = []
+
+  /**
+   * 订阅指定 type 的消息，组件卸载时自动取消
+   */
+  function on<T = any>(type: string, handler: MessageHandler<T>) {
+    const off = client.on(type, handler)
+    subscriptions.push(off)
+    return off
+  }
+
+  on('*', (message) => {
+    lastMessage.value = message
+  })
+
+  /**
+   * 建立连接
+   */
+  async function connect() {
+    try {
+      await client.connect()
+    }
+    catch (err) {
+      console.error('[WebSocket] 连接失败:', err)
+    }
+  }
+
+  if (immediate && import.meta.client)
+    connect()
+
+  if (getCurrentScope()) {
+    onScopeDispose(() => {
+      subscriptions.forEach(off => off())
+      client.disconnect()
+    })
+  }
+
+  return {
+    // 客户端实例
+    client,
+
+    // 响应式状态
+    state: readonly(client.state),
+    queueSize: readonly(client.queueSize),
+    lastMessage: readonly(lastMessage),
+
+    // 方法
+    connect,
+    disconnect: (code?: number, reason?: string) => client.disconnect(code, reason),
+    send: (data: unknown) => client.send(data),
+    on,
+  }
+}
+
+export default useTauriWebSocket
@@ -11,3 +11,70 @@ export interface AppSetting {
   value: string
   updated_at?: string
 }
+
+export type OutboxStatus = 'pending' | 'failed'
+
+export interface OutboxItem {
+  id: number
+  method: string
+  url: string
+  /** JSON 序列化的请求头 */
+  headers: string
+  body: string | null
+  idempotency_key: string
+  /** 发起请求的客户端名称，null 表示全局客户端 */
+  client: string | null
+  status: OutboxStatus
+  attempts: number
+  last_error: string | null
+  created_at?: string
+  updated_at?: string
+}
+
+export interface ServerRow {
+  url: string
+  name: string
+  token: string | null
+  /** JSON 序列化的认证方案 */
+  auth: string | null
+  /** JSON 序列化的 OAuth2 配置 */
+  oauth: string | null
+  created_at?: string
+  updated_at?: string
+}
+
+export interface ApiEndpointRow {
+  id: number
+  server_url: string
+  name: string
+  path: string
+  method: string
+  description: string | null
+  /** JSON 序列化的默认参数 */
+  params: string | null
+  /** JSON 序列化的请求头 */
+  headers: string | null
+  cache_duration: number
+  /** SQLite 布尔值，0 或 1 */
+  is_active: number
+  sort_order: number
+  /** 轮询间隔（秒），0 表示不轮询 */
+  poll_interval: number
+  change_notification: string
+  created_at: string
+  updated_at: string
+}
+
+export interface ApiCacheRow {
+  cache_key: string
+  endpoint_id: number
+  /** JSON 序列化的响应数据 */
+  data: string
+  created_at: string
+  /** 过期时间戳（毫秒），null 表示不过期 */
+  expires_at: number | null
+  /** data 的字节数 */
+  size: number
+  /** 最近一次读取或写入的时间戳（毫秒） */
+  last_accessed_at: number
+}
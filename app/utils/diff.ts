@@ -0,0 +1,55 @@
+/**
+ * 单处差异，path 形如 `data.items[0].name`，根值为空字符串
+ */
+export interface ValueChange {
+  path: string
+  type: 'added' | 'removed' | 'changed'
+  before?: unknown
+  after?: unknown
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function joinKey(path: string, key: string): string {
+  return path ? `${path}.${key}` : key
+}
+
+/**
+ * 递归比较两个 JSON 值，返回所有叶子层面的差异；类型不同时整体记为 changed
+ */
+export function diffValues(before: unknown, after: unknown, path = ''): ValueChange[] {
+  if (Object.is(before, after))
+    return []
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const changes: ValueChange[] = []
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      const itemPath = `${path}[${i}]`
+      if (i >= after.length)
+        changes.push({ path: itemPath, type: 'removed', before: before[i] })
+      else if (i >= before.length)
+        changes.push({ path: itemPath, type: 'added', after: after[i] })
+      else
+        changes.push(...diffValues(before[i], after[i], itemPath))
+    }
+    return changes
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const changes: ValueChange[] = []
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      const keyPath = joinKey(path, key)
+      if (!(key in after))
+        changes.push({ path: keyPath, type: 'removed', before: before[key] })
+      else if (!(key in before))
+        changes.push({ path: keyPath, type: 'added', after: after[key] })
+      else
+        changes.push(...diffValues(before[key], after[key], keyPath))
+    }
+    return changes
+  }
+
+  return [{ path, type: 'changed', before, after }]
+}
@@ -5,6 +5,8 @@ use tauri_plugin_sql::{Migration, MigrationKind};
 use tauri_plugin_store;
 use tauri_plugin_http;
 
+mod tls_http;
+
 #[cfg_attr(mobile, tauri::mobile_entry_point)]
 pub fn run() {
   tauri::Builder::default()
@@ -38,6 +40,118 @@ pub fn run() {
               ",
               kind: MigrationKind::Up,
             },
+            // 迁移版本 2：离线发件箱，按 id 顺序重放变更请求
+            Migration {
+              version: 2,
+              description: "create_outbox",
+              sql: "\
+                CREATE TABLE IF NOT EXISTS outbox (
+                  id INTEGER PRIMARY KEY AUTOINCREMENT,
+                  method TEXT NOT NULL,
+                  url TEXT NOT NULL,
+                  headers TEXT NOT NULL DEFAULT '{}',
+                  body TEXT,
+                  idempotency_key TEXT NOT NULL UNIQUE,
+                  status TEXT NOT NULL DEFAULT 'pending',
+                  attempts INTEGER NOT NULL DEFAULT 0,
+                  last_error TEXT,
+                  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+                );
+              ",
+              kind: MigrationKind::Up,
+            },
+            // 迁移版本 3：服务器、接口配置与响应缓存（原先保存在 Store 中）
+            Migration {
+              version: 3,
+              description: "create_api_tables",
+              sql: "\
+                CREATE TABLE IF NOT EXISTS servers (
+                  url TEXT PRIMARY KEY,
+                  name TEXT NOT NULL,
+                  token TEXT,
+                  auth TEXT,
+                  oauth TEXT,
+                  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+                );
+
+                CREATE TABLE IF NOT EXISTS api_endpoints (
+                  id INTEGER PRIMARY KEY AUTOINCREMENT,
+                  server_url TEXT NOT NULL,
+                  name TEXT NOT NULL,
+                  path TEXT NOT NULL,
+                  method TEXT NOT NULL DEFAULT 'GET',
+                  description TEXT,
+                  params TEXT,
+                  headers TEXT,
+                  cache_duration INTEGER NOT NULL DEFAULT 0,
+                  is_active INTEGER NOT NULL DEFAULT 1,
+                  sort_order INTEGER NOT NULL DEFAULT 0,
+                  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+                );
+
+                CREATE INDEX IF NOT EXISTS idx_api_endpoints_server ON api_endpoints (server_url, sort_order);
+
+                CREATE TABLE IF NOT EXISTS api_cache (
+                  cache_key TEXT PRIMARY KEY,
+                  endpoint_id INTEGER NOT NULL,
+                  data TEXT NOT NULL,
+                  created_at DATETIME NOT NULL,
+                  expires_at INTEGER
+                );
+
+                CREATE INDEX IF NOT EXISTS idx_api_cache_endpoint ON api_cache (endpoint_id);
+              ",
+              kind: MigrationKind::Up,
+            },
+            // 迁移版本 4：接口轮询间隔与变化通知方式
+            Migration {
+              version: 4,
+              description: "add_endpoint_polling",
+              sql: "\
+                ALTER TABLE api_endpoints ADD COLUMN poll_interval INTEGER NOT NULL DEFAULT 0;
+                ALTER TABLE api_endpoints ADD COLUMN change_notification TEXT NOT NULL DEFAULT 'none';
+              ",
+              kind: MigrationKind::Up,
+            },
+            // 迁移版本 5：响应缓存按大小与最近访问时间淘汰，并支持按标签失效（缓存键格式变更，清空旧缓存）
+            Migration {
+              version: 5,
+              description: "bounded_api_cache",
+              sql: "\
+                DELETE FROM api_cache;
+                ALTER TABLE api_cache ADD COLUMN size INTEGER NOT NULL DEFAULT 0;
+                ALTER TABLE api_cache ADD COLUMN last_accessed_at INTEGER NOT NULL DEFAULT 0;
+
+                CREATE INDEX IF NOT EXISTS idx_api_cache_expires ON api_cache (expires_at);
+                CREATE INDEX IF NOT EXISTS idx_api_cache_accessed ON api_cache (last_accessed_at);
+
+                CREATE TABLE IF NOT EXISTS api_cache_tags (
+                  tag TEXT NOT NULL,
+                  cache_key TEXT NOT NULL,
+                  PRIMARY KEY (tag, cache_key)
+                );
+
+                CREATE INDEX IF NOT EXISTS idx_api_cache_tags_key ON api_cache_tags (cache_key);
+
+                CREATE TRIGGER IF NOT EXISTS api_cache_delete_tags AFTER DELETE ON api_cache
+                BEGIN
+                  DELETE FROM api_cache_tags WHERE cache_key = OLD.cache_key;
+                END;
+              ",
+              kind: MigrationKind::Up,
+            },
+            // 迁移版本 6：离线请求记录发起请求的客户端名称，重放时使用同一客户端
+            Migration {
+              version: 6,
+              description: "add_outbox_client",
+              sql: "\
+                ALTER TABLE outbox ADD COLUMN client TEXT;
+              ",
+              kind: MigrationKind::Up,
+            },
           ],
         )
         .build()
@@ -55,6 +169,9 @@ pub fn run() {
         })
         .build(),
     )
+    // 按服务器 TLS 设置（自定义 CA、主机名覆盖）发送请求的客户端
+    .manage(tls_http::TlsClients::default())
+    .invoke_handler(tauri::generate_handler![tls_http::tls_fetch])
     .setup(|_app| {
       Ok(())
     })
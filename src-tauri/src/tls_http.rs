@@ -0,0 +1,162 @@
+// 按服务器的 TLS 设置发送 HTTP 请求
+// HTTP 插件的客户端只信任系统内置的根证书，也不能覆盖主机名解析；
+// 配置了自定义 CA 证书或主机名覆盖的服务器改由这里按设置创建 reqwest 客户端发送请求
+
+use std::collections::{BTreeMap, HashMap};
+use std::net::{IpAddr, SocketAddr};
+use std::sync::Mutex;
+use std::time::Duration;
+
+use serde::{Deserialize, Serialize};
+use tauri::State;
+use tauri_plugin_http::reqwest;
+use tauri_plugin_http::reqwest::header::{HeaderName, HeaderValue};
+
+/// 未指定时的连接超时
+const DEFAULT_CONNECT_TIMEOUT: Duration = Duration::from_secs(30);
+
+/// 代理设置
+#[derive(Debug, Clone, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct TlsProxy {
+  url: String,
+  username: Option<String>,
+  password: Option<String>,
+}
+
+/// 客户端设置，相同设置的请求共用一个客户端（连接池）
+#[derive(Debug, Clone, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct TlsClientConfig {
+  /// 额外信任的 CA 证书（PEM，可包含多张证书）
+  #[serde(default)]
+  ca_certificates: Vec<String>,
+  /// 主机名 → IP 地址，端口仍取自请求 URL
+  #[serde(default)]
+  resolve: BTreeMap<String, String>,
+  proxy: Option<TlsProxy>,
+  /// 连接超时（毫秒）
+  connect_timeout: Option<u64>,
+}
+
+/// 请求
+#[derive(Debug, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct TlsFetchRequest {
+  url: String,
+  method: String,
+  headers: Vec<(String, String)>,
+  body: Option<Vec<u8>>,
+  client: TlsClientConfig,
+}
+
+/// 响应
+#[derive(Debug, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct TlsFetchResponse {
+  status: u16,
+  status_text: String,
+  /// 重定向后的最终地址
+  url: String,
+  headers: Vec<(String, String)>,
+  body: Vec<u8>,
+}
+
+/// 已创建的客户端，以序列化后的设置为键
+#[derive(Default)]
+pub struct TlsClients(Mutex<HashMap<String, reqwest::Client>>);
+
+impl TlsClients {
+  fn get_or_build(&self, config: &TlsClientConfig) -> Result<reqwest::Client, String> {
+    let key = serde_json::to_string(config).map_err(|e| e.to_string())?;
+    let mut clients = self.0.lock().map_err(|e| e.to_string())?;
+    if let Some(client) = clients.get(&key) {
+      return Ok(client.clone());
+    }
+
+    let client = build_client(config)?;
+    clients.insert(key, client.clone());
+    Ok(client)
+  }
+}
+
+fn build_client(config: &TlsClientConfig) -> Result<reqwest::Client, String> {
+  let connect_timeout = config
+    .connect_timeout
+    .map(Duration::from_millis)
+    .unwrap_or(DEFAULT_CONNECT_TIMEOUT);
+  let mut builder = reqwest::Client::builder().connect_timeout(connect_timeout);
+
+  // 自定义 CA 与系统内置根证书同时生效，证书校验始终开启
+  for pem in &config.ca_certificates {
+    let certificates = reqwest::Certificate::from_pem_bundle(pem.as_bytes())
+      .map_err(|e| format!("无效的 CA 证书: {e}"))?;
+    for certificate in certificates {
+      builder = builder.add_root_certificate(certificate);
+    }
+  }
+
+  // 只替换 DNS 解析结果，TLS 仍按原主机名校验证书
+  for (host, address) in &config.resolve {
+    let ip: IpAddr = address
+      .parse()
+      .map_err(|_| format!("主机 {host} 的解析地址无效: {address}"))?;
+    builder = builder.resolve(host, SocketAddr::new(ip, 0));
+  }
+
+  if let Some(proxy) = &config.proxy {
+    let mut settings =
+      reqwest::Proxy::all(&proxy.url).map_err(|e| format!("无效的代理地址: {e}"))?;
+    if let Some(username) = &proxy.username {
+      settings = settings.basic_auth(username, proxy.password.as_deref().unwrap_or(""));
+    }
+    builder = builder.proxy(settings);
+  }
+
+  builder.build().map_err(|e| e.to_string())
+}
+
+/// 使用服务器的 TLS 设置发送请求
+#[tauri::command]
+pub async fn tls_fetch(
+  clients: State<'_, TlsClients>,
+  request: TlsFetchRequest,
+) -> Result<TlsFetchResponse, String> {
+  let client = clients.get_or_build(&request.client)?;
+  let method = reqwest::Method::from_bytes(request.method.as_bytes())
+    .map_err(|_| format!("无效的请求方法: {}", request.method))?;
+
+  let mut builder = client.request(method, &request.url);
+  for (name, value) in &request.headers {
+    let name =
+      HeaderName::from_bytes(name.as_bytes()).map_err(|_| format!("无效的请求头: {name}"))?;
+    let value = HeaderValue::from_str(value).map_err(|_| format!("请求头 {name} 的值无效"))?;
+    builder = builder.header(name, value);
+  }
+  if let Some(body) = request.body {
+    builder = builder.body(body);
+  }
+
+  let response = builder.send().await.map_err(|e| e.to_string())?;
+  let status = response.status();
+  let url = response.url().to_string();
+  let headers = response
+    .headers()
+    .iter()
+    .map(|(name, value)| {
+      (
+        name.to_string(),
+        String::from_utf8_lossy(value.as_bytes()).into_owned(),
+      )
+    })
+    .collect();
+  let body = response.bytes().await.map_err(|e| e.to_string())?.to_vec();
+
+  Ok(TlsFetchResponse {
+    status: status.as_u16(),
+    status_text: status.canonical_reason().unwrap_or_default().to_string(),
+    url,
+    headers,
+    body,
+  })
+}
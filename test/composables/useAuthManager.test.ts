@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { MockAdapter } from '~/composables/http/adapters'
+import { AuthManager, formatAuthorization } from '~/composables/useAuthManager'
+
+const SERVER = 'https://api.example.com'
+const TOKEN_URL = 'https://auth.example.com/token'
+
+vi.mock('~/composables/useTauriStore', () => {
+  const items = new Map<string, unknown>()
+  return {
+    useTauriStore: () => ({
+      initStore: async () => {},
+      getItem: async (key: string) => structuredClone(items.get(key)) ?? null,
+      setItem: async (key: string, value: unknown) => void items.set(key, structuredClone(value)),
+      deleteItem: async (key: string) => void items.delete(key),
+    }),
+  }
+})
+
+let adapter: MockAdapter
+
+beforeEach(() => {
+  adapter = new MockAdapter()
+  vi.stubGlobal('fetch', (url: string, init: RequestInit) => adapter.fetch(String(url), init))
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+async function loggedIn(manager: AuthManager, token: Record<string, unknown>) {
+  adapter.once('POST', TOKEN_URL, { body: token })
+  await manager.configure(SERVER, {
+    tokenUrl: TOKEN_URL,
+    clientId: 'app',
+    authorizeUrl: 'https://auth.example.com/authorize',
+    redirectUri: 'app://callback',
+  })
+  await manager.loginWithPassword(SERVER, 'alice', 'secret')
+}
+
+describe('formatAuthorization', () => {
+  it('按 token_type 生成认证方案', () => {
+    expect(formatAuthorization({ accessToken: 'a', tokenType: 'bearer' })).toBe('Bearer a')
+    expect(formatAuthorization({ accessToken: 'a', tokenType: 'DPoP' })).toBe('DPoP a')
+    expect(formatAuthorization({ accessToken: 'a', tokenType: '' })).toBe('Bearer a')
+  })
+})
+
+describe('authManager', () => {
+  it('getAuthorization 使用令牌保存的 token_type', async () => {
+    const manager = new AuthManager()
+    await loggedIn(manager, { access_token: 'a1', token_type: 'MAC', refresh_token: 'r1' })
+
+    expect(await manager.getAuthorization(SERVER)).toBe('MAC a1')
+  })
+
+  it('并发刷新只请求一次令牌端点', async () => {
+    const manager = new AuthManager()
+    await loggedIn(manager, { access_token: 'a1', refresh_token: 'r1' })
+    adapter.on('POST', TOKEN_URL, { body: { access_token: 'a2' }, delay: 10 })
+
+    const results = await Promise.all([manager.refresh(SERVER, 'a1'), manager.refresh(SERVER, 'a1'), manager.refresh(SERVER)])
+
+    expect(results.map(tokens => tokens.accessToken)).toEqual(['a2', 'a2', 'a2'])
+    const refreshes = adapter.history.filter(request => request.body?.includes('grant_type=refresh_token'))
+    expect(refreshes).toHaveLength(1)
+    expect(new URLSearchParams(refreshes[0]!.body!).get('refresh_token')).toBe('r1')
+    // 未返回新的刷新令牌时沿用旧值
+    expect((await manager.getTokens(SERVER))?.refreshToken).toBe('r1')
+  })
+
+  it('被拒绝的令牌已被轮换时直接返回当前令牌', async () => {
+    const manager = new AuthManager()
+    await loggedIn(manager, { access_token: 'a2', refresh_token: 'r1' })
+    const requests = adapter.history.length
+
+    expect((await manager.refresh(SERVER, 'a1')).accessToken).toBe('a2')
+    expect(adapter.history).toHaveLength(requests)
+  })
+
+  it('刷新被拒绝时要求重新认证', async () => {
+    const manager = new AuthManager()
+    await loggedIn(manager, { access_token: 'a1', refresh_token: 'r1' })
+    adapter.once('POST', TOKEN_URL, { status: 400, body: { error: 'invalid_grant' } })
+    const listener = vi.fn()
+    manager.onReauthRequired(listener)
+
+    await expect(manager.refresh(SERVER)).rejects.toMatchObject({ error: 'invalid_grant' })
+    expect(manager.reauthRequired.value).toEqual([SERVER])
+    expect(listener).toHaveBeenCalledOnce()
+  })
+
+  it('授权码流程使用 PKCE S256', async () => {
+    const manager = new AuthManager()
+    await loggedIn(manager, { access_token: 'a1' })
+    const authorizeURL = new URL(await manager.createAuthorizationURL(SERVER))
+    expect(authorizeURL.searchParams.get('code_challenge_method')).toBe('S256')
+
+    adapter.once('POST', TOKEN_URL, { body: { access_token: 'a3' } })
+    const state = authorizeURL.searchParams.get('state')
+    await manager.completeAuthorization(`app://callback?code=c1&state=${state}`)
+
+    const params = new URLSearchParams(adapter.history.at(-1)!.body!)
+    const verifier = params.get('code_verifier')!
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier)))
+    const challenge = btoa(String.fromCharCode(...digest)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+    expect(params.get('code')).toBe('c1')
+    expect(authorizeURL.searchParams.get('code_challenge')).toBe(challenge)
+
+    // state 只能使用一次
+    await expect(manager.completeAuthorization(`app://callback?code=c1&state=${state}`)).rejects.toMatchObject({ error: 'invalid_state' })
+  })
+})
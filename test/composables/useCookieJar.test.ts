@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { MockAdapter } from '~/composables/http/adapters'
+import { getCookieJar, useCookieJar } from '~/composables/useCookieJar'
+import { createHTTPClient } from '~/composables/useTauriHTTP'
+
+const SERVER = 'https://api.example.com'
+
+vi.mock('~/composables/useTauriStore', () => {
+  const items = new Map<string, unknown>()
+  return {
+    useTauriStore: () => ({
+      initStore: async () => {},
+      getItem: async (key: string) => structuredClone(items.get(key)) ?? null,
+      setItem: async (key: string, value: unknown) => void items.set(key, structuredClone(value)),
+      deleteItem: async (key: string) => void items.delete(key),
+      getKeys: async () => Array.from(items.keys()),
+    }),
+  }
+})
+
+function createClient(adapter: MockAdapter) {
+  return createHTTPClient({
+    adapter,
+    retry: { maxAttempts: 1 },
+    circuitBreaker: false,
+    scheduler: false,
+    cookies: () => getCookieJar(SERVER),
+  })
+}
+
+describe('useCookieJar', () => {
+  let adapter: MockAdapter
+
+  beforeEach(async () => {
+    adapter = new MockAdapter()
+      .on('POST', '/login', { headers: { 'Set-Cookie': 'sid=alice; Max-Age=3600; Path=/' } })
+      .on('GET', '/me', { body: {} })
+    const { setProfile, clearProfile } = useCookieJar()
+    await clearProfile('alice')
+    await clearProfile('bob')
+    setProfile('alice')
+  })
+
+  it('切换用户配置后请求不带之前配置的 Cookie', async () => {
+    const client = createClient(adapter)
+    await client.post(`${SERVER}/login`)
+    await client.get(`${SERVER}/me`)
+
+    useCookieJar().setProfile('bob')
+    await client.get(`${SERVER}/me`)
+
+    const [, alice, bob] = adapter.history
+    expect(alice!.headers.cookie).toBe('sid=alice')
+    expect(bob!.headers.cookie).toBeUndefined()
+  })
+
+  it('清空后请求不带 Cookie，切回原配置也不会恢复', async () => {
+    const client = createClient(adapter)
+    await client.post(`${SERVER}/login`)
+    await useCookieJar().clear()
+
+    await client.get(`${SERVER}/me`)
+    useCookieJar().setProfile('bob')
+    useCookieJar().setProfile('alice')
+    await client.get(`${SERVER}/me`)
+
+    expect(adapter.history.slice(1).map(request => request.headers.cookie)).toEqual([undefined, undefined])
+    expect(await useCookieJar().getCookies(SERVER)).toEqual([])
+  })
+})
@@ -0,0 +1,204 @@
+import type { NewApiEndpoint } from '~/composables/repositories/useApiEndpointRepository'
+import type { ApiEndpoint } from '~/composables/useAPIService'
+import type { EndpointInput } from '~/composables/useEndpointRegistry'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { EndpointRegistry, EndpointValidationError, validateEndpoint, validateServerUrl } from '~/composables/useEndpointRegistry'
+
+const rows = vi.hoisted(() => [] as ApiEndpoint[])
+const service = vi.hoisted(() => ({
+  init: async () => {},
+  clearEndpointCache: async (_id: number) => {},
+  unregisterEndpointSchema: (_id: number) => {},
+  saveServer: async (_server: unknown) => {},
+  deleteServer: async (_url: string) => {},
+}))
+
+vi.mock('~/composables/useAPIService', () => ({
+  useAPIService: () => ({ service }),
+}))
+
+vi.mock('~/composables/useEndpointPoller', () => ({
+  getEndpointPoller: () => ({ reload: async () => {} }),
+}))
+
+vi.mock('~/composables/repositories/useApiEndpointRepository', () => {
+  let nextId = 1
+  const find = (id: number) => rows.find(row => row.id === id)
+  return {
+    useApiEndpointRepository: () => ({
+      getAllEndpoints: async () => rows.map(row => structuredClone(row)),
+      getEndpoint: async (id: number) => find(id) ?? null,
+      createEndpoint: async (endpoint: NewApiEndpoint) => {
+        const id = nextId++
+        rows.push({ ...structuredClone(endpoint), id })
+        return id
+      },
+      updateEndpoint: async (endpoint: ApiEndpoint) => {
+        Object.assign(find(endpoint.id)!, structuredClone(endpoint))
+      },
+      updateSortOrder: async (id: number, sortOrder: number) => {
+        find(id)!.sortOrder = sortOrder
+      },
+      deleteEndpoint: async (id: number) => {
+        rows.splice(rows.indexOf(find(id)!), 1)
+      },
+      deleteEndpointsByServer: async (serverUrl: string) => {
+        rows.splice(0, rows.length, ...rows.filter(row => row.serverUrl !== serverUrl))
+      },
+    }),
+  }
+})
+
+const SERVER = 'https://api.example.com'
+
+function input(overrides: Partial<EndpointInput> = {}): EndpointInput {
+  return { serverUrl: SERVER, name: 'Users', path: '/users', method: 'GET', ...overrides }
+}
+
+async function rejection(promise: Promise<unknown>): Promise<EndpointValidationError> {
+  const error: unknown = await promise.catch(e => e)
+  expect(error).toBeInstanceOf(EndpointValidationError)
+  return error as EndpointValidationError
+}
+
+beforeEach(() => {
+  rows.length = 0
+})
+
+describe('validateEndpoint', () => {
+  it('合法配置没有错误', () => {
+    expect(validateEndpoint(input({ pollInterval: 0, cacheDuration: 60, headers: { 'X-A': '1' } }))).toEqual({})
+    expect(validateEndpoint(input({ pollInterval: 5, changeNotification: 'island' }))).toEqual({})
+  })
+
+  it('一次返回所有字段的错误', () => {
+    const errors = validateEndpoint({
+      serverUrl: 'ftp://files.example.com',
+      name: ' ',
+      path: 'https://api.example.com/users',
+      method: 'FETCH',
+      cacheDuration: -1,
+      pollInterval: 3,
+      changeNotification: 'email' as any,
+      params: [] as any,
+      headers: { 'X-A': 1 } as any,
+    })
+
+    expect(Object.keys(errors).sort()).toEqual([
+      'cacheDuration',
+      'changeNotification',
+      'headers',
+      'method',
+      'name',
+      'params',
+      'path',
+      'pollInterval',
+      'serverUrl',
+    ])
+  })
+
+  it('同一服务器下的名称不能重复，路径不能包含空格', () => {
+    const sibling = { id: 1, name: 'Users' } as ApiEndpoint
+
+    expect(validateEndpoint(input({ name: ' Users ' }), [sibling]).name).toBe('同一服务器下已存在同名接口')
+    expect(validateEndpoint(input({ path: '/users list' })).path).toBeDefined()
+    expect(validateEndpoint(input({ method: 'post' })).method).toBeUndefined()
+  })
+
+  it('服务器地址只接受 http 与 https', () => {
+    expect(validateServerUrl('http://localhost:3000')).toBeNull()
+    expect(validateServerUrl('ws://localhost')).toBe('服务器地址需以 http:// 或 https:// 开头')
+    expect(validateServerUrl('localhost')).toBe('服务器地址格式不正确')
+  })
+})
+
+describe('endpointRegistry', () => {
+  it('新建时规范化输入并排在服务器的最后', async () => {
+    const registry = new EndpointRegistry()
+    await registry.create(input())
+
+    const endpoint = await registry.create(input({ serverUrl: `${SERVER}/`, name: ' Posts ', path: 'posts', method: 'post' }))
+
+    expect(endpoint).toMatchObject({ serverUrl: SERVER, name: 'Posts', path: '/posts', method: 'POST', sortOrder: 1, isActive: true, cacheDuration: 0 })
+    expect(rows).toHaveLength(2)
+  })
+
+  it('校验失败时抛出按字段的错误且不写入', async () => {
+    const registry = new EndpointRegistry()
+    await registry.create(input())
+
+    const error = await rejection(registry.create(input({ path: '/users list' })))
+
+    expect(error.errors).toEqual({ name: '同一服务器下已存在同名接口', path: '路径需为相对路径且不能包含空格' })
+    expect(rows).toHaveLength(1)
+    // 不同服务器下可以同名
+    await expect(registry.create(input({ serverUrl: 'https://other.example.com' }))).resolves.toMatchObject({ sortOrder: 0 })
+  })
+
+  it('并发新建同名接口时只有一个成功', async () => {
+    const registry = new EndpointRegistry()
+
+    const results = await Promise.allSettled([registry.create(input()), registry.create(input())])
+
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected'])
+    expect(rows).toHaveLength(1)
+  })
+
+  it('更新时排除自身检查重名，修改服务器后排到新服务器的最后', async () => {
+    const registry = new EndpointRegistry()
+    const users = await registry.create(input())
+    await registry.create(input({ name: 'Posts', path: '/posts' }))
+    await registry.create(input({ serverUrl: 'https://other.example.com' }))
+
+    await expect(registry.update(users.id, { name: 'Users', path: '/v2/users' })).resolves.toMatchObject({ path: '/v2/users' })
+    await rejection(registry.update(users.id, { name: 'Posts' }))
+    await rejection(registry.update(users.id, { serverUrl: 'https://other.example.com' }))
+
+    const moved = await registry.update(users.id, { serverUrl: 'https://other.example.com', name: 'Accounts' })
+    expect(moved.sortOrder).toBe(1)
+  })
+
+  it('复制时生成不重复的名称并排在原接口之后', async () => {
+    const registry = new EndpointRegistry()
+    const users = await registry.create(input())
+    const posts = await registry.create(input({ name: 'Posts', path: '/posts' }))
+
+    const first = await registry.duplicate(users.id)
+    const second = await registry.duplicate(users.id)
+
+    expect(first.name).toBe('Users 副本')
+    expect(second.name).toBe('Users 副本 2')
+    expect((await registry.list(SERVER)).map(ep => ep.id)).toEqual([users.id, second.id, first.id, posts.id])
+  })
+
+  it('重排时未列出的接口保持顺序排在后面', async () => {
+    const registry = new EndpointRegistry()
+    const a = await registry.create(input({ name: 'A' }))
+    const b = await registry.create(input({ name: 'B' }))
+    const c = await registry.create(input({ name: 'C' }))
+
+    await registry.reorder(SERVER, [c.id])
+
+    expect((await registry.list(SERVER)).map(ep => ep.id)).toEqual([c.id, a.id, b.id])
+  })
+
+  it('切换启用状态，不存在的接口报错', async () => {
+    const registry = new EndpointRegistry()
+    const users = await registry.create(input())
+
+    await expect(registry.toggle(users.id)).resolves.toMatchObject({ isActive: false })
+    await expect(registry.toggle(users.id, false)).resolves.toMatchObject({ isActive: false })
+    await expect(registry.toggle(999)).rejects.toThrow('接口配置不存在: 999')
+  })
+
+  it('保存服务器前校验地址并去除末尾斜杠', async () => {
+    const registry = new EndpointRegistry()
+    const saveServer = vi.spyOn(service, 'saveServer')
+
+    const error = await rejection(registry.saveServer({ url: 'api.example.com', name: 'API' }))
+    expect(error.errors.serverUrl).toBe('服务器地址格式不正确')
+
+    await registry.saveServer({ url: `${SERVER}/`, name: ' API ' })
+    expect(saveServer).toHaveBeenCalledWith({ url: SERVER, name: 'API' })
+  })
+})
@@ -0,0 +1,167 @@
+import type { NewOutboxItem } from '~/composables/repositories/useOutboxRepository'
+import type { OutboxItem, OutboxStatus } from '~/types/models'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { MockAdapter } from '~/composables/http/adapters'
+import { IDEMPOTENCY_HEADER, useOutbox } from '~/composables/useOutbox'
+import { useTauriHTTP } from '~/composables/useTauriHTTP'
+
+const rows = vi.hoisted(() => [] as OutboxItem[])
+
+vi.mock('~/composables/useTauriSQL', () => ({
+  useTauriSQL: () => ({ autoInit: async () => {} }),
+}))
+
+vi.mock('~/composables/repositories/useOutboxRepository', () => {
+  let nextId = 1
+  const find = (id: number) => rows.find(row => row.id === id)!
+  return {
+    useOutboxRepository: () => ({
+      addItem: async (item: NewOutboxItem) => {
+        const id = nextId++
+        rows.push({
+          id,
+          method: item.method,
+          url: item.url,
+          headers: JSON.stringify(item.headers),
+          body: item.body,
+          idempotency_key: item.idempotencyKey,
+          client: item.client,
+          status: 'pending',
+          attempts: 0,
+          last_error: null,
+        })
+        return id
+      },
+      getAllItems: async () => rows.map(row => ({ ...row })),
+      updateStatus: async (id: number, status: OutboxStatus, lastError: string | null = null) => {
+        Object.assign(find(id), { status, last_error: lastError })
+      },
+      recordAttempt: async (id: number, lastError: string | null) => {
+        find(id).attempts++
+        find(id).last_error = lastError
+      },
+      deleteItem: async (id: number) => {
+        rows.splice(rows.indexOf(find(id)), 1)
+      },
+    }),
+  }
+})
+
+const BASE_URL = 'https://api.example.com'
+
+let adapter: MockAdapter
+
+function createHTTP(options: { timeout?: number } = {}) {
+  return useTauriHTTP({
+    name: 'orders',
+    baseURL: BASE_URL,
+    adapter,
+    outbox: true,
+    retry: { maxAttempts: 1 },
+    circuitBreaker: false,
+    scheduler: false,
+    ...options,
+  })
+}
+
+beforeEach(async () => {
+  rows.length = 0
+  adapter = new MockAdapter()
+  await useOutbox().refresh()
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('useOutbox', () => {
+  it('网络错误时保存请求，重放时携带同一幂等键', async () => {
+    const http = createHTTP()
+    adapter.once('POST', '/orders', { networkError: true })
+
+    expect(await http.post('/orders', { id: 1 })).toBeNull()
+    expect(http.queued.value).toBe(true)
+    expect(rows).toHaveLength(1)
+    expect(rows[0]).toMatchObject({ method: 'POST', url: `${BASE_URL}/orders`, body: '{"id":1}', client: 'orders' })
+    const key = rows[0]!.idempotency_key
+
+    adapter.on('POST', '/orders', { status: 201 })
+    await useOutbox().flush()
+
+    expect(adapter.history.map(request => request.headers['idempotency-key'])).toEqual([key, key])
+    expect(rows).toHaveLength(0)
+  })
+
+  it('沿用调用方提供的幂等键（不区分大小写）', async () => {
+    const http = createHTTP()
+    adapter.once('POST', '/orders', { networkError: true })
+
+    await http.post('/orders', { id: 1 }, { headers: { 'idempotency-key': 'key-1' } })
+
+    expect(rows[0]!.idempotency_key).toBe('key-1')
+    expect(Object.keys(JSON.parse(rows[0]!.headers))).toEqual([IDEMPOTENCY_HEADER])
+  })
+
+  it('离线时直接保存，不发出请求', async () => {
+    vi.stubGlobal('navigator', { onLine: false })
+    const http = createHTTP()
+
+    expect(await http.post('/orders', { id: 1 })).toBeNull()
+    expect(http.queued.value).toBe(true)
+    expect(adapter.history).toHaveLength(0)
+    expect(rows).toHaveLength(1)
+  })
+
+  it('发件箱中有未发出的请求时，新请求排在后面并按顺序重放', async () => {
+    vi.stubGlobal('navigator', { onLine: false })
+    const http = createHTTP()
+    await http.post('/orders', { id: 1 })
+    vi.stubGlobal('navigator', { onLine: true })
+
+    adapter.on('POST', '/orders', { status: 201 })
+    await http.post('/orders', { id: 2 })
+    await useOutbox().flush()
+
+    expect(adapter.history.map(request => request.body)).toEqual(['{"id":1}', '{"id":2}'])
+    expect(new Set(adapter.history.map(request => request.headers['idempotency-key'])).size).toBe(2)
+    expect(rows).toHaveLength(0)
+  })
+
+  it('超时的请求同样保存，等待重放', async () => {
+    const http = createHTTP({ timeout: 10 })
+    adapter.once('PUT', '/orders/1', { delay: 100 })
+
+    expect(await http.put('/orders/1', { id: 1 })).toBeNull()
+    expect(http.queued.value).toBe(true)
+    expect(rows).toHaveLength(1)
+  })
+
+  it('服务器拒绝的请求不保存', async () => {
+    const http = createHTTP()
+    adapter.once('POST', '/orders', { status: 422 })
+
+    expect(await http.post('/orders', { id: 1 })).toBeNull()
+    expect(http.queued.value).toBe(false)
+    expect(http.error.value).toMatchObject({ status: 422 })
+    expect(rows).toHaveLength(0)
+  })
+
+  it('重放被拒绝时标记为失败并暂停后续请求', async () => {
+    vi.stubGlobal('navigator', { onLine: false })
+    const http = createHTTP()
+    await http.post('/orders', { id: 1 })
+    await http.post('/orders', { id: 2 })
+
+    adapter.once('POST', '/orders', { status: 400 })
+    await useOutbox().flush()
+
+    expect(adapter.history).toHaveLength(1)
+    expect(rows.map(row => row.status)).toEqual(['failed', 'pending'])
+    expect(rows[0]!.attempts).toBe(1)
+
+    adapter.on('POST', '/orders', { status: 201 })
+    await useOutbox().discard(rows[0]!.id)
+    expect(adapter.history.map(request => request.body)).toEqual(['{"id":1}', '{"id":2}'])
+    expect(rows).toHaveLength(0)
+  })
+})
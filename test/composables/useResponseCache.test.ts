@@ -0,0 +1,168 @@
+import type { ApiCacheEntry } from '~/composables/repositories/useApiCacheRepository'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { CacheTags, ResponseCache } from '~/composables/useResponseCache'
+
+interface Row {
+  entry: ApiCacheEntry
+  size: number
+  lastAccessedAt: number
+  tags: string[]
+}
+
+const rows = vi.hoisted(() => new Map<string, Row>())
+
+vi.mock('~/composables/repositories/useApiCacheRepository', () => ({
+  useApiCacheRepository: () => ({
+    getEntry: async (key: string) => {
+      const row = rows.get(key)
+      return row ? { ...structuredClone(row.entry), size: row.size, lastAccessedAt: row.lastAccessedAt } : null
+    },
+    setEntry: async (key: string, entry: ApiCacheEntry, tags: string[] = []) => {
+      const size = new TextEncoder().encode(JSON.stringify(entry.data)).length
+      rows.set(key, { entry: structuredClone(entry), size, lastAccessedAt: Date.now(), tags })
+      return size
+    },
+    touch: async (key: string) => {
+      rows.get(key)!.lastAccessedAt = Date.now()
+    },
+    getUsage: async () => ({
+      size: [...rows.values()].reduce((sum, row) => sum + row.size, 0),
+      count: rows.size,
+    }),
+    getLeastRecentlyUsed: async (limit: number) => [...rows]
+      .sort(([, a], [, b]) => a.lastAccessedAt - b.lastAccessedAt)
+      .slice(0, limit)
+      .map(([key, row]) => ({ cache_key: key, size: row.size })),
+    deleteEntries: async (keys: string[]) => {
+      keys.forEach(key => rows.delete(key))
+    },
+    deleteExpired: async () => {
+      for (const [key, row] of rows) {
+        if (row.entry.expiresAt !== null && row.entry.expiresAt <= Date.now())
+          rows.delete(key)
+      }
+    },
+    deleteByTags: async (tags: string[]) => {
+      for (const [key, row] of rows) {
+        if (row.tags.some(tag => tags.includes(tag)))
+          rows.delete(key)
+      }
+    },
+    clear: async () => rows.clear(),
+  }),
+}))
+
+/** 序列化后正好 size 字节的数据 */
+function payload(size: number) {
+  return 'x'.repeat(size - 2)
+}
+
+async function setAt(cache: ResponseCache, key: string, size: number, options: { ttl?: number, tags?: string[] } = {}) {
+  vi.advanceTimersByTime(1)
+  await cache.set(key, payload(size), { endpointId: 1, ...options })
+}
+
+beforeEach(() => {
+  rows.clear()
+  vi.useFakeTimers({ toFake: ['Date'] })
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.restoreAllMocks()
+})
+
+describe('responseCache', () => {
+  it('超出预算时淘汰最久未访问的条目', async () => {
+    const cache = new ResponseCache({ maxSize: 30 })
+    await setAt(cache, 'a', 10)
+    await setAt(cache, 'b', 10)
+    await setAt(cache, 'c', 10)
+
+    // 访问 a 后 b 成为最久未访问
+    vi.advanceTimersByTime(1)
+    await cache.get('a')
+    await setAt(cache, 'd', 10)
+
+    expect([...rows.keys()].sort()).toEqual(['a', 'c', 'd'])
+    expect(cache.stats.value).toMatchObject({ evictions: 1, size: 30, entries: 3 })
+  })
+
+  it('一次淘汰到预算以内', async () => {
+    const cache = new ResponseCache({ maxSize: 30 })
+    await setAt(cache, 'a', 10)
+    await setAt(cache, 'b', 10)
+    await setAt(cache, 'c', 10)
+
+    await setAt(cache, 'd', 25)
+
+    expect([...rows.keys()]).toEqual(['d'])
+    expect(cache.stats.value.evictions).toBe(3)
+  })
+
+  it('超过预算的单条响应不缓存', async () => {
+    const cache = new ResponseCache({ maxSize: 30 })
+    await setAt(cache, 'a', 10)
+
+    await setAt(cache, 'big', 31)
+
+    expect([...rows.keys()]).toEqual(['a'])
+    expect(cache.stats.value.evictions).toBe(0)
+  })
+
+  it('超出预算时先清理过期条目', async () => {
+    const cache = new ResponseCache({ maxSize: 30 })
+    await setAt(cache, 'a', 10)
+    await setAt(cache, 'b', 10, { ttl: 5 })
+    await setAt(cache, 'c', 10)
+
+    vi.advanceTimersByTime(10)
+    await setAt(cache, 'd', 10)
+
+    expect([...rows.keys()].sort()).toEqual(['a', 'c', 'd'])
+    expect(cache.stats.value.evictions).toBe(0)
+  })
+
+  it('缩小预算时立即淘汰', async () => {
+    const cache = new ResponseCache({ maxSize: 30 })
+    await setAt(cache, 'a', 10)
+    await setAt(cache, 'b', 10)
+
+    await cache.setMaxSize(15)
+
+    expect([...rows.keys()]).toEqual(['b'])
+    expect(cache.stats.value).toMatchObject({ maxSize: 15, size: 10, entries: 1 })
+  })
+
+  it('按任一标签失效缓存', async () => {
+    const cache = new ResponseCache()
+    await setAt(cache, 'alice', 10, { tags: [CacheTags.endpoint(1), CacheTags.user('alice')] })
+    await setAt(cache, 'bob', 10, { tags: [CacheTags.endpoint(1), CacheTags.user('bob')] })
+    await setAt(cache, 'other', 10, { tags: [CacheTags.endpoint(2)] })
+
+    await cache.invalidate([CacheTags.user('alice'), CacheTags.server('https://none.example.com')])
+    expect([...rows.keys()]).toEqual(['bob', 'other'])
+
+    await cache.invalidate([])
+    await cache.invalidate([CacheTags.endpoint(1)])
+    expect([...rows.keys()]).toEqual(['other'])
+    expect(cache.stats.value).toMatchObject({ size: 10, entries: 1 })
+  })
+
+  it('过期条目计为未命中，allowStale 时返回并标记过期', async () => {
+    const cache = new ResponseCache()
+    await setAt(cache, 'a', 10, { ttl: 5 })
+
+    expect(await cache.get('a')).toMatchObject({ data: payload(10), expired: false })
+    vi.advanceTimersByTime(5)
+    expect(await cache.get('a')).toBeNull()
+    expect(await cache.get('a', { allowStale: true })).toMatchObject({ expired: true })
+    expect(await cache.get('missing')).toBeNull()
+    expect(cache.stats.value).toMatchObject({ hits: 2, misses: 2 })
+
+    cache.resetStats()
+    expect(cache.stats.value).toMatchObject({ hits: 0, misses: 0, evictions: 0 })
+  })
+})
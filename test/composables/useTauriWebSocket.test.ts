@@ -0,0 +1,131 @@
+import type { WebSocketOptions } from '~/composables/useTauriWebSocket'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { MockWebSocketServer, WebSocketClient } from '~/composables/useTauriWebSocket'
+
+const URL = 'wss://ws.example.com/live'
+
+let server: MockWebSocketServer
+
+function createClient(options: WebSocketOptions = {}) {
+  return new WebSocketClient(URL, {
+    factory: server.factory,
+    heartbeat: false,
+    reconnect: { baseDelay: 100, factor: 2, jitter: false },
+    ...options,
+  })
+}
+
+async function open(client: WebSocketClient) {
+  await client.connect()
+  await vi.advanceTimersByTimeAsync(0)
+}
+
+beforeEach(() => {
+  vi.useFakeTimers()
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+  server = new MockWebSocketServer()
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.restoreAllMocks()
+})
+
+describe('webSocketClient', () => {
+  it('按 type 分发消息，* 接收所有消息', async () => {
+    const client = createClient()
+    const updates: unknown[] = []
+    const all: unknown[] = []
+    client.on('update', message => updates.push(message))
+    client.on('*', message => all.push(message))
+    await open(client)
+
+    expect(client.state.value).toBe('open')
+    server.send({ type: 'update', id: 1 })
+    server.send('plain text')
+
+    expect(updates).toEqual([{ type: 'update', id: 1 }])
+    expect(all).toEqual([{ type: 'update', id: 1 }, 'plain text'])
+  })
+
+  it('断线期间的消息排队，连接后按顺序发送，超出上限时丢弃最早的消息', async () => {
+    const client = createClient({ maxQueueSize: 2 })
+
+    expect(client.send({ n: 1 })).toBe(false)
+    client.send({ n: 2 })
+    client.send({ n: 3 })
+    expect(client.queueSize.value).toBe(2)
+
+    await open(client)
+    expect(server.received).toEqual(['{"n":2}', '{"n":3}'])
+    expect(client.queueSize.value).toBe(0)
+    expect(client.send('now')).toBe(true)
+  })
+
+  it('异常断开后按指数退避重连，并附加 Token', async () => {
+    let token = 'a'
+    const client = createClient({ getToken: () => token })
+    await open(client)
+    expect(server.sockets[0]!.url).toBe(`${URL}?token=a`)
+
+    token = 'b'
+    server.disconnect()
+    await vi.advanceTimersByTimeAsync(0)
+    expect(client.state.value).toBe('reconnecting')
+
+    await vi.advanceTimersByTimeAsync(99)
+    expect(server.sockets).toHaveLength(0)
+    await vi.advanceTimersByTimeAsync(1)
+    await vi.waitFor(() => expect(client.state.value).toBe('open'))
+    expect(server.sockets[0]!.url).toBe(`${URL}?token=b`)
+  })
+
+  it('达到重连次数上限后停止', async () => {
+    const client = createClient({ reconnect: { maxAttempts: 1, baseDelay: 100, jitter: false } })
+    await open(client)
+
+    server.disconnect()
+    await vi.advanceTimersByTimeAsync(100)
+    // 重连建立前再次断开
+    server.disconnect()
+    await vi.advanceTimersByTimeAsync(0)
+    expect(client.state.value).toBe('closed')
+
+    await vi.advanceTimersByTimeAsync(10_000)
+    expect(server.sockets).toHaveLength(0)
+  })
+
+  it('主动断开后不再重连', async () => {
+    const client = createClient()
+    await open(client)
+
+    client.disconnect()
+    await vi.advanceTimersByTimeAsync(10_000)
+
+    expect(client.state.value).toBe('closed')
+    expect(server.sockets).toHaveLength(0)
+  })
+
+  it('心跳超时时关闭连接并重连，pong 不分发给订阅者', async () => {
+    const client = createClient({ heartbeat: { interval: 1000, timeout: 500 } })
+    const all: unknown[] = []
+    client.on('*', message => all.push(message))
+    server.onMessage((data, socket) => {
+      if (data === '{"type":"ping"}' && server.received.length === 1)
+        setTimeout(() => socket.deliver('{"type":"pong"}'), 10)
+    })
+    await open(client)
+
+    // 第一次心跳收到回复
+    await vi.advanceTimersByTimeAsync(1500)
+    expect(client.state.value).toBe('open')
+    expect(all).toEqual([])
+
+    // 第二次心跳没有回复，超时后连接异步关闭
+    await vi.advanceTimersByTimeAsync(1001)
+    expect(client.state.value).toBe('reconnecting')
+    await vi.advanceTimersByTimeAsync(100)
+    await vi.waitFor(() => expect(client.state.value).toBe('open'))
+    expect(server.sockets).toHaveLength(1)
+  })
+})
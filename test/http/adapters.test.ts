@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest'
+import { MockAdapter } from '~/composables/http/adapters'
+
+describe('mockAdapter', () => {
+  it('匹配相对 URL 并记录请求体', async () => {
+    const adapter = new MockAdapter().on('POST', '/items', ({ body }) => ({ status: 201, body: { echo: body } }))
+    const response = await adapter.fetch('/items?draft=1', { method: 'POST', body: 'payload' })
+
+    expect(response.status).toBe(201)
+    expect(await response.json()).toEqual({ echo: 'payload' })
+    expect(adapter.history[0]).toMatchObject({ url: '/items?draft=1', method: 'POST', body: 'payload' })
+  })
+
+  it('once 路由只匹配一次，未匹配时返回 404', async () => {
+    const adapter = new MockAdapter().once('GET', 'https://api.example.com/a', { body: 'first' })
+    expect(await (await adapter.fetch('https://api.example.com/a', {})).text()).toBe('first')
+    expect((await adapter.fetch('https://api.example.com/a', {})).status).toBe(404)
+  })
+
+  it('模拟网络错误', async () => {
+    const adapter = new MockAdapter().on('*', /example/, { networkError: true })
+    await expect(adapter.fetch('https://api.example.com', {})).rejects.toThrow(TypeError)
+  })
+})
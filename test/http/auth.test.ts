@@ -0,0 +1,90 @@
+import type { HmacAuth } from '~/composables/http/auth'
+import type { HTTPRequestConfig } from '~/composables/useTauriHTTP'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { MockAdapter } from '~/composables/http/adapters'
+import { applyAuth, createHmacHeaders, encodeBasicAuth, signHmac } from '~/composables/http/auth'
+import { createHTTPClient } from '~/composables/useTauriHTTP'
+
+const URL = 'https://api.example.com/items?page=2'
+
+const hmac: HmacAuth = { type: 'hmac', keyId: 'key-1', secret: 'secret' }
+
+function request(options: Partial<HTTPRequestConfig> = {}): HTTPRequestConfig {
+  return { url: URL, method: 'POST', headers: {}, ...options }
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('encodeBasicAuth', () => {
+  it('按 UTF-8 编码用户名与密码', () => {
+    expect(encodeBasicAuth('user', 'pass')).toBe(`Basic ${btoa('user:pass')}`)
+    expect(encodeBasicAuth('用户', 'p')).toBe('Basic 55So5oi3OnA=')
+  })
+})
+
+describe('applyAuth', () => {
+  it('basic 与 apiKey 写入请求头或查询参数', async () => {
+    const basic = await applyAuth(request(), { type: 'basic', username: 'user', password: 'pass' })
+    expect(basic.headers.Authorization).toBe(`Basic ${btoa('user:pass')}`)
+
+    const query = await applyAuth(request(), { type: 'apiKey', name: 'key', value: 'v', in: 'query' })
+    expect(new globalThis.URL(query.url).searchParams.get('key')).toBe('v')
+  })
+
+  it('hMAC 不写入静态请求头，而是设置签名函数', async () => {
+    const config = await applyAuth(request(), hmac)
+    expect(config.headers).toEqual({})
+    expect(config.sign).toBeTypeOf('function')
+  })
+})
+
+describe('createHmacHeaders', () => {
+  it('签名方法、路径与查询、时间戳和请求体摘要', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'))
+
+    const headers = await createHmacHeaders(hmac, { url: URL, method: 'post', body: '{"a":1}' })
+    const message = ['POST', '/items?page=2', '1767225600', await sha256('{"a":1}')].join('\n')
+
+    expect(headers['X-Key-Id']).toBe('key-1')
+    expect(headers['X-Timestamp']).toBe('1767225600')
+    expect(headers['X-Signature']).toBe(await signHmac('secret', message))
+  })
+
+  it('非字符串请求体按空请求体签名', async () => {
+    const form = await createHmacHeaders(hmac, { url: URL, method: 'POST', body: new FormData() })
+    const empty = await createHmacHeaders(hmac, { url: URL, method: 'POST', body: undefined })
+    expect(form['X-Signature']).toBe(empty['X-Signature'])
+  })
+})
+
+describe('请求签名', () => {
+  it('每次重试重新计算时间戳与签名', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'))
+
+    const adapter = new MockAdapter()
+      .once('GET', '/items', () => {
+        vi.setSystemTime(new Date('2026-01-01T00:05:00Z'))
+        return { status: 503 }
+      })
+      .on('GET', '/items', { body: { ok: true } })
+    const client = createHTTPClient({ adapter, retry: { maxAttempts: 2, baseDelay: 0, jitter: false }, circuitBreaker: false, scheduler: false })
+    client.interceptors.request.use(config => applyAuth(config, hmac))
+
+    await client.get(URL)
+
+    const [first, second] = adapter.history
+    expect(first!.headers['x-timestamp']).toBe('1767225600')
+    expect(second!.headers['x-timestamp']).toBe('1767225900')
+    const message = ['GET', '/items?page=2', '1767225900', await sha256('')].join('\n')
+    expect(second!.headers['x-signature']).toBe(await signHmac('secret', message))
+  })
+})
@@ -0,0 +1,111 @@
+import type { CachedResponse, HTTPCacheStorage } from '~/composables/http/cache'
+import type { HTTPRequestConfig, HTTPResponse } from '~/composables/useTauriHTTP'
+import { describe, expect, it } from 'vitest'
+import { HTTPCache, parseCacheControl } from '~/composables/http/cache'
+
+const URL = 'https://api.example.com/items'
+
+function request(headers: Record<string, string> = {}, options: Partial<HTTPRequestConfig> = {}): HTTPRequestConfig {
+  return { url: URL, method: 'GET', headers, ...options } as HTTPRequestConfig
+}
+
+/**
+ * 与持久化存储一样，每次读取都返回新对象
+ */
+class SerializedStorage implements HTTPCacheStorage {
+  private entries = new Map<string, string>()
+
+  async get(key: string) {
+    const text = this.entries.get(key)
+    return text ? JSON.parse(text) as CachedResponse[] : undefined
+  }
+
+  async set(key: string, variants: CachedResponse[]) {
+    this.entries.set(key, JSON.stringify(variants))
+  }
+
+  async delete(key: string) {
+    this.entries.delete(key)
+  }
+
+  async clear() {
+    this.entries.clear()
+  }
+}
+
+function response(headers: Record<string, string>, data: unknown = 'ok'): HTTPResponse {
+  return { data, status: 200, statusText: 'OK', headers, ok: true } as HTTPResponse
+}
+
+describe('parseCacheControl', () => {
+  it('解析带值与不带值的指令', () => {
+    expect(parseCacheControl('max-age=60, no-cache, Stale-While-Revalidate="30"')).toEqual({
+      'max-age': 60,
+      'no-cache': true,
+      'stale-while-revalidate': 30,
+    })
+  })
+})
+
+describe('hTTPCache', () => {
+  it('按 max-age 与 stale-while-revalidate 判断新鲜度', async () => {
+    const cache = new HTTPCache()
+    await cache.put(request(), response({ 'cache-control': 'max-age=10, stale-while-revalidate=20' }))
+    const entry = (await cache.match(request()))!
+
+    expect(cache.freshness(entry, entry.storedAt + 5_000)).toBe('fresh')
+    expect(cache.freshness(entry, entry.storedAt + 15_000)).toBe('stale-while-revalidate')
+    expect(cache.freshness(entry, entry.storedAt + 40_000)).toBe('stale')
+  })
+
+  it('按 Vary 指定的请求头区分变体', async () => {
+    const cache = new HTTPCache()
+    const headers = { 'cache-control': 'max-age=60', 'vary': 'Accept-Language' }
+    await cache.put(request({ 'Accept-Language': 'zh' }), response(headers, '你好'))
+    await cache.put(request({ 'Accept-Language': 'en' }), response(headers, 'hello'))
+
+    expect((await cache.match(request({ 'accept-language': 'zh' })))?.data).toBe('你好')
+    expect((await cache.match(request({ 'Accept-Language': 'en' })))?.data).toBe('hello')
+    expect(await cache.match(request({ 'Accept-Language': 'fr' }))).toBeUndefined()
+  })
+
+  it('不缓存 no-store 与 Vary: * 的响应', async () => {
+    const cache = new HTTPCache()
+    await cache.put(request(), response({ 'cache-control': 'no-store' }))
+    expect(await cache.match(request())).toBeUndefined()
+    await cache.put(request(), response({ 'cache-control': 'max-age=60', 'vary': '*' }))
+    expect(await cache.match(request())).toBeUndefined()
+  })
+
+  it('生成条件请求头', async () => {
+    const cache = new HTTPCache()
+    await cache.put(request(), response({ 'etag': '"v1"', 'last-modified': 'Wed, 01 Jan 2026 00:00:00 GMT' }))
+    const entry = (await cache.match(request()))!
+    expect(cache.validators(entry)).toEqual({
+      'If-None-Match': '"v1"',
+      'If-Modified-Since': 'Wed, 01 Jan 2026 00:00:00 GMT',
+    })
+  })
+  it('不同 responseType 的请求互不复用缓存', async () => {
+    const cache = new HTTPCache()
+    await cache.put(request(), response({ 'cache-control': 'max-age=60' }, { value: 1 }))
+
+    expect(await cache.match(request({}, { responseType: 'text' }))).toBeUndefined()
+    await cache.put(request({}, { responseType: 'text' }), response({ 'cache-control': 'max-age=60' }, '{"value":1}'))
+    expect((await cache.match(request()))?.data).toEqual({ value: 1 })
+    expect((await cache.match(request({}, { responseType: 'text' })))?.data).toBe('{"value":1}')
+  })
+
+  it('304 更新持久化存储中的变体而不是追加', async () => {
+    const storage = new SerializedStorage()
+    const cache = new HTTPCache({ storage })
+    await cache.put(request(), response({ etag: '"v1"' }))
+
+    for (let i = 0; i < 3; i++)
+      await cache.refresh(request(), (await cache.match(request()))!, { 'cache-control': 'max-age=60' })
+
+    const variants = await storage.get(`GET ${URL}`)
+    expect(variants).toHaveLength(1)
+    expect(variants![0]!.headers['cache-control']).toBe('max-age=60')
+  })
+})
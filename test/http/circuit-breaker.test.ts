@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { CircuitBreaker } from '~/composables/http/circuit-breaker'
+import { HTTPCircuitOpenError, HTTPNetworkError, HTTPStatusError } from '~/composables/http/errors'
+
+const HOST = 'api.example.com'
+
+function networkError() {
+  return new HTTPNetworkError('offline')
+}
+
+describe('circuitBreaker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('连续失败达到阈值后打开并快速失败', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, cooldown: 1000 })
+    breaker.record(HOST, networkError())
+    expect(breaker.getState(HOST)).toBe('closed')
+    breaker.record(HOST, networkError())
+    expect(breaker.getState(HOST)).toBe('open')
+    expect(() => breaker.acquire(HOST)).toThrow(HTTPCircuitOpenError)
+  })
+
+  it('成功后清零失败计数', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 })
+    breaker.record(HOST, networkError())
+    breaker.record(HOST)
+    breaker.record(HOST, networkError())
+    expect(breaker.getState(HOST)).toBe('closed')
+  })
+
+  it('4xx 不计入失败', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1 })
+    breaker.record(HOST, new HTTPStatusError({ status: 404, statusText: 'Not Found', headers: {}, body: null }))
+    expect(breaker.getState(HOST)).toBe('closed')
+  })
+
+  it('冷却结束后半开，只放行限定数量的探测请求', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldown: 1000 })
+    breaker.record(HOST, networkError())
+    vi.advanceTimersByTime(1000)
+
+    expect(breaker.getState(HOST)).toBe('half-open')
+    breaker.acquire(HOST)
+    expect(() => breaker.acquire(HOST)).toThrow(HTTPCircuitOpenError)
+  })
+
+  it('探测成功后关闭，失败后重新打开', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldown: 1000 })
+    breaker.record(HOST, networkError())
+    vi.advanceTimersByTime(1000)
+    breaker.acquire(HOST)
+    breaker.record(HOST)
+    expect(breaker.getState(HOST)).toBe('closed')
+
+    breaker.record(HOST, networkError())
+    vi.advanceTimersByTime(1000)
+    breaker.acquire(HOST)
+    breaker.record(HOST, networkError())
+    expect(breaker.getState(HOST)).toBe('open')
+  })
+
+  it('取消的探测请求释放名额', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldown: 1000 })
+    breaker.record(HOST, networkError())
+    vi.advanceTimersByTime(1000)
+    breaker.acquire(HOST)
+    breaker.release(HOST)
+    expect(() => breaker.acquire(HOST)).not.toThrow()
+  })
+})
@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest'
+import { MockAdapter } from '~/composables/http/adapters'
+import { CodecRegistry, getMimeType, matchMimeType } from '~/composables/http/codecs'
+import { HTTPParseError } from '~/composables/http/errors'
+import { createHTTPClient } from '~/composables/useTauriHTTP'
+
+const URL = 'https://api.example.com/items'
+const encoder = new TextEncoder()
+
+function createClient(adapter: MockAdapter, codecs?: CodecRegistry) {
+  return createHTTPClient({ adapter, codecs, retry: { maxAttempts: 1 }, circuitBreaker: false, scheduler: false })
+}
+
+describe('matchMimeType', () => {
+  it('支持通配、结构化后缀与正则', () => {
+    expect(getMimeType('Application/JSON; charset=utf-8')).toBe('application/json')
+    expect(matchMimeType('text/*', 'text/csv')).toBe(true)
+    expect(matchMimeType('*/*+json', 'application/problem+json')).toBe(true)
+    expect(matchMimeType('*/*+json', 'application/json')).toBe(false)
+    expect(matchMimeType(/^image\//, 'image/png')).toBe(true)
+    expect(matchMimeType('application/xml', 'text/xml')).toBe(false)
+  })
+})
+
+describe('codecRegistry', () => {
+  const codecs = new CodecRegistry()
+
+  it('按 Content-Type 序列化请求体', () => {
+    expect(codecs.serialize({ a: 1 })).toBe('{"a":1}')
+    expect(codecs.serialize({ a: 1 }, 'application/vnd.api+json')).toBe('{"a":1}')
+    expect(codecs.serialize(42, 'text/plain')).toBe('42')
+    expect(codecs.serialize('<a/>', 'application/xml')).toBe('<a/>')
+
+    const params = codecs.serialize({ q: ['a', 'b'], skip: null, at: new Date(0) }, 'application/x-www-form-urlencoded')
+    expect(String(params)).toBe('q=a&q=b&at=1970-01-01T00%3A00%3A00.000Z')
+
+    const form = codecs.serialize({ name: 'x', file: new Blob(['1']) }, 'multipart/form-data') as FormData
+    expect(form.get('name')).toBe('x')
+    expect(form.get('file')).toBeInstanceOf(Blob)
+  })
+
+  it('无法序列化的值抛出 TypeError', () => {
+    expect(() => codecs.serialize({ a: 1 }, 'application/octet-stream')).toThrow(TypeError)
+    expect(() => codecs.serialize({ a: 1 }, 'application/xml')).toThrow(TypeError)
+  })
+
+  it('按 Content-Type 解码响应体，未知类型返回 undefined', () => {
+    expect(codecs.decode(encoder.encode('{"title":"x"}'), 'application/problem+json')).toEqual({ title: 'x' })
+    expect(codecs.decode(encoder.encode(''), 'application/json')).toBeNull()
+    expect(codecs.decode(encoder.encode('a=1&b=2'), 'application/x-www-form-urlencoded')).toEqual({ a: '1', b: '2' })
+    expect(codecs.decode(encoder.encode('<a/>'), 'image/svg+xml')).toBe('<a/>')
+    expect(codecs.canDecode('image/png')).toBe(false)
+    expect(codecs.decode(new Uint8Array(1), 'image/png')).toBeUndefined()
+  })
+
+  it('后注册的规则覆盖内置规则', () => {
+    const custom = new CodecRegistry()
+      .registerSerializer('text/csv', data => (data as string[][]).map(row => row.join(',')).join('\n'))
+      .registerDecoder('text/csv', bytes => new TextDecoder().decode(bytes).split('\n').map(line => line.split(',')))
+
+    expect(custom.serialize([['a', 'b'], ['1', '2']], 'text/csv')).toBe('a,b\n1,2')
+    expect(custom.decode(encoder.encode('a,b'), 'text/csv')).toEqual([['a', 'b']])
+    expect(custom.decode(encoder.encode('a,b'), 'text/plain')).toBe('a,b')
+  })
+
+  it('不含内置规则时回退为 JSON 序列化', () => {
+    const empty = new CodecRegistry(false)
+
+    expect(empty.serialize({ a: 1 }, 'text/plain')).toBe('{"a":1}')
+    expect(empty.canDecode('application/json')).toBe(false)
+  })
+})
+
+describe('serializeBody', () => {
+  const client = createClient(new MockAdapter())
+
+  it('字符串只在非 JSON 的 Content-Type 下原样发送', () => {
+    expect(client.serializeBody('hi')).toBe('"hi"')
+    expect(client.serializeBody('hi', { 'Content-Type': 'application/problem+json' })).toBe('"hi"')
+    expect(client.serializeBody('hi', { 'content-type': 'text/plain' })).toBe('hi')
+  })
+
+  it('原生请求体直接发送，空值不发送请求体', () => {
+    const blob = new Blob(['1'])
+    const form = new FormData()
+
+    expect(client.serializeBody(blob)).toBe(blob)
+    expect(client.serializeBody(form)).toBe(form)
+    expect(client.serializeBody(null)).toBeUndefined()
+    expect(client.serializeBody(undefined)).toBeUndefined()
+  })
+
+  it('未在请求中指定时使用客户端默认 Content-Type', async () => {
+    const adapter = new MockAdapter().on('POST', '/items', { status: 201 })
+    const form = createHTTPClient({
+      adapter,
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      retry: { maxAttempts: 1 },
+      circuitBreaker: false,
+      scheduler: false,
+    })
+
+    await form.post(URL, { name: 'a b' })
+
+    expect(adapter.history[0]!.body).toBe('name=a+b')
+  })
+})
+
+describe('响应解码', () => {
+  it('按 Content-Type 选择解码器，+json 与表单解析为对象', async () => {
+    const adapter = new MockAdapter()
+      .on('GET', '/problem', { status: 200, headers: { 'content-type': 'application/problem+json' }, body: '{"title":"x"}' })
+      .on('GET', '/form', { headers: { 'content-type': 'application/x-www-form-urlencoded' }, body: 'a=1' })
+    const client = createClient(adapter)
+
+    expect((await client.get('https://api.example.com/problem')).data).toEqual({ title: 'x' })
+    expect((await client.get('https://api.example.com/form')).data).toEqual({ a: '1' })
+  })
+
+  it('没有匹配的解码器时返回 ArrayBuffer', async () => {
+    const adapter = new MockAdapter().on('GET', '/items', { headers: { 'content-type': 'image/png' }, body: new Uint8Array([1, 2]).buffer })
+
+    const { data } = await createClient(adapter).get(URL)
+
+    expect(data).toBeInstanceOf(ArrayBuffer)
+    expect(new Uint8Array(data)).toEqual(new Uint8Array([1, 2]))
+  })
+
+  it('显式 responseType 优先于 Content-Type', async () => {
+    const adapter = new MockAdapter().on('GET', '/items', { headers: { 'content-type': 'application/json' }, body: '{"a":1}' })
+    const client = createClient(adapter)
+
+    expect((await client.get(URL, { responseType: 'text' })).data).toBe('{"a":1}')
+    expect(await (await client.get<Blob>(URL, { responseType: 'blob' })).data.text()).toBe('{"a":1}')
+    expect((await client.get(URL, { responseType: 'stream' })).data).toBeInstanceOf(ReadableStream)
+  })
+
+  it('使用客户端的自定义解码器', async () => {
+    const codecs = new CodecRegistry().registerDecoder('text/csv', bytes => new TextDecoder().decode(bytes).split(','))
+    const adapter = new MockAdapter().on('GET', '/items', { headers: { 'content-type': 'text/csv' }, body: 'a,b' })
+
+    expect((await createClient(adapter, codecs).get(URL)).data).toEqual(['a', 'b'])
+  })
+
+  it('解码失败时抛出带原始文本的 HTTPParseError', async () => {
+    const adapter = new MockAdapter().on('GET', '/items', { headers: { 'content-type': 'application/json' }, body: '{oops' })
+
+    const error = await createClient(adapter).get(URL).catch(e => e)
+
+    expect(error).toBeInstanceOf(HTTPParseError)
+    expect(error).toMatchObject({ status: 200, raw: '{oops' })
+  })
+})
@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { CookieJar, domainMatch, parseSetCookie, pathMatch } from '~/composables/http/cookies'
+
+const URL = 'https://api.example.com/v1/users'
+
+function jarWith(...setCookies: string[]) {
+  const jar = new CookieJar()
+  const headers = new Headers()
+  for (const header of setCookies)
+    headers.append('Set-Cookie', header)
+  jar.setFromResponse(URL, headers)
+  return jar
+}
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('domainMatch / pathMatch', () => {
+  it('子域名匹配父域，IP 只能完全匹配', () => {
+    expect(domainMatch('api.example.com', 'example.com')).toBe(true)
+    expect(domainMatch('badexample.com', 'example.com')).toBe(false)
+    expect(domainMatch('10.0.0.1', '0.0.1')).toBe(false)
+  })
+
+  it('路径按段匹配', () => {
+    expect(pathMatch('/v1/users', '/v1')).toBe(true)
+    expect(pathMatch('/v1/users', '/v1/')).toBe(true)
+    expect(pathMatch('/v10', '/v1')).toBe(false)
+  })
+})
+
+describe('parseSetCookie', () => {
+  it('未指定 Domain 时只属于当前主机，默认路径为请求路径的目录', () => {
+    expect(parseSetCookie('sid=1', URL)).toMatchObject({ domain: 'api.example.com', hostOnly: true, path: '/v1' })
+  })
+
+  it('拒绝不匹配的 Domain 与单级域名', () => {
+    expect(parseSetCookie('sid=1; Domain=other.com', URL)).toBeNull()
+    expect(parseSetCookie('sid=1; Domain=com', URL)).toBeNull()
+    expect(parseSetCookie('sid=1; Domain=.Example.com', URL)).toMatchObject({ domain: 'example.com', hostOnly: false })
+  })
+
+  it('max-Age 优先于 Expires', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z')
+    const cookie = parseSetCookie('sid=1; Max-Age=60; Expires=Fri, 01 Jan 2027 00:00:00 GMT', URL, now)
+    expect(cookie?.expiresAt).toBe(now + 60_000)
+  })
+})
+
+describe('cookieJar', () => {
+  it('按域名、路径与 Secure 选择 Cookie，路径更长的在前', () => {
+    const jar = jarWith('a=1; Path=/', 'b=2; Path=/v1/users', 'c=3; Domain=example.com; Path=/', 'd=4; Secure; Path=/')
+
+    expect(jar.getCookieHeader(URL)).toBe('b=2; a=1; c=3; d=4')
+    expect(jar.getCookieHeader('https://www.example.com/')).toBe('c=3')
+    expect(jar.getCookieHeader('http://api.example.com/v2')).toBe('a=1; c=3')
+  })
+
+  it('过期的 Cookie 不再发送，Max-Age=0 删除已有 Cookie', () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'))
+    const jar = jarWith('short=1; Max-Age=10; Path=/', 'sid=1; Path=/')
+
+    vi.setSystemTime(new Date('2026-01-01T00:00:11Z'))
+    expect(jar.getCookieHeader(URL)).toBe('sid=1')
+
+    jar.setFromResponse(URL, new Headers({ 'Set-Cookie': 'sid=; Max-Age=0; Path=/' }))
+    expect(jar.getCookieHeader(URL)).toBeNull()
+  })
+
+  it('只持久化带过期时间的 Cookie', () => {
+    const jar = jarWith('session=1', 'remember=1; Max-Age=3600')
+    expect(jar.toJSON().map(cookie => cookie.name)).toEqual(['remember'])
+  })
+})
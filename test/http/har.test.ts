@@ -0,0 +1,56 @@
+import { describe, expect, it, vi } from 'vitest'
+import { MockAdapter } from '~/composables/http/adapters'
+import { HARRecorder, HARReplayAdapter, REDACTED } from '~/composables/http/har'
+
+describe('hAR', () => {
+  async function record() {
+    const recorder = new HARRecorder()
+    recorder.redact({ headers: ['X-Custom-Key'] })
+    const mock = new MockAdapter()
+      .once('POST', '/token', { body: { access_token: 'secret', expires_in: 60 } })
+      .on('GET', '/items', { body: [1] }, 1)
+      .on('GET', '/items', { body: [1, 2] })
+
+    const send = (url: string, init: RequestInit) => recorder.capture(url, init, () => mock.fetch(url, init))
+    await send('https://api.example.com/token', {
+      method: 'POST',
+      headers: { 'content-type': 'application/x-www-form-urlencoded' },
+      body: 'grant_type=password&username=u&password=p',
+    })
+    await send('https://api.example.com/items?token=t', { headers: { 'X-Custom-Key': 'k' } })
+    await send('https://api.example.com/items?token=t', {})
+    await vi.waitFor(() => expect(recorder.entries.value).toHaveLength(3))
+    return recorder
+  }
+
+  it('录制时脱敏请求头、查询参数与请求体、响应体中的凭据', async () => {
+    const [token, items] = (await record()).entries.value
+
+    expect(token!.request.postData?.text).toBe(`grant_type=password&username=u&password=${encodeURIComponent(REDACTED)}`)
+    expect(JSON.parse(token!.response.content.text!)).toEqual({ access_token: REDACTED, expires_in: 60 })
+    expect(items!.request.headers).toContainEqual({ name: 'x-custom-key', value: REDACTED })
+    expect(items!.request.queryString).toEqual([{ name: 'token', value: REDACTED }])
+  })
+
+  it('按录制顺序回放，脱敏的查询参数匹配任意值', async () => {
+    const replay = new HARReplayAdapter((await record()).export())
+
+    const first = await replay.fetch('https://api.example.com/items?token=other', {})
+    const second = await replay.fetch('https://api.example.com/items?token=other', {})
+    const third = await replay.fetch('https://api.example.com/items?token=other', {})
+    expect(await first.json()).toEqual([1])
+    expect(await second.json()).toEqual([1, 2])
+    expect(await third.json()).toEqual([1, 2])
+
+    expect((await replay.fetch('https://api.example.com/missing', {})).status).toBe(404)
+    expect(replay.misses).toEqual(['GET https://api.example.com/missing'])
+  })
+
+  it('matchBody 时按脱敏后的请求体匹配', async () => {
+    const replay = new HARReplayAdapter((await record()).export(), { matchBody: true })
+    const init = { method: 'POST', headers: { 'content-type': 'application/x-www-form-urlencoded' } }
+
+    expect((await replay.fetch('https://api.example.com/token', { ...init, body: 'grant_type=password&username=u&password=other' })).status).toBe(200)
+    expect((await replay.fetch('https://api.example.com/token', { ...init, body: 'grant_type=password&username=v&password=p' })).status).toBe(404)
+  })
+})
@@ -0,0 +1,50 @@
+import type { HTTPResponse } from '~/composables/useTauriHTTP'
+import { describe, expect, it } from 'vitest'
+import { MockAdapter } from '~/composables/http/adapters'
+import { createHTTPClient, HTTPStatusError } from '~/composables/useTauriHTTP'
+
+const URL = 'https://api.example.com/items'
+
+function createClient(adapter: MockAdapter) {
+  return createHTTPClient({ adapter, retry: { maxAttempts: 1 }, circuitBreaker: false, scheduler: false })
+}
+
+describe('hTTPInterceptors', () => {
+  it('按注册顺序执行请求与响应拦截器', async () => {
+    const adapter = new MockAdapter().on('GET', URL, { body: { value: 1 } })
+    const client = createClient(adapter)
+    client.interceptors.request.use(config => ({ ...config, headers: { ...config.headers, 'X-Step': 'a' } }))
+    client.interceptors.request.use(config => ({ ...config, headers: { ...config.headers, 'X-Step': `${config.headers['X-Step']}b` } }))
+    client.interceptors.response.use(response => ({ ...response, data: { ...response.data, seen: true } }))
+
+    const response = await client.get(URL)
+    expect(adapter.history[0]!.headers['x-step']).toBe('ab')
+    expect(response.data).toEqual({ value: 1, seen: true })
+  })
+
+  it('错误拦截器可从错误中恢复', async () => {
+    const client = createClient(new MockAdapter().on('GET', URL, { status: 500, body: 'down' }))
+    client.interceptors.error.use((error): HTTPResponse | void => {
+      if (error instanceof HTTPStatusError)
+        return { data: 'fallback', status: 200, statusText: 'OK', headers: {}, ok: true }
+    })
+
+    expect((await client.get(URL)).data).toBe('fallback')
+  })
+
+  it('请求拦截器抛出的错误交给错误拦截器', async () => {
+    const adapter = new MockAdapter()
+    const client = createClient(adapter)
+    const seen: unknown[] = []
+    client.interceptors.request.use(() => {
+      throw new Error('签名失败')
+    })
+    client.interceptors.error.use((error) => {
+      seen.push(error)
+    })
+
+    await expect(client.get(URL)).rejects.toThrow('签名失败')
+    expect(seen).toHaveLength(1)
+    expect(adapter.history).toHaveLength(0)
+  })
+})
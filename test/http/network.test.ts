@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import { isNoProxyHost, mergeNetworkSettings, toClientOptions } from '~/composables/http/network'
+
+const PROXY = { url: 'http://proxy.local:8080', noProxy: ['internal.example.com', '[::1]:8080'] }
+
+describe('isNoProxyHost', () => {
+  it('匹配子域名与端口', () => {
+    expect(isNoProxyHost('https://api.internal.example.com/x', PROXY.noProxy)).toBe(true)
+    expect(isNoProxyHost('http://[::1]:8080/', PROXY.noProxy)).toBe(true)
+    expect(isNoProxyHost('http://[::1]:9090/', PROXY.noProxy)).toBe(false)
+    expect(isNoProxyHost('https://example.com/', PROXY.noProxy)).toBe(false)
+  })
+})
+
+describe('mergeNetworkSettings', () => {
+  it('proxy 整体覆盖，tls 按字段覆盖', () => {
+    const merged = mergeNetworkSettings(
+      { proxy: PROXY, tls: { caCertificates: ['global'] } },
+      { tls: { resolve: { 'api.local': '10.0.0.1' } } },
+      { proxy: null },
+    )
+
+    expect(merged.proxy).toBeNull()
+    expect(merged.tls).toEqual({ caCertificates: ['global'], resolve: { 'api.local': '10.0.0.1' } })
+  })
+})
+
+describe('toClientOptions', () => {
+  it('不走代理的主机不设置 proxy', () => {
+    expect(toClientOptions('https://example.com', { proxy: PROXY }).proxy?.all).toEqual({ url: PROXY.url, basicAuth: undefined })
+    expect(toClientOptions('https://a.internal.example.com', { proxy: PROXY }).proxy).toBeUndefined()
+  })
+
+  it('只有设置了 CA 证书或主机名覆盖时才附加 tls', () => {
+    expect(toClientOptions('https://example.com', { tls: {} }).tls).toBeUndefined()
+    expect(toClientOptions('https://example.com', { tls: { caCertificates: [] } }).tls).toBeUndefined()
+    expect(toClientOptions('https://example.com', { tls: { caCertificates: ['pem'] } }).tls).toEqual({ caCertificates: ['pem'] })
+  })
+})
@@ -0,0 +1,63 @@
+import { describe, expect, it, vi } from 'vitest'
+import { DEFAULT_RETRY_POLICY, getRetryDelay, parseRetryAfter, resolveRetryPolicy, shouldRetry } from '~/composables/http/retry'
+
+const policy = resolveRetryPolicy({ jitter: false })
+
+describe('parseRetryAfter', () => {
+  it('解析秒数', () => {
+    expect(parseRetryAfter('3')).toBe(3000)
+  })
+
+  it('解析 HTTP 日期', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z')
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:05 GMT', now)).toBe(5000)
+  })
+
+  it('过去的日期返回 0，无效值返回 null', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z')
+    expect(parseRetryAfter('Wed, 31 Dec 2025 23:59:00 GMT', now)).toBe(0)
+    expect(parseRetryAfter('soon')).toBeNull()
+    expect(parseRetryAfter(undefined)).toBeNull()
+  })
+})
+
+describe('shouldRetry', () => {
+  it('只重试允许的方法', () => {
+    expect(shouldRetry(policy, { attempt: 1, method: 'get', kind: 'network' })).toBe(true)
+    expect(shouldRetry(policy, { attempt: 1, method: 'POST', kind: 'network' })).toBe(false)
+  })
+
+  it('只重试临时性状态码', () => {
+    expect(shouldRetry(policy, { attempt: 1, method: 'GET', kind: 'status', status: 503 })).toBe(true)
+    expect(shouldRetry(policy, { attempt: 1, method: 'GET', kind: 'status', status: 404 })).toBe(false)
+  })
+
+  it('达到最大尝试次数后停止', () => {
+    expect(shouldRetry(policy, { attempt: DEFAULT_RETRY_POLICY.maxAttempts, method: 'GET', kind: 'timeout' })).toBe(false)
+  })
+})
+
+describe('getRetryDelay', () => {
+  it('按指数退避并受 maxDelay 限制', () => {
+    const info = { method: 'GET', kind: 'network' as const }
+    expect(getRetryDelay(policy, { ...info, attempt: 1 })).toBe(1000)
+    expect(getRetryDelay(policy, { ...info, attempt: 3 })).toBe(4000)
+    expect(getRetryDelay(policy, { ...info, attempt: 10 })).toBe(30000)
+  })
+
+  it('抖动范围在 [delay / 2, delay] 之间', () => {
+    const random = vi.spyOn(Math, 'random')
+    const jittered = resolveRetryPolicy()
+    random.mockReturnValue(0)
+    expect(getRetryDelay(jittered, { attempt: 2, method: 'GET', kind: 'network' })).toBe(1000)
+    random.mockReturnValue(0.999999)
+    expect(getRetryDelay(jittered, { attempt: 2, method: 'GET', kind: 'network' })).toBeCloseTo(2000)
+    random.mockRestore()
+  })
+
+  it('遵循 Retry-After，超过上限时放弃', () => {
+    const info = { attempt: 1, method: 'GET', kind: 'status' as const, status: 429 }
+    expect(getRetryDelay(policy, { ...info, headers: { 'retry-after': '2' } })).toBe(2000)
+    expect(getRetryDelay(policy, { ...info, headers: { 'retry-after': '120' } })).toBeNull()
+  })
+})
@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { RequestScheduler } from '~/composables/http/scheduler'
+
+const HOST = 'api.example.com'
+
+describe('requestScheduler', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('限制每个主机的并发数', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrency: 2 })
+    const releases = await Promise.all([scheduler.acquire(HOST), scheduler.acquire(HOST)])
+
+    let third = false
+    scheduler.acquire(HOST).then(() => {
+      third = true
+    })
+    await Promise.resolve()
+    expect(third).toBe(false)
+    expect(scheduler.stats.value[HOST]).toEqual({ active: 2, queued: 1 })
+
+    releases[0]!()
+    await Promise.resolve()
+    expect(third).toBe(true)
+  })
+
+  it('不同主机互不影响', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrency: 1 })
+    await scheduler.acquire(HOST)
+    await expect(scheduler.acquire('other.example.com')).resolves.toBeTypeOf('function')
+  })
+
+  it('按优先级放行，同优先级先进先出', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrency: 1 })
+    const release = await scheduler.acquire(HOST)
+    const order: string[] = []
+    const enqueue = (label: string, priority: 'high' | 'auto' | 'low') =>
+      scheduler.acquire(HOST, priority).then((next) => {
+        order.push(label)
+        next()
+      })
+
+    const waiting = [enqueue('low', 'low'), enqueue('auto-1', 'auto'), enqueue('high', 'high'), enqueue('auto-2', 'auto')]
+    release()
+    await Promise.all(waiting)
+    expect(order).toEqual(['high', 'auto-1', 'auto-2', 'low'])
+  })
+
+  it('取消排队中的请求时从队列移除', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrency: 1 })
+    await scheduler.acquire(HOST)
+    const controller = new AbortController()
+    const queued = scheduler.acquire(HOST, 'auto', controller.signal)
+
+    controller.abort(new Error('cancelled'))
+    await expect(queued).rejects.toThrow('cancelled')
+    expect(scheduler.queueDepth).toBe(0)
+  })
+
+  it('按令牌桶限速', async () => {
+    vi.useFakeTimers()
+    const scheduler = new RequestScheduler({ maxConcurrency: 10, rateLimit: { requests: 1, interval: 1000 } })
+    const first = await scheduler.acquire(HOST)
+    first()
+
+    let granted = false
+    scheduler.acquire(HOST).then(() => {
+      granted = true
+    })
+    await vi.advanceTimersByTimeAsync(500)
+    expect(granted).toBe(false)
+    await vi.advanceTimersByTimeAsync(500)
+    expect(granted).toBe(true)
+  })
+})
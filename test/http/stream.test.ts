@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest'
+import { MockAdapter } from '~/composables/http/adapters'
+import { readLines, SSEParser } from '~/composables/http/stream'
+import { createHTTPClient } from '~/composables/useTauriHTTP'
+
+function streamOf(...chunks: Array<string | Uint8Array>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks)
+        controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk)
+      controller.close()
+    },
+  })
+}
+
+async function collect(body: ReadableStream<Uint8Array>): Promise<string[]> {
+  const lines: string[] = []
+  for await (const line of readLines(body))
+    lines.push(line)
+  return lines
+}
+
+describe('readLines', () => {
+  it('兼容 \\r\\n、\\n 与 \\r 换行，保留末尾不带换行的行', async () => {
+    expect(await collect(streamOf('a\r\nb\nc\rd'))).toEqual(['a', 'b', 'c', 'd'])
+  })
+
+  it('跨块的 \\r\\n 只算一次换行', async () => {
+    expect(await collect(streamOf('a\r', '\nb\r', '', '\n\r\n'))).toEqual(['a', 'b', ''])
+  })
+
+  it('块末尾的 \\r 后跟普通字符时作为单独的换行', async () => {
+    expect(await collect(streamOf('a\r', 'b\n'))).toEqual(['a', 'b'])
+  })
+
+  it('跨块的多字节字符正确解码', async () => {
+    const bytes = new TextEncoder().encode('你好\n')
+    expect(await collect(streamOf(bytes.slice(0, 2), bytes.slice(2)))).toEqual(['你好'])
+  })
+})
+
+describe('sSEParser', () => {
+  function parse(parser: SSEParser, text: string) {
+    return text.split('\n').map(line => parser.push(line)).filter(message => message !== null)
+  }
+
+  it('空行时产出消息，多行 data 以换行拼接', () => {
+    const messages = parse(new SSEParser(), 'event: update\ndata: a\ndata:b\nid: 7\n\n: 注释\ndata: c\n\n')
+
+    expect(messages).toEqual([
+      { event: 'update', data: 'a\nb', id: '7' },
+      { event: 'message', data: 'c', id: '7' },
+    ])
+  })
+
+  it('记录 retry 并忽略没有 data 的事件与含 NUL 的 id', () => {
+    const parser = new SSEParser('1')
+    expect(parse(parser, 'retry: 500\nretry: soon\nevent: ping\n\nid: a\0b\n')).toEqual([])
+    expect(parser.retry).toBe(500)
+    expect(parser.lastEventId).toBe('1')
+  })
+
+  it('reset 丢弃未完成的消息但保留 id', () => {
+    const parser = new SSEParser()
+    parse(parser, 'id: 3\ndata: partial')
+    parser.reset()
+    expect(parser.push('')).toBeNull()
+    expect(parser.lastEventId).toBe('3')
+  })
+})
+
+describe('eventSource', () => {
+  it('断开后重连并携带 Last-Event-ID', async () => {
+    const adapter = new MockAdapter()
+      .once('GET', '/events', { headers: { 'Content-Type': 'text/event-stream' }, body: 'retry: 0\nid: 1\ndata: first\n\n' })
+      .once('GET', '/events', { headers: { 'Content-Type': 'text/event-stream' }, body: 'id: 2\r\ndata: second\r\n\r\n' })
+    const client = createHTTPClient({ adapter, circuitBreaker: false, scheduler: false })
+
+    const messages: string[] = []
+    for await (const message of client.eventSource('https://api.example.com/events')) {
+      messages.push(message.data)
+      if (messages.length === 2)
+        break
+    }
+
+    expect(messages).toEqual(['first', 'second'])
+    expect(adapter.history[0]!.headers['last-event-id']).toBeUndefined()
+    expect(adapter.history[1]!.headers['last-event-id']).toBe('1')
+  })
+})
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+import { interpolate, resolveRequestTemplate, VariableResolutionError } from '~/composables/http/template'
+
+describe('resolveRequestTemplate', () => {
+  it('展开路径参数并从 params 中移除', () => {
+    const resolved = resolveRequestTemplate({
+      url: 'https://api.example.com/users/{id}/posts?sort=desc',
+      params: { id: 'a b', page: 2 },
+    })
+    expect(resolved.url).toBe('https://api.example.com/users/a%20b/posts?sort=desc')
+    expect(resolved.params).toEqual({ page: 2 })
+  })
+
+  it('插值地址、请求头与嵌套参数中的变量', () => {
+    const resolved = resolveRequestTemplate({
+      url: '{{baseUrl}}/search',
+      headers: { Authorization: 'Bearer {{ token }}' },
+      params: { filter: { owner: '{{user}}' }, tags: ['{{user}}', 1] },
+    }, { baseUrl: 'https://api.example.com', token: 't', user: 'alice' })
+
+    expect(resolved.url).toBe('https://api.example.com/search')
+    expect(resolved.headers).toEqual({ Authorization: 'Bearer t' })
+    expect(resolved.params).toEqual({ filter: { owner: 'alice' }, tags: ['alice', 1] })
+  })
+
+  it('路径参数可取自变量', () => {
+    expect(resolveRequestTemplate({ url: '/users/{id}' }, { id: '7' }).url).toBe('/users/7')
+  })
+
+  it('不把原型链上的属性当作参数', () => {
+    expect(() => resolveRequestTemplate({ url: '/objects/{constructor}' })).toThrow(VariableResolutionError)
+    expect(() => interpolate('{{toString}}', {})).toThrow(VariableResolutionError)
+  })
+
+  it('汇总所有未解析的变量', () => {
+    try {
+      resolveRequestTemplate({ url: '/users/{id}', headers: { 'X-Token': '{{token}}' } })
+      expect.unreachable()
+    }
+    catch (error) {
+      expect(error).toBeInstanceOf(VariableResolutionError)
+      expect((error as VariableResolutionError).unresolved).toEqual([
+        { name: '{id}', location: '路径' },
+        { name: '{{token}}', location: '请求头 X-Token' },
+      ])
+    }
+  })
+})
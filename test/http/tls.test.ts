@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { tauriAdapter } from '~/composables/http/adapters'
+import { tlsFetch } from '~/composables/http/tls'
+
+const { invoke, pluginFetch } = vi.hoisted(() => ({ invoke: vi.fn(), pluginFetch: vi.fn() }))
+
+vi.mock('@tauri-apps/api/core', () => ({ invoke }))
+vi.mock('@tauri-apps/plugin-http', () => ({ fetch: pluginFetch }))
+
+const URL = 'https://api.corp.local/items'
+const TLS = { caCertificates: ['-----BEGIN CERTIFICATE-----'], resolve: { 'api.corp.local': '10.0.0.5' } }
+
+function reply(overrides: Record<string, unknown> = {}) {
+  invoke.mockResolvedValueOnce({
+    status: 200,
+    statusText: 'OK',
+    url: URL,
+    headers: [['content-type', 'application/json'], ['set-cookie', 'a=1'], ['set-cookie', 'b=2']],
+    body: Array.from(new TextEncoder().encode('{"ok":true}')),
+    ...overrides,
+  })
+}
+
+beforeEach(() => {
+  invoke.mockReset()
+  pluginFetch.mockReset()
+})
+
+describe('tlsFetch', () => {
+  it('将请求头、请求体、代理与 TLS 设置交给 tls_fetch', async () => {
+    reply()
+    await tlsFetch(URL, {
+      method: 'POST',
+      headers: { 'Cookie': 'sid=1', 'Content-Type': 'application/json' },
+      body: '{"id":1}',
+      proxy: { all: { url: 'http://proxy.local:8080', basicAuth: { username: 'u', password: 'p' } } },
+    }, TLS)
+
+    const [command, { request }] = invoke.mock.calls[0]!
+    expect(command).toBe('tls_fetch')
+    expect(request.method).toBe('POST')
+    expect(request.headers).toContainEqual(['cookie', 'sid=1'])
+    expect(new TextDecoder().decode(new Uint8Array(request.body))).toBe('{"id":1}')
+    expect(request.client).toEqual({
+      caCertificates: TLS.caCertificates,
+      resolve: TLS.resolve,
+      proxy: { url: 'http://proxy.local:8080', username: 'u', password: 'p' },
+      connectTimeout: null,
+    })
+  })
+
+  it('formData 请求体带上生成的 Content-Type', async () => {
+    reply()
+    const form = new FormData()
+    form.append('name', 'value')
+    await tlsFetch(URL, { method: 'POST', body: form }, TLS)
+
+    const { request } = invoke.mock.calls[0]![1]
+    const contentType = request.headers.find(([name]: [string]) => name === 'content-type')?.[1]
+    expect(contentType).toMatch(/^multipart\/form-data; boundary=/)
+  })
+
+  it('还原响应的状态、地址、响应头与响应体', async () => {
+    reply({ url: `${URL}?redirected=1` })
+    const response = await tlsFetch(URL, {}, TLS)
+
+    expect(response.status).toBe(200)
+    expect(response.url).toBe(`${URL}?redirected=1`)
+    expect(response.headers.getSetCookie()).toEqual(['a=1', 'b=2'])
+    expect(await response.json()).toEqual({ ok: true })
+  })
+
+  it('取消时立即拒绝', async () => {
+    invoke.mockReturnValueOnce(new Promise(() => {}))
+    const controller = new AbortController()
+    const pending = tlsFetch(URL, { signal: controller.signal }, TLS)
+    controller.abort(new Error('cancelled'))
+
+    await expect(pending).rejects.toThrow('cancelled')
+  })
+})
+
+describe('tauriAdapter', () => {
+  it('带 tls 的请求改用 tls_fetch，其余使用 HTTP 插件', async () => {
+    reply()
+    pluginFetch.mockResolvedValueOnce(new Response('plugin'))
+
+    await tauriAdapter.fetch(URL, { tls: TLS } as RequestInit)
+    await tauriAdapter.fetch(URL, {})
+
+    expect(invoke).toHaveBeenCalledOnce()
+    expect(pluginFetch).toHaveBeenCalledOnce()
+    expect(pluginFetch.mock.calls[0]![1]).not.toHaveProperty('tls')
+  })
+})
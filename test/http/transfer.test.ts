@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import { getBodySize, readResponseBytes } from '~/composables/http/transfer'
+
+describe('getBodySize', () => {
+  it('按 UTF-8 字节数统计字符串与 URLSearchParams', () => {
+    expect(getBodySize('你好')).toBe(6)
+    expect(getBodySize(new URLSearchParams({ q: '中' }))).toBe('q=%E4%B8%AD'.length)
+    expect(getBodySize(undefined)).toBe(0)
+  })
+
+  it('formData 的字段名同样按字节数统计', () => {
+    const form = new FormData()
+    form.append('名称', 'ab')
+    form.append('file', new Blob([new Uint8Array(10)]))
+
+    expect(getBodySize(form)).toBe(6 + 2 + 4 + 10)
+  })
+
+  it('无法确定大小的流返回 null', () => {
+    expect(getBodySize(new ReadableStream())).toBeNull()
+  })
+})
+
+describe('readResponseBytes', () => {
+  it('按块读取并报告进度', async () => {
+    const progress: Array<number | null> = []
+    const response = new Response(new Uint8Array(8), { headers: { 'content-length': '8' } })
+
+    const bytes = await readResponseBytes(response, { onProgress: p => progress.push(p.percent) })
+
+    expect(bytes.byteLength).toBe(8)
+    expect(progress.at(-1)).toBe(100)
+  })
+
+  it('提供 onChunk 时不累积数据', async () => {
+    let received = 0
+    const bytes = await readResponseBytes(new Response('hello'), { onChunk: chunk => void (received += chunk.byteLength) })
+
+    expect(received).toBe(5)
+    expect(bytes.byteLength).toBe(0)
+  })
+})
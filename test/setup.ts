@@ -0,0 +1,7 @@
+/**
+ * 测试环境：提供 Nuxt 自动导入的 Vue API
+ */
+
+import { computed, getCurrentScope, onScopeDispose, reactive, readonly, ref, shallowRef, watch } from 'vue'
+
+Object.assign(globalThis, { computed, getCurrentScope, onScopeDispose, reactive, readonly, ref, shallowRef, watch })
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest'
+import { diffValues } from '~/utils/diff'
+
+describe('diffValues', () => {
+  it('相同的值没有差异', () => {
+    expect(diffValues({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toEqual([])
+  })
+
+  it('记录嵌套对象与数组中的叶子差异', () => {
+    expect(diffValues(
+      { user: { name: 'a', age: 1 }, items: [1, 2] },
+      { user: { name: 'b', email: 'x' }, items: [1, 3, 4] },
+    )).toEqual([
+      { path: 'user.name', type: 'changed', before: 'a', after: 'b' },
+      { path: 'user.age', type: 'removed', before: 1 },
+      { path: 'user.email', type: 'added', after: 'x' },
+      { path: 'items[1]', type: 'changed', before: 2, after: 3 },
+      { path: 'items[2]', type: 'added', after: 4 },
+    ])
+  })
+
+  it('类型不同时整体记为 changed', () => {
+    expect(diffValues({ a: [1] }, { a: { 0: 1 } })).toEqual([
+      { path: 'a', type: 'changed', before: [1], after: { 0: 1 } },
+    ])
+    expect(diffValues(1, null)).toEqual([{ path: '', type: 'changed', before: 1, after: null }])
+  })
+})